@@ -0,0 +1,159 @@
+import { Paywall } from '@/app/components/Paywall';
+import { UpgradeToProButton } from '@/app/components/UpgradeToProButton';
+import { ProPromoCard } from '@/components/ProPromoCard';
+import { EntitlementsProvider, useEntitlements } from '@/contexts/EntitlementsContext';
+import { RevenueCatProvider, useRevenueCat } from '@/contexts/RevenueCatContext';
+import { createFakePurchaseStore, FakePurchaseStore } from '@/services/fakePurchaseStore';
+import { PurchasePackage, setPurchaseService } from '@/services/purchaseService';
+import React, { useState } from 'react';
+import { Text } from 'react-native';
+import { act, create, ReactTestRenderer } from 'react-test-renderer';
+
+jest.mock('@/contexts/AuthContext', () => {
+    const auth = { user: { uid: 'learner-1' } };
+    return { useAuth: () => auth };
+});
+jest.mock('@/services/languageApi', () => ({
+    getLanguageLearner: jest.fn(async () => ({ subscription: 'free' })),
+}));
+jest.mock('@/services/analytics', () => ({
+    analytics: { track: jest.fn(async () => { }) },
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A screen with the upgrade entry points, opening the Paywall the way the app's screens do
+function UpgradeScreen({ onSuccess, onClose }: { onSuccess: () => void; onClose: () => void }) {
+    const [showPaywall, setShowPaywall] = useState(false);
+    const { isPremium, refresh } = useEntitlements();
+    const { restorePurchases } = useRevenueCat();
+
+    return (
+        <>
+            <Text testID="tier">{isPremium ? 'premium' : 'free'}</Text>
+            <ProPromoCard testID="pro-promo" onPress={() => setShowPaywall(true)} />
+            <UpgradeToProButton text="Go Pro" onPress={() => setShowPaywall(true)} />
+            <Text testID="restore" onPress={() => restorePurchases().then(refresh)}>Restore purchases</Text>
+            <Text testID="refresh" onPress={refresh}>Refresh</Text>
+            {showPaywall && (
+                <Paywall
+                    onSuccess={() => {
+                        setShowPaywall(false);
+                        onSuccess();
+                    }}
+                    onClose={() => {
+                        setShowPaywall(false);
+                        onClose();
+                    }}
+                />
+            )}
+        </>
+    );
+}
+
+describe('upgrading with the fake purchase store', () => {
+    let store: FakePurchaseStore;
+    let renderer: ReactTestRenderer;
+    const onSuccess = jest.fn();
+    const onClose = jest.fn();
+
+    const tier = () => renderer.root.findByProps({ testID: 'tier' }).props.children;
+
+    const press = async (testID: string) => {
+        await act(async () => {
+            renderer.root.findAll(node => node.props.testID === testID && node.props.onPress)[0].props.onPress();
+        });
+    };
+
+    // The Paywall waits a second after a purchase before calling onSuccess
+    const waitForPaywall = () => act(() => new Promise(resolve => setTimeout(resolve, 1000)));
+
+    const render = async () => {
+        await act(async () => {
+            renderer = create(
+                <RevenueCatProvider>
+                    <EntitlementsProvider>
+                        <UpgradeScreen onSuccess={onSuccess} onClose={onClose} />
+                    </EntitlementsProvider>
+                </RevenueCatProvider>
+            );
+        });
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        store = createFakePurchaseStore();
+        setPurchaseService(store);
+    });
+
+    afterEach(() => {
+        act(() => renderer.unmount());
+    });
+
+    it('unlocks premium when the purchase succeeds from the promo card', async () => {
+        await render();
+        expect(tier()).toBe('free');
+
+        await press('pro-promo');
+        await waitForPaywall();
+
+        expect(onSuccess).toHaveBeenCalledTimes(1);
+        expect(onClose).not.toHaveBeenCalled();
+        expect(tier()).toBe('premium');
+    });
+
+    it('stays free when the learner cancels', async () => {
+        store.setNextPurchaseOutcome('cancel');
+        await render();
+
+        await press('upgrade-to-pro-btn');
+
+        expect(onClose).toHaveBeenCalledTimes(1);
+        expect(onSuccess).not.toHaveBeenCalled();
+        expect(tier()).toBe('free');
+    });
+
+    it('stays free when the purchase fails', async () => {
+        store.setNextPurchaseOutcome('failure');
+        await render();
+
+        await press('upgrade-to-pro-btn');
+
+        expect(onClose).toHaveBeenCalledTimes(1);
+        expect(onSuccess).not.toHaveBeenCalled();
+        expect(tier()).toBe('free');
+    });
+
+    it('restores a purchase made on this device before signing in', async () => {
+        const offering = await store.getOfferings();
+        await store.purchasePackage(offering!.availablePackages[0] as PurchasePackage);
+        await store.identifyUser('learner-1');
+        await render();
+        expect(tier()).toBe('free');
+
+        await press('restore');
+
+        expect(tier()).toBe('premium');
+    });
+
+    it("doesn't carry another learner's purchase over on this device", async () => {
+        await store.identifyUser('learner-2');
+        const offering = await store.getOfferings();
+        await store.purchasePackage(offering!.availablePackages[0] as PurchasePackage);
+        await render();
+
+        expect(tier()).toBe('free');
+    });
+
+    it('drops back to free once the subscription expires', async () => {
+        await render();
+        await press('upgrade-to-pro-btn');
+        await waitForPaywall();
+        expect(tier()).toBe('premium');
+
+        store.advanceTime(31 * DAY_MS);
+        await press('refresh');
+
+        expect(tier()).toBe('free');
+    });
+});
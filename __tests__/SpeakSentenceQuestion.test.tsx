@@ -0,0 +1,126 @@
+import { getQuestionType } from '@/app/components/questionRegistry';
+import '@/app/components/questionTypes';
+import { useFeedback } from '@/app/contexts/FeedbackContext';
+import { createStubRecognizer, setSpeechRecognizer } from '@/services/speechRecognizer';
+import { Question } from '@/types/api';
+import React from 'react';
+import { act, create, ReactTestRenderer } from 'react-test-renderer';
+
+jest.mock('expo-av', () => ({
+    Audio: {
+        requestPermissionsAsync: jest.fn(async () => ({ granted: true })),
+        setAudioModeAsync: jest.fn(async () => { }),
+        RecordingOptionsPresets: { HIGH_QUALITY: {} },
+        Recording: {
+            createAsync: jest.fn(async () => ({
+                recording: {
+                    stopAndUnloadAsync: jest.fn(async () => { }),
+                    getURI: () => 'file:///recording.m4a',
+                },
+            })),
+        },
+    },
+}));
+jest.mock('@/services/authenticatedFetch', () => ({
+    authenticatedFetch: jest.fn(),
+}));
+jest.mock('@/app/components/AudioPlayer', () => ({
+    AudioPlayer: () => null,
+}));
+jest.mock('@/app/contexts/FeedbackContext', () => {
+    const feedback = { setFeedback: jest.fn(), resetFeedback: jest.fn() };
+    return { useFeedback: () => feedback };
+});
+
+const question = {
+    words: [
+        { id: 1, audio: { af: 'goeie.mp3' }, translations: { af: 'Goeie' } },
+        { id: 2, audio: { af: 'more.mp3' }, translations: { af: 'môre' } },
+    ],
+    sentenceWords: [1, 2],
+} as unknown as Question;
+
+async function answerWith(heard: string | (() => string)) {
+    setSpeechRecognizer(createStubRecognizer(heard));
+    const definition = getQuestionType('speak_sentence')!;
+    const payload = definition.normalize(question);
+    const setIsQuestionAnswered = jest.fn();
+    let check = () => { };
+    let renderer!: ReactTestRenderer;
+
+    await act(async () => {
+        renderer = create(
+            <definition.component
+                {...payload}
+                questionId="42"
+                selectedLanguage="af"
+                setOnCheck={(fn: () => void) => { check = fn; }}
+                setOnContinue={() => { }}
+                setIsQuestionAnswered={setIsQuestionAnswered}
+                onSkip={() => { }}
+                grade={(transcript: string) => definition.grade(payload, transcript, 'af')}
+            />
+        );
+    });
+    await act(async () => {
+        renderer.root.findByProps({ accessibilityLabel: 'Start recording' }).props.onPress();
+    });
+    await act(async () => {
+        renderer.root.findByProps({ accessibilityLabel: 'Stop recording' }).props.onPress();
+    });
+    await act(async () => {
+        check();
+    });
+    return { renderer, setIsQuestionAnswered };
+}
+
+describe('SpeakSentenceQuestion', () => {
+    const { setFeedback } = useFeedback();
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('marks a matching transcript correct', async () => {
+        const { setIsQuestionAnswered } = await answerWith('goeie môre!');
+
+        expect(setIsQuestionAnswered).toHaveBeenLastCalledWith(true);
+        expect(setFeedback).toHaveBeenCalledWith(expect.objectContaining({
+            isChecked: true,
+            isCorrect: true,
+            verdict: 'correct',
+            answer: 'goeie môre!',
+            correctAnswer: 'Goeie môre',
+        }));
+    });
+
+    it('accepts a near miss as a typo', async () => {
+        await answerWith('goeie more');
+
+        expect(setFeedback).toHaveBeenCalledWith(expect.objectContaining({
+            isCorrect: true,
+            verdict: 'typo',
+        }));
+    });
+
+    it('marks a different sentence wrong', async () => {
+        await answerWith('totsiens');
+
+        expect(setFeedback).toHaveBeenCalledWith(expect.objectContaining({
+            isCorrect: false,
+            verdict: 'wrong',
+        }));
+    });
+
+    it('asks to try again when the recognizer fails', async () => {
+        const consoleError = jest.spyOn(console, 'error').mockImplementation(() => { });
+        const { renderer, setIsQuestionAnswered } = await answerWith(() => {
+            throw new Error('Recognizer unavailable');
+        });
+
+        expect(setIsQuestionAnswered).not.toHaveBeenCalledWith(true);
+        expect(setFeedback).not.toHaveBeenCalled();
+        expect(renderer.root.findAllByProps({ children: "We couldn't check your recording. Please try again." })).not.toHaveLength(0);
+        consoleError.mockRestore();
+    });
+});
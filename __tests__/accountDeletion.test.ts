@@ -0,0 +1,135 @@
+import { deleteUser, reauthenticateWithCredential } from 'firebase/auth';
+import { deleteAccount, ReauthenticationRequiredError } from '@/services/accountDeletion';
+import { deleteLanguageLearner } from '@/services/languageApi';
+import { getGoogleCredential } from '@/services/socialAuth';
+
+const mockAuth: { currentUser: unknown } = { currentUser: null };
+
+// Read lazily: the mock is hoisted above mockAuth's declaration
+jest.mock('@/config/firebase', () => ({
+  get auth() {
+    return mockAuth;
+  },
+}));
+jest.mock('firebase/auth', () => ({
+  deleteUser: jest.fn(async () => {}),
+  reauthenticateWithCredential: jest.fn(async () => {}),
+  EmailAuthProvider: { credential: (email: string, password: string) => ({ providerId: 'password', email, password }) },
+}));
+jest.mock('@/services/phoneAuth', () => ({
+  phoneCredential: (verificationId: string, code: string) => ({ providerId: 'phone', verificationId, code }),
+  sendVerificationCode: jest.fn(async () => 'verification-1'),
+}));
+jest.mock('@/services/socialAuth', () => ({
+  getGoogleCredential: jest.fn(),
+  getAppleCredential: jest.fn(),
+}));
+jest.mock('@/services/languageApi', () => ({
+  deleteLanguageLearner: jest.fn(async () => {}),
+}));
+jest.mock('@/services/guestAccount', () => ({
+  isGuestEmail: (email: string | null) => !!email?.endsWith('@guest.example'),
+  reauthenticateGuest: jest.fn(async () => {}),
+  clearGuestCredentials: jest.fn(async () => {}),
+}));
+jest.mock('@/services/unitDownloads', () => ({
+  forgetAllDownloads: jest.fn(async () => {}),
+}));
+jest.mock('@/services/mediaCache', () => ({
+  clearMediaCache: jest.fn(async () => {}),
+}));
+jest.mock('expo-notifications', () => ({
+  unregisterForNotificationsAsync: jest.fn(async () => {}),
+}));
+jest.mock('@/services/purchaseService', () => ({
+  getPurchaseService: () => ({ resetUser: async () => {} }),
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function signedInWith(providerId: string, extra: object = {}) {
+  mockAuth.currentUser = {
+    uid: 'learner-1',
+    email: providerId === 'phone' ? null : 'learner@example.com',
+    phoneNumber: providerId === 'phone' ? '+27821234567' : null,
+    metadata: { lastSignInTime: new Date(Date.now() - HOUR_MS).toUTCString() },
+    providerData: [{ providerId }],
+    ...extra,
+  };
+}
+
+async function reauthenticationMethodOf(promise: Promise<unknown>) {
+  const error = await promise.catch(caught => caught);
+  expect(error).toBeInstanceOf(ReauthenticationRequiredError);
+  return (error as ReauthenticationRequiredError).method;
+}
+
+describe('deleteAccount re-authentication', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('deletes straight away after a recent sign-in', async () => {
+    signedInWith('google.com', { metadata: { lastSignInTime: new Date().toUTCString() } });
+
+    await deleteAccount();
+
+    expect(getGoogleCredential).not.toHaveBeenCalled();
+    expect(deleteUser).toHaveBeenCalled();
+  });
+
+  it('asks an email learner for their password', async () => {
+    signedInWith('password');
+
+    expect(await reauthenticationMethodOf(deleteAccount())).toBe('password');
+    expect(deleteLanguageLearner).not.toHaveBeenCalled();
+  });
+
+  it('signs a Google learner in with Google again', async () => {
+    signedInWith('google.com');
+    const credential = { providerId: 'google.com' };
+    (getGoogleCredential as jest.Mock).mockResolvedValue({ provider: 'google', credential, displayName: null });
+
+    await deleteAccount();
+
+    expect(reauthenticateWithCredential).toHaveBeenCalledWith(mockAuth.currentUser, credential);
+    expect(deleteLanguageLearner).toHaveBeenCalledWith('learner-1');
+  });
+
+  it('deletes nothing when the Google sheet is closed', async () => {
+    signedInWith('google.com');
+    (getGoogleCredential as jest.Mock).mockResolvedValue(null);
+
+    expect(await reauthenticationMethodOf(deleteAccount())).toBe('google');
+    expect(deleteLanguageLearner).not.toHaveBeenCalled();
+  });
+
+  it('asks a phone learner for a texted code and re-authenticates with it', async () => {
+    signedInWith('phone');
+
+    expect(await reauthenticationMethodOf(deleteAccount())).toBe('phone');
+
+    await deleteAccount({ phoneVerification: { verificationId: 'verification-1', code: '123456' } });
+
+    expect(reauthenticateWithCredential).toHaveBeenCalledWith(
+      mockAuth.currentUser,
+      { providerId: 'phone', verificationId: 'verification-1', code: '123456' }
+    );
+    expect(deleteUser).toHaveBeenCalled();
+  });
+
+  it('keeps asking for the code when it is wrong', async () => {
+    signedInWith('phone');
+    (reauthenticateWithCredential as jest.Mock).mockRejectedValueOnce(new Error('auth/invalid-verification-code'));
+
+    const promise = deleteAccount({ phoneVerification: { verificationId: 'verification-1', code: '000000' } });
+
+    expect(await reauthenticationMethodOf(promise)).toBe('phone');
+    expect(deleteLanguageLearner).not.toHaveBeenCalled();
+  });
+});
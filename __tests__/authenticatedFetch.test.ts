@@ -0,0 +1,55 @@
+import { authenticatedFetch, setUnauthorizedHandler } from '@/services/authenticatedFetch';
+
+const mockAuth: { currentUser: unknown } = { currentUser: null };
+
+// Read lazily: the mock is hoisted above mockAuth's declaration
+jest.mock('@/config/firebase', () => ({
+  get auth() {
+    return mockAuth;
+  },
+}));
+jest.mock('firebase/auth', () => ({
+  // Firebase reports the restored user asynchronously
+  onAuthStateChanged: (_auth: unknown, callback: () => void) => {
+    Promise.resolve().then(callback);
+    return () => {};
+  },
+}));
+
+const fetchMock = jest.fn();
+const onUnauthorized = jest.fn();
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  global.fetch = fetchMock;
+  fetchMock.mockImplementation(async () => new Response('', { status: 401 }));
+  setUnauthorizedHandler(onUnauthorized);
+});
+
+afterEach(() => {
+  setUnauthorizedHandler(null);
+});
+
+describe('authenticatedFetch', () => {
+  it("ends the session when a signed-in learner's fresh token is refused", async () => {
+    const getIdToken = jest.fn(async (forceRefresh: boolean) => (forceRefresh ? 'fresh-token' : 'token'));
+    mockAuth.currentUser = { getIdToken };
+
+    const response = await authenticatedFetch('https://api.example/learner');
+
+    expect(response.status).toBe(401);
+    expect(getIdToken).toHaveBeenLastCalledWith(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(onUnauthorized).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns a 401 without ending a session when nobody is signed in', async () => {
+    mockAuth.currentUser = null;
+
+    const response = await authenticatedFetch('https://api.example/learner');
+
+    expect(response.status).toBe(401);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(onUnauthorized).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,67 @@
+import { reauthenticateWithCredential, updateEmail, updatePassword } from 'firebase/auth';
+import { getGuestCredentials, saveGuestCredentials, upgradeGuestAccount } from '@/services/guestAccount';
+import { queueMutation } from '@/services/progressOutbox';
+
+const mockAuth: { currentUser: unknown } = { currentUser: null };
+const mockSecureStore = new Map<string, string>();
+
+// Read lazily: the mocks are hoisted above the declarations
+jest.mock('@/config/firebase', () => ({
+  get auth() {
+    return mockAuth;
+  },
+}));
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(async (key: string) => mockSecureStore.get(key) ?? null),
+  setItemAsync: jest.fn(async (key: string, value: string) => {
+    mockSecureStore.set(key, value);
+  }),
+  deleteItemAsync: jest.fn(async (key: string) => {
+    mockSecureStore.delete(key);
+  }),
+}));
+jest.mock('firebase/auth', () => ({
+  reauthenticateWithCredential: jest.fn(async () => {}),
+  updateEmail: jest.fn(async (user: { email: string }, email: string) => {
+    user.email = email;
+  }),
+  updatePassword: jest.fn(async () => {}),
+  EmailAuthProvider: { credential: (email: string, password: string) => ({ providerId: 'password', email, password }) },
+}));
+jest.mock('@/services/progressOutbox', () => ({
+  queueMutation: jest.fn(async () => {}),
+}));
+
+const GUEST = { email: 'abc@guest.com', password: 'guest-password' };
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  mockSecureStore.clear();
+  await saveGuestCredentials(GUEST);
+  mockAuth.currentUser = { uid: 'guest-1', email: GUEST.email };
+});
+
+describe('upgradeGuestAccount', () => {
+  it('swaps in the new email and password and queues the backend update', async () => {
+    await upgradeGuestAccount('learner@example.com', 'new-password');
+
+    expect(updatePassword).toHaveBeenCalledWith(mockAuth.currentUser, 'new-password');
+    expect(updateEmail).toHaveBeenCalledWith(mockAuth.currentUser, 'learner@example.com');
+    expect(queueMutation).toHaveBeenCalledWith('guest-1', { kind: 'learnerEmail', payload: { email: 'learner@example.com' } });
+    expect(await getGuestCredentials()).toBeNull();
+  });
+
+  it('can be tried again after the email change fails', async () => {
+    (updateEmail as jest.Mock).mockRejectedValueOnce(new Error('auth/email-already-in-use'));
+
+    await expect(upgradeGuestAccount('taken@example.com', 'new-password')).rejects.toThrow('auth/email-already-in-use');
+    expect(await getGuestCredentials()).toEqual({ email: GUEST.email, password: 'new-password' });
+    expect(queueMutation).not.toHaveBeenCalled();
+
+    await upgradeGuestAccount('learner@example.com', 'new-password');
+    expect(reauthenticateWithCredential).toHaveBeenLastCalledWith(
+      mockAuth.currentUser,
+      expect.objectContaining({ email: GUEST.email, password: 'new-password' })
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getDailyLessonQuota } from '@/services/languageApi';
+import { clearDailyQuotaCache, getDailyQuota, isQuotaExhausted, localDateString } from '@/services/lessonQuota';
+import { getPendingCompletionCount } from '@/services/progressOutbox';
+
+jest.mock('@/services/languageApi', () => ({
+  getDailyLessonQuota: jest.fn(),
+}));
+jest.mock('@/services/progressOutbox', () => ({
+  getPendingCompletionCount: jest.fn(),
+}));
+
+const getQuotaMock = getDailyLessonQuota as jest.MockedFunction<typeof getDailyLessonQuota>;
+const pendingMock = getPendingCompletionCount as jest.MockedFunction<typeof getPendingCompletionCount>;
+
+function cacheQuota(date: string, limit: number | null, used: number) {
+  return AsyncStorage.setItem('dailyLessonQuota', JSON.stringify({
+    uid: 'uid-1',
+    quota: { date, limit, used, remaining: limit === null ? null : limit - used },
+    fetchedAt: 0,
+  }));
+}
+
+describe('getDailyQuota offline', () => {
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    getQuotaMock.mockRejectedValue(new TypeError('Network request failed'));
+    pendingMock.mockResolvedValue(0);
+    await clearDailyQuotaCache();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("uses today's cached count plus pending completions", async () => {
+    await cacheQuota(localDateString(), 3, 1);
+    pendingMock.mockResolvedValue(2);
+
+    const quota = await getDailyQuota('uid-1');
+
+    expect(quota).toMatchObject({ limit: 3, used: 3, remaining: 0 });
+    expect(isQuotaExhausted(quota)).toBe(true);
+  });
+
+  it("starts yesterday's limit afresh and counts today's pending completions", async () => {
+    await cacheQuota('2000-01-01', 3, 3);
+    pendingMock.mockResolvedValue(3);
+
+    const quota = await getDailyQuota('uid-1');
+
+    expect(quota).toMatchObject({ date: localDateString(), limit: 3, used: 3, remaining: 0 });
+    expect(isQuotaExhausted(quota)).toBe(true);
+  });
+
+  it('applies the free tier limit when nothing was ever cached', async () => {
+    pendingMock.mockResolvedValue(3);
+
+    expect(isQuotaExhausted(await getDailyQuota('uid-1'))).toBe(true);
+  });
+
+  it('keeps an unlimited learner unlimited', async () => {
+    await cacheQuota('2000-01-01', null, 0);
+    pendingMock.mockResolvedValue(5);
+
+    expect(await getDailyQuota('uid-1')).toMatchObject({ limit: null, remaining: null });
+  });
+});
@@ -0,0 +1,97 @@
+import * as FileSystem from 'expo-file-system';
+import { MediaDownloadPausedError, pauseMediaDownloads, resolveMediaUri } from '@/services/mediaCache';
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  getInfoAsync: jest.fn(async () => ({ exists: false })),
+  makeDirectoryAsync: jest.fn(async () => {}),
+  writeAsStringAsync: jest.fn(async () => {}),
+  deleteAsync: jest.fn(async () => {}),
+  createDownloadResumable: jest.fn(),
+}));
+jest.mock('expo-crypto', () => ({
+  randomUUID: () => jest.requireActual('crypto').randomUUID(),
+}));
+jest.mock('@/services/languageApi', () => ({
+  getWordAudioUrl: (fileName: string) => `https://media.example/audio/${fileName}`,
+  getWordImageUrl: (fileName: string) => `https://media.example/images/${fileName}`,
+}));
+
+interface FakeDownload {
+  url: string;
+  pauseAsync: jest.Mock;
+}
+
+const createDownloadMock = FileSystem.createDownloadResumable as jest.Mock;
+let downloads: FakeDownload[] = [];
+
+// Downloads never finish on their own; pausing one resolves it empty, as expo-file-system does
+beforeEach(() => {
+  downloads = [];
+  createDownloadMock.mockImplementation((url: string, fileUri: string) => {
+    let stop: () => void = () => {};
+    const stopped = new Promise<undefined>(resolve => {
+      stop = () => resolve(undefined);
+    });
+    const download = {
+      url,
+      downloadAsync: () => stopped,
+      resumeAsync: () => stopped,
+      pauseAsync: jest.fn(async () => {
+        stop();
+        return { url, fileUri, options: {}, resumeData: 'resume' };
+      }),
+    };
+    downloads.push(download);
+    return download;
+  });
+});
+
+afterEach(async () => {
+  await pauseMediaDownloads();
+});
+
+async function whenDownloading(count: number) {
+  while (downloads.length < count) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('pauseMediaDownloads', () => {
+  it("pauses only the owner's downloads", async () => {
+    const owned = resolveMediaUri('audio', 'hond.mp3', 'unit:af:1');
+    const streamed = resolveMediaUri('audio', 'kat.mp3');
+    // Paused by afterEach
+    streamed.catch(() => {});
+    await whenDownloading(2);
+
+    await pauseMediaDownloads('unit:af:1');
+
+    await expect(owned).rejects.toBeInstanceOf(MediaDownloadPausedError);
+    expect(downloads[0].pauseAsync).toHaveBeenCalled();
+    expect(downloads[1].pauseAsync).not.toHaveBeenCalled();
+  });
+
+  it('leaves a download alone once a request without the owner shares it', async () => {
+    const owned = resolveMediaUri('audio', 'hond.mp3', 'unit:af:1');
+    const streamed = resolveMediaUri('audio', 'hond.mp3');
+    streamed.catch(() => {});
+    await whenDownloading(1);
+
+    await pauseMediaDownloads('unit:af:1');
+
+    expect(streamed).toBe(owned);
+    expect(downloads[0].pauseAsync).not.toHaveBeenCalled();
+  });
+
+  it('pauses every download without an owner', async () => {
+    const owned = resolveMediaUri('audio', 'hond.mp3', 'unit:af:1');
+    const streamed = resolveMediaUri('image', 'kat.png');
+    await whenDownloading(2);
+
+    await pauseMediaDownloads();
+
+    await expect(owned).rejects.toBeInstanceOf(MediaDownloadPausedError);
+    await expect(streamed).rejects.toBeInstanceOf(MediaDownloadPausedError);
+  });
+});
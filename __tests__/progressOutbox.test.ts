@@ -0,0 +1,91 @@
+import { authenticatedFetch } from '@/services/authenticatedFetch';
+import { clearOutbox, flushOutbox, getPendingCompletionCount, queueMutation } from '@/services/progressOutbox';
+
+jest.mock('@/services/authenticatedFetch', () => ({
+  authenticatedFetch: jest.fn(),
+}));
+jest.mock('expo-crypto', () => ({
+  randomUUID: () => jest.requireActual('crypto').randomUUID(),
+}));
+
+const fetchMock = authenticatedFetch as jest.MockedFunction<typeof authenticatedFetch>;
+
+const completion = {
+  kind: 'lessonProgress' as const,
+  payload: { lessonId: 7, language: 'af', status: 'completed' as const },
+};
+
+function sentKeys(): (string | undefined)[] {
+  return fetchMock.mock.calls.map(([, init]) => (init?.headers as Record<string, string>)['Idempotency-Key']);
+}
+
+beforeEach(async () => {
+  jest.useFakeTimers();
+  fetchMock.mockReset();
+  fetchMock.mockImplementation(async () => new Response(''));
+  await clearOutbox();
+});
+
+afterEach(() => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+});
+
+describe('queueMutation', () => {
+  it('keeps one pending entry when an attempt queues the same mutation twice', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Network request failed'));
+    const since = new Date(0);
+
+    const first = await queueMutation('uid-1', completion, { attemptId: 'attempt-1' });
+    await flushOutbox();
+    const second = await queueMutation('uid-1', completion, { attemptId: 'attempt-1' });
+    await flushOutbox();
+
+    expect(second).toEqual(first);
+    expect(await getPendingCompletionCount('uid-1', since)).toBe(1);
+  });
+
+  it('sends the same idempotency key when an attempt queues again after delivery', async () => {
+    await queueMutation('uid-1', completion, { attemptId: 'attempt-1' });
+    await flushOutbox();
+    await queueMutation('uid-1', completion, { attemptId: 'attempt-1' });
+    await flushOutbox();
+
+    const keys = sentKeys();
+    expect(keys).toHaveLength(2);
+    expect(keys[0]).toBe(keys[1]);
+  });
+
+  it('uses a different key for another attempt, kind or learner', async () => {
+    await queueMutation('uid-1', completion, { attemptId: 'attempt-1' });
+    await queueMutation('uid-1', completion, { attemptId: 'attempt-2' });
+    await queueMutation('uid-1', { kind: 'points', payload: { points: 10, lessonId: 7 } }, { attemptId: 'attempt-1' });
+    await queueMutation('uid-2', completion, { attemptId: 'attempt-1' });
+    await flushOutbox();
+
+    expect(new Set(sentKeys()).size).toBe(4);
+  });
+
+  it('queues every call without an attempt id', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Network request failed'));
+
+    await queueMutation('uid-1', completion);
+    await queueMutation('uid-1', completion);
+    await flushOutbox();
+
+    expect(await getPendingCompletionCount('uid-1', new Date(0))).toBe(2);
+  });
+});
+
+describe('clearOutbox', () => {
+  it("keeps only the given learner's entries", async () => {
+    fetchMock.mockRejectedValue(new TypeError('Network request failed'));
+    await queueMutation('uid-1', completion);
+    await queueMutation('uid-2', completion);
+
+    await clearOutbox('uid-1');
+
+    expect(await getPendingCompletionCount('uid-1', new Date(0))).toBe(1);
+    expect(await getPendingCompletionCount('uid-2', new Date(0))).toBe(0);
+  });
+});
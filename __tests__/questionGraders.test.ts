@@ -0,0 +1,133 @@
+import {
+    diffAnswer,
+    gradeSelection,
+    gradeTextAnswer,
+    normalizeAnswer,
+    stripDiacritics,
+} from '@/app/components/questionGraders';
+
+describe('normalizeAnswer', () => {
+    it('folds punctuation, case and whitespace', () => {
+        expect(normalizeAnswer('  Hello,   world!\n', 'en')).toBe('hello world');
+        expect(normalizeAnswer('«Dumela» (mme)…', 'st')).toBe('dumela mme');
+    });
+
+    it('turns curly and modifier apostrophes into a plain one', () => {
+        expect(normalizeAnswer('It’s', 'en')).toBe("it's");
+        expect(normalizeAnswer('Itʼs', 'en')).toBe("it's");
+    });
+
+    it("treats 'n with or without its apostrophe as one word in Afrikaans", () => {
+        expect(normalizeAnswer("'n Hond", 'af')).toBe("'n hond");
+        expect(normalizeAnswer('’n hond', 'af')).toBe("'n hond");
+        expect(normalizeAnswer('n hond', 'af')).toBe("'n hond");
+    });
+
+    it('only maps alternative spellings for their own language', () => {
+        expect(normalizeAnswer('n hond', 'en')).toBe('n hond');
+    });
+
+    it('keeps diacritics', () => {
+        expect(normalizeAnswer('Môre', 'af')).toBe('môre');
+    });
+});
+
+describe('stripDiacritics', () => {
+    it('removes accents from precomposed and combining characters', () => {
+        expect(stripDiacritics('môre')).toBe('more');
+        expect(stripDiacritics('ṱhanu')).toBe('thanu');
+        expect(stripDiacritics('sê')).toBe('se');
+    });
+});
+
+describe('gradeTextAnswer', () => {
+    it('accepts Afrikaans apostrophe variants as correct', () => {
+        expect(gradeTextAnswer('n hond', "'n hond", 'af').verdict).toBe('correct');
+        expect(gradeTextAnswer('’n Hond', "'n hond", 'af').verdict).toBe('correct');
+        expect(gradeTextAnswer("'n hond", 'n hond', 'af').verdict).toBe('correct');
+    });
+
+    it('ignores punctuation and extra whitespace', () => {
+        const result = gradeTextAnswer('good   morning', 'Good morning!', 'en');
+        expect(result).toEqual({ verdict: 'correct', expected: 'Good morning!', diff: [] });
+    });
+
+    it('returns the typo verdict when only diacritics differ', () => {
+        expect(gradeTextAnswer('more', 'môre', 'af').verdict).toBe('typo');
+        expect(gradeTextAnswer('thanu', 'ṱhanu', 've').verdict).toBe('typo');
+        // Short answers allow no typos, but a missing accent still counts
+        expect(gradeTextAnswer('se', 'sê', 'af').verdict).toBe('typo');
+    });
+
+    it('allows no typos up to 3 letters', () => {
+        expect(gradeTextAnswer('kas', 'kat', 'af').verdict).toBe('wrong');
+    });
+
+    it('allows one typo from 4 to 8 letters', () => {
+        expect(gradeTextAnswer('hont', 'hond', 'af').verdict).toBe('typo');
+        expect(gradeTextAnswer('hxnt', 'hond', 'af').verdict).toBe('wrong');
+        expect(gradeTextAnswer('skoolbis', 'skoolbus', 'af').verdict).toBe('typo');
+        expect(gradeTextAnswer('skoalbis', 'skoolbus', 'af').verdict).toBe('wrong');
+    });
+
+    it('allows two typos from 9 letters', () => {
+        expect(gradeTextAnswer('kaffiepit', 'koffiepot', 'af').verdict).toBe('typo');
+        expect(gradeTextAnswer('kaffiapit', 'koffiepot', 'af').verdict).toBe('wrong');
+    });
+
+    it('grades against the closest of several accepted answers', () => {
+        const accepted = ['Goeie môre', 'Môre'];
+        expect(gradeTextAnswer('môre', accepted, 'af')).toEqual({ verdict: 'correct', expected: 'Môre', diff: [] });
+        expect(gradeTextAnswer('goeie mre', accepted, 'af')).toMatchObject({ verdict: 'typo', expected: 'Goeie môre' });
+        expect(gradeTextAnswer('totsiens', accepted, 'af')).toMatchObject({ verdict: 'wrong', expected: 'Môre' });
+    });
+
+    it('ignores blank accepted answers', () => {
+        expect(gradeTextAnswer('hond', ['', ' ', 'hond'], 'af').verdict).toBe('correct');
+        expect(gradeTextAnswer('hond', ['', ' '], 'af')).toEqual({ verdict: 'wrong', expected: '', diff: [] });
+    });
+
+    it('diffs the normalized answers when they differ', () => {
+        expect(gradeTextAnswer('Hont!', 'hond', 'af').diff).toEqual([
+            { text: 'hon', kind: 'same' },
+            { text: 'd', kind: 'missing' },
+            { text: 't', kind: 'extra' },
+        ]);
+    });
+});
+
+describe('diffAnswer', () => {
+    it('returns a single segment for equal strings', () => {
+        expect(diffAnswer('hond', 'hond')).toEqual([{ text: 'hond', kind: 'same' }]);
+    });
+
+    it('marks everything missing or extra when one side is empty', () => {
+        expect(diffAnswer('', 'hond')).toEqual([{ text: 'hond', kind: 'missing' }]);
+        expect(diffAnswer('hond', '')).toEqual([{ text: 'hond', kind: 'extra' }]);
+        expect(diffAnswer('', '')).toEqual([]);
+    });
+
+    it('keeps the longest common subsequence and merges neighbouring changes', () => {
+        expect(diffAnswer('goede more', 'goeie more')).toEqual([
+            { text: 'goe', kind: 'same' },
+            { text: 'i', kind: 'missing' },
+            { text: 'd', kind: 'extra' },
+            { text: 'e more', kind: 'same' },
+        ]);
+        expect(diffAnswer('dankie', 'baie dankie')).toEqual([
+            { text: 'baie ', kind: 'missing' },
+            { text: 'dankie', kind: 'same' },
+        ]);
+        expect(diffAnswer('hond hond', 'hond')).toEqual([
+            { text: 'hond', kind: 'same' },
+            { text: ' hond', kind: 'extra' },
+        ]);
+    });
+});
+
+describe('gradeSelection', () => {
+    it('maps the pick to a verdict without a diff', () => {
+        expect(gradeSelection(true, 'kat')).toEqual({ verdict: 'correct', expected: 'kat', diff: [] });
+        expect(gradeSelection(false)).toEqual({ verdict: 'wrong', expected: '', diff: [] });
+    });
+});
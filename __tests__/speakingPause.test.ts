@@ -0,0 +1,33 @@
+import { clearSpeakingPause, isSpeakingPaused, pauseSpeakingQuestions } from '@/services/speakingPause';
+
+describe('speakingPause', () => {
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    await clearSpeakingPause();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('is not paused until the learner asks', async () => {
+    expect(await isSpeakingPaused()).toBe(false);
+  });
+
+  it('skips speaking questions for 15 minutes', async () => {
+    await pauseSpeakingQuestions();
+    expect(await isSpeakingPaused()).toBe(true);
+
+    jest.advanceTimersByTime(15 * 60 * 1000 - 1);
+    expect(await isSpeakingPaused()).toBe(true);
+
+    jest.advanceTimersByTime(1);
+    expect(await isSpeakingPaused()).toBe(false);
+  });
+
+  it('ends early when cleared', async () => {
+    await pauseSpeakingQuestions();
+    await clearSpeakingPause();
+    expect(await isSpeakingPaused()).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import { Lesson } from '@/types/api';
+import { getUnitResources } from '@/services/languageApi';
+import { deleteUnitContent } from '@/services/lessonContentStore';
+import { findMissingMedia, MediaDownloadPausedError, pauseMediaDownloads, pinMedia, resolveMediaUri, unpinMedia } from '@/services/mediaCache';
+import { deleteUnitDownload, DownloadsSnapshot, queueUnitDownload, subscribeToDownloads } from '@/services/unitDownloads';
+
+jest.mock('@/services/languageApi', () => ({
+  getUnitResources: jest.fn(),
+}));
+jest.mock('@/services/lessonContentStore', () => ({
+  downloadUnitContent: jest.fn(async () => {}),
+  deleteUnitContent: jest.fn(async () => {}),
+  getUnitContentSize: jest.fn(async () => 0),
+  hasUnitContent: jest.fn(async () => true),
+}));
+jest.mock('@/services/mediaCache', () => {
+  class MediaDownloadPausedError extends Error {}
+  return {
+    MediaDownloadPausedError,
+    findMissingMedia: jest.fn(),
+    getMediaSize: jest.fn(async () => 0),
+    pauseMediaDownloads: jest.fn(),
+    pinMedia: jest.fn(async () => {}),
+    resolveMediaUri: jest.fn(),
+    unpinMedia: jest.fn(async () => {}),
+  };
+});
+
+const resolveMock = resolveMediaUri as jest.MockedFunction<typeof resolveMediaUri>;
+const pauseMock = pauseMediaDownloads as jest.MockedFunction<typeof pauseMediaDownloads>;
+const missingMock = findMissingMedia as jest.MockedFunction<typeof findMissingMedia>;
+
+const lessons = [
+  { id: 11, unitId: 1, unitName: 'Greetings', unitOrder: 1 },
+  { id: 21, unitId: 2, unitName: 'Family', unitOrder: 2 },
+] as Lesson[];
+
+// Downloads in flight, by owner, that only finish when the test says or when paused
+let pending: { owner?: string; fileName: string; finish: () => void; pause: () => void }[] = [];
+let cached = new Set<string>();
+let latest: DownloadsSnapshot | null = null;
+let unsubscribe = () => {};
+
+async function settled() {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  pending = [];
+  cached = new Set();
+  (getUnitResources as jest.Mock).mockImplementation(async (unitId: number) => ({
+    audio: [`unit${unitId}-a.mp3`, `unit${unitId}-b.mp3`],
+    images: [],
+  }));
+  missingMock.mockImplementation(async files => files.filter(file => !cached.has(file.fileName)));
+  resolveMock.mockImplementation((type, fileName, owner) => new Promise((resolve, reject) => {
+    pending.push({
+      owner,
+      fileName,
+      finish: () => {
+        cached.add(fileName);
+        resolve(`file:///${fileName}`);
+      },
+      pause: () => reject(new MediaDownloadPausedError()),
+    });
+  }));
+  pauseMock.mockImplementation(async owner => {
+    pending.filter(download => download.owner === owner).forEach(download => download.pause());
+    pending = pending.filter(download => download.owner !== owner);
+  });
+  unsubscribe = subscribeToDownloads(snapshot => {
+    latest = snapshot;
+  });
+});
+
+afterEach(() => {
+  unsubscribe();
+});
+
+describe('deleteUnitDownload', () => {
+  it('stops a download in progress without saving the unit afterwards', async () => {
+    const outcome = queueUnitDownload('af', { id: 1, name: 'Greetings' }, lessons);
+    await settled();
+    expect(pending).toHaveLength(2);
+
+    await deleteUnitDownload('af', 1);
+    await settled();
+
+    expect(await outcome).toBe('failed');
+    expect(pauseMock).toHaveBeenCalledWith('unit:af:1');
+    expect(pinMedia).toHaveBeenCalledWith('unit:af:1', expect.any(Array));
+    expect(unpinMedia).toHaveBeenLastCalledWith('unit:af:1');
+    expect(deleteUnitContent).toHaveBeenLastCalledWith('af', [11]);
+    expect(latest?.units).toEqual([]);
+    expect(latest?.jobs).toEqual([]);
+  });
+});
+
+describe('queueUnitDownload', () => {
+  it('downloads the tapped unit before the one already downloading', async () => {
+    const first = queueUnitDownload('af', { id: 1, name: 'Greetings' }, lessons);
+    await settled();
+
+    const tapped = queueUnitDownload('af', { id: 2, name: 'Family' }, lessons);
+    await settled();
+
+    expect(pauseMock).toHaveBeenCalledWith('unit:af:1');
+    expect(pending.map(download => download.fileName)).toEqual(['unit2-a.mp3', 'unit2-b.mp3']);
+    pending.splice(0).forEach(download => download.finish());
+    expect(await tapped).toBe('downloaded');
+
+    // The paused unit picks up again afterwards
+    await settled();
+    expect(pending.map(download => download.fileName)).toEqual(['unit1-a.mp3', 'unit1-b.mp3']);
+    pending.splice(0).forEach(download => download.finish());
+    expect(await first).toBe('downloaded');
+    expect(latest?.units.map(unit => unit.unitId)).toEqual([2, 1]);
+  });
+});
@@ -0,0 +1,55 @@
+import { Audio } from 'expo-av';
+import React from 'react';
+import { act, create } from 'react-test-renderer';
+import { useWordAudio } from '@/hooks/useWordAudio';
+
+jest.mock('expo-av', () => ({
+  Audio: { Sound: { createAsync: jest.fn() } },
+}));
+jest.mock('@/services/mediaCache', () => ({
+  resolveMediaUri: jest.fn(async (type: string, fileName: string) => `file:///${fileName}`),
+}));
+jest.mock('@/app/contexts/AudioSettingsContext', () => ({
+  useAudioSettings: () => ({ playbackRate: 1 }),
+}));
+
+const createMock = Audio.Sound.createAsync as jest.Mock;
+
+function fakeSound() {
+  return { unloadAsync: jest.fn(async () => {}), setOnPlaybackStatusUpdate: jest.fn() };
+}
+
+describe('useWordAudio', () => {
+  it('unloads a sound that finishes loading after a later tap', async () => {
+    const loads: ((sound: ReturnType<typeof fakeSound>) => void)[] = [];
+    createMock.mockImplementation(() => new Promise(resolve => {
+      loads.push(sound => resolve({ sound }));
+    }));
+    let play: (audioFile: string) => Promise<void> = async () => {};
+    function Harness() {
+      play = useWordAudio();
+      return null;
+    }
+    act(() => {
+      create(<Harness />);
+    });
+
+    const first = fakeSound();
+    const second = fakeSound();
+    let firstTap!: Promise<void>;
+    let secondTap!: Promise<void>;
+    await act(async () => {
+      firstTap = play('hond.mp3');
+      secondTap = play('kat.mp3');
+    });
+    await act(async () => {
+      loads[1](second);
+      await secondTap;
+      loads[0](first);
+      await firstTap;
+    });
+
+    expect(first.unloadAsync).toHaveBeenCalled();
+    expect(second.unloadAsync).not.toHaveBeenCalled();
+  });
+});
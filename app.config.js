@@ -10,6 +10,7 @@ export default {
   ios: {
     supportsTablet: true,
     bundleIdentifier: 'com.dimpolanguages',
+    usesAppleSignIn: true,
     buildNumber: '1.0.2',
     googleServicesFile: './GoogleService-Info.plist',
     infoPlist: {
@@ -40,7 +41,7 @@ export default {
       foregroundImage: './assets/images/adaptive-icon.png',
       backgroundColor: '#ffffff',
     },
-    permissions: ["NOTIFICATIONS"]
+    permissions: ["NOTIFICATIONS", "RECORD_AUDIO"]
   },
   web: {
     bundler: 'metro',
@@ -50,6 +51,10 @@ export default {
   plugins: [
     'expo-router',
     '@react-native-google-signin/google-signin',
+    'expo-apple-authentication',
+    // Native phone auth sends the SMS codes (see services/phoneAuth.ts)
+    '@react-native-firebase/app',
+    '@react-native-firebase/auth',
     [
       'expo-build-properties',
       {
@@ -60,7 +65,8 @@ export default {
           enableWebP: true
         },
         ios: {
-          deploymentTarget: "15.1"
+          deploymentTarget: "15.1",
+          useFrameworks: "static"
         }
       }
     ],
@@ -79,7 +85,13 @@ export default {
         color: '#ffffff'
       }
     ],
-    "expo-asset"
+    "expo-asset",
+    [
+      'expo-av',
+      {
+        microphonePermission: 'Allow Dimpo Languages to hear you practise speaking.'
+      }
+    ]
   ],
   experiments: {
     typedRoutes: true
@@ -6,9 +6,9 @@ import { Header } from '@/components/Header';
 import { LANGUAGE_EMOJIS } from '@/components/language-emojis';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
-import { HOST_URL } from '@/config/api';
 import { useTheme } from '@/contexts/ThemeContext';
 import { analytics } from '@/services/analytics';
+import { getLanguages } from '@/services/languageApi';
 import { Language } from '@/types/language';
 
 // Speaker data for South African languages
@@ -79,8 +79,7 @@ export default function HomeScreen() {
   useEffect(() => {
     async function fetchLanguages() {
       try {
-        const response = await fetch(`${HOST_URL}/api/languages`);
-        const data = await response.json();
+        const data = await getLanguages();
         setLanguages(data);
       } catch (err) {
         setError('Error fetching languages');
@@ -2,33 +2,67 @@ import { UpgradeToProButton } from '@/app/components/UpgradeToProButton';
 import { Header } from '@/components/Header';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
-import { HOST_URL } from '@/config/api';
 import { useAuth } from '@/contexts/AuthContext';
+import { useEntitlements } from '@/contexts/EntitlementsContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import {
+  AccountCleanupStep,
+  deleteAccount,
+  ReauthenticationMethod,
+  ReauthenticationRequiredError,
+  sendReauthenticationCode,
+} from '@/services/accountDeletion';
+import { isGuestEmail } from '@/services/guestAccount';
+import { getLanguageLearner, NotAuthenticatedError, updateLearnerName } from '@/services/languageApi';
+import { clearMediaCache } from '@/services/mediaCache';
+import { forgetAllDownloads } from '@/services/unitDownloads';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import * as FileSystem from 'expo-file-system';
 import { LinearGradient } from 'expo-linear-gradient';
 import { router } from 'expo-router';
-import * as SecureStore from 'expo-secure-store';
 import React, { useEffect, useState } from 'react';
 import { Alert, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
 import Modal from 'react-native-modal';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import Toast from 'react-native-toast-message';
 import { Paywall } from '../components/Paywall';
+import { PLAYBACK_RATES, useAudioSettings } from '../contexts/AudioSettingsContext';
 import { useSound } from '../contexts/SoundContext';
 
+const PHONE_CODE_LENGTH = 6;
+
 interface ProfileInfo {
   name: string;
   email?: string;
-  subscription?: 'free' | 'premium';
+}
+
+// What to tell the learner when the account is gone but some clean-up didn't finish
+function describeCleanupFailures(failedSteps: AccountCleanupStep[]): string {
+  if (failedSteps.includes('firebase')) {
+    return 'Your data was deleted, but your login could not be removed. Please contact support.';
+  }
+  return 'Some data on this device could not be removed. Reinstalling the app will clear it.';
+}
+
+function describeUpgradeError(error: unknown): string {
+  switch ((error as { code?: string })?.code) {
+    case 'auth/email-already-in-use':
+      return 'That email already has an account. Sign out and log in with it instead.';
+    case 'auth/invalid-email':
+      return 'Please enter a valid email address.';
+    case 'auth/weak-password':
+      return 'Please choose a stronger password (at least 6 characters).';
+    default:
+      return 'Failed to upgrade your account. Please try again.';
+  }
 }
 
 export default function ProfileScreen() {
   const { user } = useAuth();
-  const { signOut } = useAuth();
+  const { signOut, upgradeAccount } = useAuth();
+  const { isPremium, isLoading: isEntitlementsLoading } = useEntitlements();
   const { colors, isDark } = useTheme();
   const { soundEnabled, toggleSound } = useSound();
+  const { playbackRate, setPlaybackRate, autoPlay, setAutoPlay } = useAudioSettings();
   const [profileInfo, setProfileInfo] = useState<ProfileInfo | null>(null);
   const [editName, setEditName] = useState('');
   const [isSaving, setIsSaving] = useState(false);
@@ -43,32 +77,37 @@ export default function ProfileScreen() {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [deleteConfirmation, setDeleteConfirmation] = useState('');
+  const [deletePassword, setDeletePassword] = useState('');
+  // Set once deleting needs a fresh sign-in, to whichever way the learner signs in
+  const [reauthMethod, setReauthMethod] = useState<ReauthenticationMethod | null>(null);
+  const [deleteVerificationId, setDeleteVerificationId] = useState<string | null>(null);
+  const [deleteCode, setDeleteCode] = useState('');
+  const [isSendingDeleteCode, setIsSendingDeleteCode] = useState(false);
+  const [showUpgradeAccountModal, setShowUpgradeAccountModal] = useState(false);
+  const [upgradeEmail, setUpgradeEmail] = useState('');
+  const [upgradePassword, setUpgradePassword] = useState('');
+  const [upgradeConfirmPassword, setUpgradeConfirmPassword] = useState('');
+  const [isUpgradingAccount, setIsUpgradingAccount] = useState(false);
+  const isGuest = isGuestEmail(user?.email);
+  const canConfirmDelete = deleteConfirmation === 'delete'
+    && (reauthMethod !== 'password' || !!deletePassword)
+    && (reauthMethod !== 'phone' || deleteCode.length === PHONE_CODE_LENGTH);
   const [isClearingCache, setIsClearingCache] = useState(false);
   const [showPaywall, setShowPaywall] = useState(false);
   const [isUpgradeLoading, setIsUpgradeLoading] = useState(false);
 
   const fetchLearnerData = async () => {
     try {
-      const authData = await SecureStore.getItemAsync('auth');
-      if (!authData) {
-        throw new Error('No auth data found');
-      }
-      const { user } = JSON.parse(authData);
-
-      const response = await fetch(`${HOST_URL}/api/language-learners/uid/${user.uid}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch learner data');
+      if (!user) {
+        throw new NotAuthenticatedError();
       }
-
-      const learnerData = await response.json();
+      const uid = user.uid;
+      const learnerData = await getLanguageLearner(uid);
       setProfileInfo({
         name: learnerData.name,
-        email: user?.email || '',
-        subscription: learnerData.subscription || 'free'
+        email: user?.email || ''
       });
       setEditName(learnerData.name);
-
-      //console.log('subscription', learnerData.subscription);
     } catch (error) {
       console.error('Error fetching learner data:', error);
     }
@@ -76,7 +115,7 @@ export default function ProfileScreen() {
 
   useEffect(() => {
     fetchLearnerData();
-  }, [user?.email]);
+  }, [user?.uid, user?.email]);
 
   const handleSave = async () => {
     await saveChanges();
@@ -85,29 +124,11 @@ export default function ProfileScreen() {
   const saveChanges = async () => {
     setIsSaving(true);
     try {
-      const authData = await SecureStore.getItemAsync('auth');
-      if (!authData) {
-        throw new Error('No auth data found');
+      if (!user) {
+        throw new NotAuthenticatedError();
       }
-      const { user } = JSON.parse(authData);
-
-      const response = await fetch(`${HOST_URL}/api/language-learners/${user.uid}/name`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: editName.trim(),
-        }),
-      });
-
-      //console.log('response', response);
-
-      if (!response.ok) {
-        throw new Error('Failed to update profile');
-      }
-
-      const updatedProfile = await response.json();
+      const uid = user.uid;
+      const updatedProfile = await updateLearnerName(uid, editName.trim());
       setProfileInfo(prev => ({
         ...prev!,
         name: updatedProfile.name,
@@ -155,54 +176,147 @@ export default function ProfileScreen() {
     }
   };
 
+  // A guest's password is only on this device, so signing out loses the account unless it's upgraded first
+  const confirmLogout = () => {
+    if (!isGuest) {
+      handleLogout();
+      return;
+    }
+    Alert.alert(
+      'Sign out of your guest account?',
+      "You won't be able to sign back in, and your points, streak and lessons will be lost. Add your email and a password first to keep them.",
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Upgrade Your Account', onPress: () => setShowUpgradeAccountModal(true) },
+        { text: 'Sign Out', style: 'destructive', onPress: handleLogout },
+      ]
+    );
+  };
+
+  const closeDeleteModal = () => {
+    setShowDeleteModal(false);
+    setDeleteConfirmation('');
+    setDeletePassword('');
+    setReauthMethod(null);
+    setDeleteVerificationId(null);
+    setDeleteCode('');
+  };
+
+  const sendDeleteCode = async () => {
+    setIsSendingDeleteCode(true);
+    try {
+      setDeleteVerificationId(await sendReauthenticationCode());
+      setDeleteCode('');
+    } catch (error) {
+      console.error('Error sending verification code:', error);
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Failed to send the code. Please try again',
+        position: 'bottom'
+      });
+    } finally {
+      setIsSendingDeleteCode(false);
+    }
+  };
+
   const handleDeleteAccount = async () => {
     if (!user?.uid) return;
 
     setIsDeleting(true);
     try {
-      // Mock successful deletion
+      const { failedSteps } = await deleteAccount({
+        password: deletePassword || undefined,
+        phoneVerification: deleteVerificationId && deleteCode
+          ? { verificationId: deleteVerificationId, code: deleteCode }
+          : undefined,
+      });
+      closeDeleteModal();
+
+      if (failedSteps.length === 0) {
+        Toast.show({
+          type: 'success',
+          text1: 'Account deleted',
+          position: 'bottom'
+        });
+      } else {
+        Toast.show({
+          type: 'info',
+          text1: 'Account deleted',
+          text2: describeCleanupFailures(failedSteps),
+          position: 'bottom',
+          visibilityTime: 6000
+        });
+      }
+
+      await signOut();
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      if (error instanceof ReauthenticationRequiredError) {
+        // Keep the modal open and ask for the password, provider sign-in or texted code
+        setReauthMethod(error.method);
+      }
       Toast.show({
-        type: 'info',
-        text1: 'Account deleted successfully',
+        type: 'error',
+        text1: 'Account not deleted',
+        text2: error instanceof ReauthenticationRequiredError ? error.message : 'Nothing was deleted. Please try again.',
         position: 'bottom'
       });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
 
-      setTimeout(async () => {
-        await signOut();
-      }, 3000);
+  const closeUpgradeAccountModal = () => {
+    setShowUpgradeAccountModal(false);
+    setUpgradeEmail('');
+    setUpgradePassword('');
+    setUpgradeConfirmPassword('');
+  };
+
+  const handleUpgradeAccount = async () => {
+    const email = upgradeEmail.trim();
+    if (upgradePassword !== upgradeConfirmPassword) {
+      Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2: 'Passwords do not match',
+        position: 'bottom'
+      });
+      return;
+    }
+
+    setIsUpgradingAccount(true);
+    try {
+      await upgradeAccount(email, upgradePassword);
+      closeUpgradeAccountModal();
+      setProfileInfo(prev => prev ? { ...prev, email } : prev);
+      Toast.show({
+        type: 'success',
+        text1: 'Account upgraded',
+        text2: `Your progress is saved to ${email}`,
+        position: 'bottom'
+      });
     } catch (error) {
-      console.error('Error deleting account:', error);
+      console.error('Error upgrading guest account:', error);
       Toast.show({
         type: 'error',
         text1: 'Error',
-        text2: 'Failed to delete account',
+        text2: describeUpgradeError(error),
         position: 'bottom'
       });
     } finally {
-      setIsDeleting(false);
-      setShowDeleteModal(false);
+      setIsUpgradingAccount(false);
     }
   };
 
   const handleClearCache = async () => {
     setIsClearingCache(true);
     try {
-        //console.log('Clearing cached resources...');
-        const audioDir = `${FileSystem.documentDirectory}audio`;
-        const imageDir = `${FileSystem.documentDirectory}image`;
-
-        const audioDirInfo = await FileSystem.getInfoAsync(audioDir);
-        if (audioDirInfo.exists) {
-            await FileSystem.deleteAsync(audioDir, { idempotent: true });
-            //console.log('Cleared audio cache.');
-        }
-
-        const imageDirInfo = await FileSystem.getInfoAsync(imageDir);
-        if (imageDirInfo.exists) {
-            await FileSystem.deleteAsync(imageDir, { idempotent: true });
-            //console.log('Cleared image cache.');
-        }
-        
+        // Downloaded units lose their media with the cache, so they're forgotten too
+        await forgetAllDownloads();
+        await clearMediaCache();
+
         Toast.show({
             type: 'success',
             text1: 'Cache cleared successfully',
@@ -313,10 +427,87 @@ export default function ProfileScreen() {
                 />
               </TouchableOpacity>
             </View>
+            <View style={[styles.settingRow, styles.settingRowSpaced]}>
+              <View style={styles.settingInfo}>
+                <ThemedText style={[styles.settingLabel, { color: colors.text }]}>
+                  Auto-play Audio
+                </ThemedText>
+                <ThemedText style={[styles.settingDescription, { color: colors.textSecondary }]}>
+                  Play each question's audio when it opens
+                </ThemedText>
+              </View>
+              <TouchableOpacity
+                style={[
+                  styles.toggleButton,
+                  {
+                    backgroundColor: autoPlay ? colors.primary : isDark ? colors.surface : '#E5E7EB',
+                    borderColor: colors.border,
+                  }
+                ]}
+                onPress={() => setAutoPlay(!autoPlay)}
+                accessibilityRole="switch"
+                accessibilityState={{ checked: autoPlay }}
+                accessibilityLabel={`Auto-play audio ${autoPlay ? 'enabled' : 'disabled'}`}
+              >
+                <View
+                  style={[
+                    styles.toggleThumb,
+                    {
+                      backgroundColor: '#FFFFFF',
+                      transform: [{ translateX: autoPlay ? 20 : 0 }],
+                    }
+                  ]}
+                />
+              </TouchableOpacity>
+            </View>
+            <View style={styles.settingRowSpaced}>
+              <ThemedText style={[styles.settingLabel, { color: colors.text }]}>
+                Audio Speed
+              </ThemedText>
+              <View style={styles.speedOptions}>
+                {PLAYBACK_RATES.map(rate => (
+                  <TouchableOpacity
+                    key={rate}
+                    style={[
+                      styles.speedOption,
+                      { borderColor: colors.border },
+                      rate === playbackRate && { backgroundColor: colors.primary, borderColor: colors.primary },
+                    ]}
+                    onPress={() => setPlaybackRate(rate)}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: rate === playbackRate }}
+                    accessibilityLabel={`Audio speed ${rate} times`}
+                  >
+                    <ThemedText style={[styles.speedOptionText, { color: rate === playbackRate ? '#FFFFFF' : colors.text }]}>
+                      {rate}×
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
           </ThemedView>
 
+          {/* Guests can keep their progress by adding their own email and password */}
+          {isGuest && (
+            <ThemedView style={[styles.upgradeCard, { backgroundColor: isDark ? colors.card : '#FFFFFF' }]}>
+              <ThemedText style={[styles.upgradeTitle, { color: colors.text }]}>
+                🔒 Save Your Progress
+              </ThemedText>
+              <ThemedText style={[styles.upgradeDescription, { color: colors.textSecondary }]}>
+                You're learning as a guest. Add your email and a password so you never lose your points, streak and lessons.
+              </ThemedText>
+              <TouchableOpacity
+                style={[styles.button, styles.saveButton, { backgroundColor: colors.primary }]}
+                onPress={() => setShowUpgradeAccountModal(true)}
+                testID="upgrade-account-button"
+              >
+                <ThemedText style={styles.buttonText}>Upgrade Your Account</ThemedText>
+              </TouchableOpacity>
+            </ThemedView>
+          )}
+
           {/* Show Upgrade to Pro button for free users */}
-          {profileInfo?.subscription === 'free' && (
+          {!isEntitlementsLoading && !isPremium && (
             <ThemedView style={[styles.upgradeCard, { backgroundColor: isDark ? colors.card : '#FFFFFF' }]}>
               <ThemedText style={[styles.upgradeTitle, { color: colors.text }]}>
                 ✨ Unlock Premium Features
@@ -357,7 +548,7 @@ export default function ProfileScreen() {
                 { backgroundColor: isDark ? '#DC2626' : '#F43F5E' },
                 isLoggingOut && styles.buttonDisabled
               ]}
-              onPress={handleLogout}
+              onPress={confirmLogout}
               disabled={isLoggingOut}
             >
               <ThemedText style={[styles.actionButtonText, { color: '#FFFFFF' }]}>
@@ -366,6 +557,23 @@ export default function ProfileScreen() {
             </TouchableOpacity>
           </View>
 
+          <TouchableOpacity
+            style={[
+              styles.deleteAccountButton,
+              {
+                backgroundColor: isDark ? colors.surface : '#F1F5F9',
+                borderColor: isDark ? colors.border : '#E2E8F0',
+              },
+              isLoggingOut && styles.buttonDisabled
+            ]}
+            onPress={() => router.push('/downloads')}
+            disabled={isLoggingOut}
+          >
+            <ThemedText style={[styles.deleteAccountText, { color: isDark ? colors.textSecondary : '#475569' }]}>
+              Manage Downloads
+            </ThemedText>
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={[
               styles.deleteAccountButton,
@@ -400,7 +608,7 @@ export default function ProfileScreen() {
             </ThemedText>
           </TouchableOpacity>
 
-          {/* DEV ONLY: Button to clear AsyncStorage and SecureStore */}
+          {/* DEV ONLY: Button to clear AsyncStorage */}
           {process.env.NODE_ENV === 'development' && (
             <View style={{ flexDirection: 'row', gap: 8, margin: 16 }}>
               <TouchableOpacity
@@ -414,17 +622,6 @@ export default function ProfileScreen() {
                   Clear AsyncStorage (DEV)
                 </ThemedText>
               </TouchableOpacity>
-              <TouchableOpacity
-                style={{ backgroundColor: '#f59e42', padding: 10, borderRadius: 8, flex: 1 }}
-                onPress={async () => {
-                  await SecureStore.deleteItemAsync('dailyLessonCount');
-                  Alert.alert('SecureStore daily limit cleared');
-                }}
-              >
-                <ThemedText style={{ color: '#fff', fontWeight: 'bold', textAlign: 'center' }}>
-                  Clear Daily Limit (DEV)
-                </ThemedText>
-              </TouchableOpacity>
             </View>
           )}
         </ThemedView>
@@ -445,9 +642,102 @@ export default function ProfileScreen() {
         />
       )}
 
+      <Modal
+        isVisible={showUpgradeAccountModal}
+        onBackdropPress={closeUpgradeAccountModal}
+        style={styles.modal}
+        avoidKeyboard
+      >
+        <View style={[styles.confirmationModal, {
+          backgroundColor: isDark ? colors.card : '#FFFFFF'
+        }]}>
+          <View style={styles.confirmationHeader}>
+            <ThemedText style={[styles.confirmationTitle, { color: colors.text }]}>Upgrade Your Account</ThemedText>
+          </View>
+          <ThemedText style={[styles.confirmationText, { color: colors.textSecondary }]}>
+            Everything you've done as a guest stays with your account.
+          </ThemedText>
+
+          <View style={styles.upgradeAccountFields}>
+            <TextInput
+              style={[styles.input, {
+                backgroundColor: isDark ? colors.surface : '#FFFFFF',
+                borderColor: colors.border,
+                color: colors.text
+              }]}
+              value={upgradeEmail}
+              onChangeText={setUpgradeEmail}
+              placeholder="Email"
+              placeholderTextColor={isDark ? '#666666' : '#94A3B8'}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="email-address"
+            />
+            <TextInput
+              style={[styles.input, {
+                backgroundColor: isDark ? colors.surface : '#FFFFFF',
+                borderColor: colors.border,
+                color: colors.text
+              }]}
+              value={upgradePassword}
+              onChangeText={setUpgradePassword}
+              placeholder="Password"
+              placeholderTextColor={isDark ? '#666666' : '#94A3B8'}
+              autoCapitalize="none"
+              secureTextEntry
+            />
+            <TextInput
+              style={[styles.input, {
+                backgroundColor: isDark ? colors.surface : '#FFFFFF',
+                borderColor: colors.border,
+                color: colors.text
+              }]}
+              value={upgradeConfirmPassword}
+              onChangeText={setUpgradeConfirmPassword}
+              placeholder="Confirm password"
+              placeholderTextColor={isDark ? '#666666' : '#94A3B8'}
+              autoCapitalize="none"
+              secureTextEntry
+            />
+          </View>
+
+          <View style={styles.confirmationButtons}>
+            <TouchableOpacity
+              style={[styles.paperButton]}
+              onPress={closeUpgradeAccountModal}
+            >
+              <LinearGradient
+                colors={isDark ? ['#475569', '#334155'] : ['#64748B', '#475569']}
+                style={styles.paperButtonGradient}
+              >
+                <ThemedText style={styles.paperButtonText}>Cancel</ThemedText>
+              </LinearGradient>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[
+                styles.paperButton,
+                (!upgradeEmail.trim() || !upgradePassword) && styles.paperButtonDisabled
+              ]}
+              onPress={handleUpgradeAccount}
+              disabled={isUpgradingAccount || !upgradeEmail.trim() || !upgradePassword}
+            >
+              <LinearGradient
+                colors={[colors.primary, colors.primary]}
+                style={styles.paperButtonGradient}
+              >
+                <ThemedText style={styles.paperButtonText}>
+                  {isUpgradingAccount ? 'Saving...' : 'Save Account'}
+                </ThemedText>
+              </LinearGradient>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
       <Modal
         isVisible={showDeleteModal}
-        onBackdropPress={() => setShowDeleteModal(false)}
+        onBackdropPress={closeDeleteModal}
         style={styles.modal}
       >
         <View style={[styles.confirmationModal, {
@@ -478,15 +768,65 @@ export default function ProfileScreen() {
               autoCorrect={false}
               maxLength={50}
             />
+            {reauthMethod === 'password' && (
+              <TextInput
+                style={[styles.deleteConfirmationInput, {
+                  backgroundColor: isDark ? colors.surface : '#F8FAFC',
+                  borderColor: colors.border,
+                  color: colors.text
+                }]}
+                value={deletePassword}
+                onChangeText={setDeletePassword}
+                placeholder="Your password"
+                placeholderTextColor={isDark ? '#666666' : '#94A3B8'}
+                autoCapitalize="none"
+                autoCorrect={false}
+                secureTextEntry
+              />
+            )}
+            {(reauthMethod === 'google' || reauthMethod === 'apple') && (
+              <ThemedText style={[styles.deleteConfirmationText, { color: colors.textSecondary }]}>
+                Tap Delete Account to sign in with {reauthMethod === 'google' ? 'Google' : 'Apple'} again.
+              </ThemedText>
+            )}
+            {reauthMethod === 'phone' && (deleteVerificationId ? (
+              <TextInput
+                style={[styles.deleteConfirmationInput, {
+                  backgroundColor: isDark ? colors.surface : '#F8FAFC',
+                  borderColor: colors.border,
+                  color: colors.text
+                }]}
+                value={deleteCode}
+                onChangeText={text => setDeleteCode(text.replace(/\D/g, ''))}
+                placeholder="Code from the SMS"
+                placeholderTextColor={isDark ? '#666666' : '#94A3B8'}
+                keyboardType="number-pad"
+                textContentType="oneTimeCode"
+                autoComplete="sms-otp"
+                maxLength={PHONE_CODE_LENGTH}
+              />
+            ) : (
+              <TouchableOpacity
+                style={[styles.paperButton, isSendingDeleteCode && styles.paperButtonDisabled]}
+                onPress={sendDeleteCode}
+                disabled={isSendingDeleteCode}
+              >
+                <LinearGradient
+                  colors={isDark ? ['#475569', '#334155'] : ['#64748B', '#475569']}
+                  style={styles.paperButtonGradient}
+                >
+                  <ThemedText style={styles.paperButtonText}>
+                    {isSendingDeleteCode ? 'Sending...' : 'Text me a code'}
+                  </ThemedText>
+                </LinearGradient>
+              </TouchableOpacity>
+            ))}
           </View>
 
           <View style={styles.confirmationButtons}>
             <TouchableOpacity
               style={[styles.paperButton]}
-              onPress={() => {
-                setShowDeleteModal(false);
-                setDeleteConfirmation('');
-              }}
+              onPress={closeDeleteModal}
             >
               <LinearGradient
                 colors={isDark ? ['#475569', '#334155'] : ['#64748B', '#475569']}
@@ -499,10 +839,10 @@ export default function ProfileScreen() {
             <TouchableOpacity
               style={[
                 styles.paperButton,
-                deleteConfirmation !== 'delete' && styles.paperButtonDisabled
+                !canConfirmDelete && styles.paperButtonDisabled
               ]}
               onPress={handleDeleteAccount}
-              disabled={isDeleting || deleteConfirmation !== 'delete'}
+              disabled={isDeleting || !canConfirmDelete}
             >
               <LinearGradient
                 colors={['#DC2626', '#B91C1C']}
@@ -705,6 +1045,7 @@ const styles = StyleSheet.create({
   deleteConfirmationContainer: {
     marginVertical: 16,
     width: '100%',
+    gap: 8,
   },
   deleteConfirmationText: {
     fontSize: 14,
@@ -723,6 +1064,10 @@ const styles = StyleSheet.create({
   paperButtonDisabled: {
     opacity: 0.5,
   },
+  upgradeAccountFields: {
+    gap: 12,
+    marginBottom: 24,
+  },
   upgradeCard: {
     borderRadius: 12,
     padding: 16,
@@ -770,9 +1115,27 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'space-between',
   },
+  settingRowSpaced: {
+    marginTop: 16,
+  },
   settingInfo: {
     flex: 1,
   },
+  speedOptions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  speedOption: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  speedOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   settingLabel: {
     fontSize: 14,
     fontWeight: '500',
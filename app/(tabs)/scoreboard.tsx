@@ -1,25 +1,11 @@
-import { HOST_URL } from '@/config/api';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { getScoreboard } from '@/services/languageApi';
+import { ScoreboardLearner, ScoreboardResponse } from '@/types/api';
 import React, { useEffect, useState } from 'react';
 import { FlatList, Image, StyleSheet, Text, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
-interface Learner {
-    id: number;
-    uid: string;
-    name: string;
-    points: number;
-    avatar: string;
-    subscription: string;
-    position?: number;
-}
-
-interface ScoreboardResponse {
-    topLearners: Learner[];
-    currentLearner: Learner;
-}
-
 export default function ScoreboardScreen() {
     const { colors, isDark } = useTheme();
     const { user } = useAuth();
@@ -32,13 +18,7 @@ export default function ScoreboardScreen() {
             try {
                 setIsLoading(true);
                 setError(null);
-                const response = await fetch(
-                    `${HOST_URL}/api/language-learners/scoreboard/${user?.uid}`
-                );
-                if (!response.ok) {
-                    throw new Error('Failed to fetch scoreboard');
-                }
-                const jsonData = await response.json();
+                const jsonData = await getScoreboard(user!.uid);
                 setData(jsonData);
             } catch (err) {
                 setError(err instanceof Error ? err.message : 'Failed to fetch scoreboard');
@@ -52,7 +32,7 @@ export default function ScoreboardScreen() {
         }
     }, [user?.uid]);
 
-    const renderLearnerItem = ({ item, index }: { item: Learner; index: number }) => {
+    const renderLearnerItem = ({ item, index }: { item: ScoreboardLearner; index: number }) => {
         const isCurrentUser = item.uid === user?.uid;
         const avatarUrl = item.avatar.includes('.png')
             ? item.avatar
@@ -1,8 +1,15 @@
 import { app } from '@/config/firebase';
 import { AuthProvider } from '@/contexts/AuthContext';
+import { EntitlementsProvider } from '@/contexts/EntitlementsContext';
+import { HeartsProvider } from '@/contexts/HeartsContext';
 import { RevenueCatProvider } from '@/contexts/RevenueCatContext';
 import { ThemeProvider, useTheme } from '@/contexts/ThemeContext';
+import { startAttemptSync } from '@/services/attemptTelemetry';
 import { handleNotificationDeepLink, registerForPushNotificationsAsync } from '@/services/notifications';
+import { startOutboxSync } from '@/services/progressOutbox';
+import { startDownloadSync } from '@/services/unitDownloads';
+import { setPurchaseService } from '@/services/purchaseService';
+import { revenueCatService } from '@/services/revenueCat';
 import { useFonts } from 'expo-font';
 import * as Notifications from 'expo-notifications';
 import { router, SplashScreen, Stack } from 'expo-router';
@@ -12,8 +19,12 @@ import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import 'react-native-reanimated';
 import Toast, { BaseToast, ErrorToast } from 'react-native-toast-message';
 import AuthLayout from './_auth';
+import { AudioSettingsProvider } from './contexts/AudioSettingsContext';
 import { SoundProvider } from './contexts/SoundContext';
 
+// Screens reach the store through the purchase service, never the SDK directly
+setPurchaseService(revenueCatService);
+
 // Suppress shadow warnings
 LogBox.ignoreLogs([
   'has a shadow set but cannot calculate shadow efficiently',
@@ -86,36 +97,42 @@ function RootLayoutNav() {
   return (
     <AuthProvider>
       <RevenueCatProvider>
-        <SoundProvider>
-          <AuthLayout />
-          <Stack
-            screenOptions={{
-              headerShown: false,
-              contentStyle: { backgroundColor: colors.background }
-            }}
-          >
-            <Stack.Screen name="login" options={{ headerShown: false }} />
-            <Stack.Screen name="register" options={{ headerShown: false }} />
-            <Stack.Screen name="onboarding" options={{ headerShown: false }} />
-            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-            <Stack.Screen
-              name="lessons"
-              options={{
-                headerShown: false,
-                presentation: 'card'
-              }}
-            />
-
-            <Stack.Screen
-              name="profile"
-              options={{
-                headerShown: false,
-                presentation: 'modal'
-              }}
-            />
-          </Stack>
-          <Toast config={toastConfig} />
-        </SoundProvider>
+        <EntitlementsProvider>
+          <HeartsProvider>
+            <SoundProvider>
+              <AudioSettingsProvider>
+                <AuthLayout />
+                <Stack
+                  screenOptions={{
+                    headerShown: false,
+                    contentStyle: { backgroundColor: colors.background }
+                  }}
+                >
+                  <Stack.Screen name="login" options={{ headerShown: false }} />
+                  <Stack.Screen name="register" options={{ headerShown: false }} />
+                  <Stack.Screen name="onboarding" options={{ headerShown: false }} />
+                  <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                  <Stack.Screen
+                    name="lessons"
+                    options={{
+                      headerShown: false,
+                      presentation: 'card'
+                    }}
+                  />
+  
+                  <Stack.Screen
+                    name="profile"
+                    options={{
+                      headerShown: false,
+                      presentation: 'modal'
+                    }}
+                  />
+                </Stack>
+                <Toast config={toastConfig} />
+              </AudioSettingsProvider>
+            </SoundProvider>
+          </HeartsProvider>
+        </EntitlementsProvider>
       </RevenueCatProvider>
     </AuthProvider>
   );
@@ -142,6 +159,21 @@ export default function RootLayout() {
     }
   }, [loaded]);
 
+  useEffect(() => {
+    // Replay progress and points queued while offline
+    return startOutboxSync();
+  }, []);
+
+  useEffect(() => {
+    // Upload answer attempts left over from the last session
+    return startAttemptSync();
+  }, []);
+
+  useEffect(() => {
+    // Hold unit downloads while off Wi-Fi when the learner asked for Wi-Fi only
+    return startDownloadSync();
+  }, []);
+
   useEffect(() => {
     // Initialize notifications when app starts
     async function initializeNotifications() {
@@ -1,27 +1,43 @@
 import { ThemedText } from '@/components/ThemedText';
-import { HOST_URL } from '@/config/api';
+import { useWordAudio } from '@/hooks/useWordAudio';
+import { getCachedMediaUri, resolveMediaUri } from '@/services/mediaCache';
 import { Audio, AVPlaybackStatus } from 'expo-av';
-import * as FileSystem from 'expo-file-system';
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
 import { Alert, Image, Pressable, StyleSheet, useColorScheme, View } from 'react-native';
+import { PLAYBACK_RATES, slowerPlaybackRate, useAudioSettings } from '../contexts/AudioSettingsContext';
 
 interface AudioButtonProps {
     audioUrls?: string[];
     accessibilityLabel: string;
     playbackRate?: number;
     autoPlay?: boolean;
+    /** Called with the index into audioUrls of the file playing, and null when playback stops. */
+    onIndexChange?: (index: number | null) => void;
 }
 
-function AudioButton({ audioUrls, accessibilityLabel, playbackRate = 1.0, autoPlay = false }: AudioButtonProps) {
+interface AudioButtonHandle {
+    /** Plays from the file at this index into audioUrls to the end. */
+    playFrom: (index: number) => void;
+}
+
+const AudioButton = forwardRef<AudioButtonHandle, AudioButtonProps>(function AudioButton(
+    { audioUrls, accessibilityLabel, playbackRate = 1.0, autoPlay = false, onIndexChange },
+    ref
+) {
     console.log('AudioButton rendered with audioUrls:', audioUrls);
     const [sound, setSound] = useState<Audio.Sound | null>(null);
     const [isPlaying, setIsPlaying] = useState(false);
     const [currentIndex, setCurrentIndex] = useState(0);
     const queueRef = useRef<string[]>([]);
+    // Index into audioUrls of each queued file; files that failed to load are left out of the queue
+    const sourceIndexRef = useRef<number[]>([]);
     const currentIndexRef = useRef(0);
     const [isQueueReady, setIsQueueReady] = useState(false);
     // Preloaded sounds mapped 1:1 to queueRef.current
     const preloadedSoundsRef = useRef<Array<Audio.Sound | null>>([]);
+    // Questions rebuild their URL arrays on every render; the audio only changes when the files do
+    const queueKey = audioUrls?.join('|') ?? '';
+    const autoPlayedKeyRef = useRef<string | null>(null);
 
     useEffect(() => {
         console.log('useEffect for filterLocalAudio triggered with audioUrls:', audioUrls);
@@ -31,40 +47,20 @@ function AudioButton({ audioUrls, accessibilityLabel, playbackRate = 1.0, autoPl
             console.log('audioUrls:', audioUrls);
             if (audioUrls) {
                 const localAudio = [];
-                for (const url of audioUrls) {
-                    const localUri = `${FileSystem.documentDirectory}audio/${url}`;
-                    console.log('Checking localUri:', localUri);
+                const sourceIndexes = [];
+                for (const [index, url] of audioUrls.entries()) {
                     try {
-                        const info = await FileSystem.getInfoAsync(localUri);
-                        console.log('File info for', url, ':', info);
-                        if (info.exists) {
-                            localAudio.push(localUri);
-                            console.log('Added to localAudio:', localUri);
-                        } else {
-                            // Try to download from remote
-                            const remoteUrl = `${HOST_URL}/api/word/audio/get/${url}`;
-                            console.log('File does not exist, downloading from:', remoteUrl);
-                            try {
-                                // Ensure the audio directory exists
-                                await FileSystem.makeDirectoryAsync(`${FileSystem.documentDirectory}audio/`, { intermediates: true });
-                            } catch (e) {
-                                // Directory may already exist
-                            }
-                            try {
-                                const downloadResult = await FileSystem.downloadAsync(remoteUrl, localUri);
-                                console.log('Downloaded file to:', downloadResult.uri);
-                                localAudio.push(downloadResult.uri);
-                            } catch (downloadError) {
-                                console.error('Failed to download audio:', remoteUrl, downloadError);
-                            }
-                        }
+                        // Downloads on a miss
+                        localAudio.push(await resolveMediaUri('audio', url));
+                        sourceIndexes.push(index);
                     } catch (e) {
-                        console.error('Error checking file:', url, e);
+                        console.error('Failed to load audio:', url, e);
                     }
                 }
                 console.log('Final localAudio array:', localAudio);
                 if (isMounted) {
                     queueRef.current = localAudio;
+                    sourceIndexRef.current = sourceIndexes;
                     currentIndexRef.current = 0;
                     setCurrentIndex(0);
                     setIsQueueReady(true);
@@ -74,6 +70,7 @@ function AudioButton({ audioUrls, accessibilityLabel, playbackRate = 1.0, autoPl
                 console.log('No audioUrls provided');
                 if (isMounted) {
                     queueRef.current = [];
+                    sourceIndexRef.current = [];
                     setIsQueueReady(true);
                 }
             }
@@ -81,7 +78,7 @@ function AudioButton({ audioUrls, accessibilityLabel, playbackRate = 1.0, autoPl
         setIsQueueReady(false); // reset before filtering
         filterLocalAudio();
         return () => { isMounted = false; };
-    }, [audioUrls]);
+    }, [queueKey]);
 
     async function ensureAudioMode() {
         await Audio.setAudioModeAsync({
@@ -220,7 +217,9 @@ function AudioButton({ audioUrls, accessibilityLabel, playbackRate = 1.0, autoPl
         }
     };
 
-    async function handlePlayPress() {
+    // Plays the queue from the start, or stops it if it's playing. With `fromIndex`,
+    // always (re)starts from that file in audioUrls, or the next one that loaded
+    async function handlePlayPress(fromIndex?: number) {
         console.log('handlePlayPress called');
         console.log('audioUrls:', audioUrls);
         console.log('sound:', sound);
@@ -239,21 +238,20 @@ function AudioButton({ audioUrls, accessibilityLabel, playbackRate = 1.0, autoPl
             console.log('Queue not ready or empty, attempting to populate...');
             // Force re-populate the queue
             const localAudio = [];
-            for (const url of audioUrls) {
-                const localUri = `${FileSystem.documentDirectory}audio/${url}`;
-                console.log('Checking localUri:', localUri);
+            const sourceIndexes = [];
+            for (const [index, url] of audioUrls.entries()) {
                 try {
-                    const info = await FileSystem.getInfoAsync(localUri);
-                    console.log('File info for', url, ':', info);
-                    if (info.exists) {
+                    const localUri = await getCachedMediaUri('audio', url);
+                    if (localUri) {
                         localAudio.push(localUri);
-                        console.log('Added to localAudio:', localUri);
+                        sourceIndexes.push(index);
                     }
                 } catch (e) {
                     console.error('Error checking file:', url, e);
                 }
             }
             queueRef.current = localAudio;
+            sourceIndexRef.current = sourceIndexes;
             currentIndexRef.current = 0;
             setCurrentIndex(0);
             setIsQueueReady(true);
@@ -285,7 +283,7 @@ function AudioButton({ audioUrls, accessibilityLabel, playbackRate = 1.0, autoPl
         currentIndexRef.current = 0;
 
         // If currently playing, just stop
-        if (isPlaying) {
+        if (isPlaying && fromIndex === undefined) {
             console.log('Stopping playback');
             return;
         }
@@ -296,15 +294,31 @@ function AudioButton({ audioUrls, accessibilityLabel, playbackRate = 1.0, autoPl
             return;
         }
 
+        const startPosition = fromIndex === undefined ? 0 : sourceIndexRef.current.findIndex(index => index >= fromIndex);
+        if (startPosition === -1) {
+            return;
+        }
+
         // Preload before starting to reduce gaps
         await preloadSounds();
 
         // Start new playback
         console.log('Starting new playback');
+        currentIndexRef.current = startPosition;
+        setCurrentIndex(startPosition);
         setIsPlaying(true);
         playNextInQueue();
     }
 
+    useImperativeHandle(ref, () => ({
+        playFrom: index => handlePlayPress(index),
+    }));
+
+    // Reports the file being spoken so the prompt can highlight its word
+    useEffect(() => {
+        onIndexChange?.(isPlaying ? sourceIndexRef.current[currentIndex] ?? null : null);
+    }, [isPlaying, currentIndex]);
+
     useEffect(() => {
         let isMounted = true;
         async function cleanupAndAutoplay() {
@@ -341,6 +355,7 @@ function AudioButton({ audioUrls, accessibilityLabel, playbackRate = 1.0, autoPl
             setCurrentIndex(0);
             currentIndexRef.current = 0;
             queueRef.current = [];
+            sourceIndexRef.current = [];
         }
         cleanupAndAutoplay();
         return () => {
@@ -361,18 +376,19 @@ function AudioButton({ audioUrls, accessibilityLabel, playbackRate = 1.0, autoPl
             });
             preloadedSoundsRef.current = [];
         };
-    }, [audioUrls, autoPlay]);
+    }, [queueKey]);
 
-    // New effect: trigger auto play only when queue is ready
+    // Auto-play once the queue is ready, and only once for the same audio
     useEffect(() => {
-        if (isQueueReady && autoPlay && audioUrls?.length) {
+        if (isQueueReady && autoPlay && audioUrls?.length && autoPlayedKeyRef.current !== queueKey) {
+            autoPlayedKeyRef.current = queueKey;
             handlePlayPress();
         }
-    }, [isQueueReady, autoPlay, audioUrls]);
+    }, [isQueueReady, autoPlay, queueKey]);
 
     return (
         <Pressable
-            onPress={handlePlayPress}
+            onPress={() => handlePlayPress()}
             style={styles.audioButton}
             accessibilityLabel={accessibilityLabel}
             disabled={!audioUrls?.length}
@@ -380,24 +396,60 @@ function AudioButton({ audioUrls, accessibilityLabel, playbackRate = 1.0, autoPl
             <ThemedText style={{ fontSize: 32, lineHeight: 48 }}>{accessibilityLabel === 'Play slow audio' ? '🐢' : '🔊'}</ThemedText>
         </Pressable>
     );
+});
+
+/** A word of a sentence prompt. Words with audio are highlighted as they're spoken. */
+export interface PromptWord {
+    text: string;
+    audioUrl?: string;
 }
 
 interface AudioPlayerProps {
+    /** Ignored when `words` is given; the words' audio is played instead. */
     audioUrls?: string[];
     characterImage?: any;
+    /** Overrides the learner's auto-play setting, e.g. false while they are typing. */
     autoPlay?: boolean;
     showGif?: boolean;
     text?: string;
+    /**
+     * Shown instead of `text` when given. Tapping a word replays the sentence
+     * from there; a long press plays just that word.
+     */
+    words?: PromptWord[];
+    /** Shows a placeholder for each word instead of its text, for listening questions. */
+    concealWords?: boolean;
+    /** Called with the index (into `words`, else `audioUrls`) being spoken, and null when playback stops. */
+    onPlaybackIndexChange?: (index: number | null) => void;
 }
 
 export function AudioPlayer({
     audioUrls,
     characterImage = require('@/assets/images/bunny-waiting.gif'),
-    autoPlay = true,
+    autoPlay,
     showGif = true,
-    text
+    text,
+    words,
+    concealWords = false,
+    onPlaybackIndexChange
 }: AudioPlayerProps) {
+    const { playbackRate, setPlaybackRate, autoPlay: autoPlaySetting } = useAudioSettings();
+    const slowRate = slowerPlaybackRate(playbackRate);
+    const playWord = useWordAudio();
+    const playerRef = useRef<AudioButtonHandle>(null);
+    const [spokenWordIndex, setSpokenWordIndex] = useState<number | null>(null);
     const colorScheme = useColorScheme();
+
+    // Words without audio are left out of playback; the rest map to their file's place in the queue
+    const queueUrls = words ? words.flatMap(word => word.audioUrl ? [word.audioUrl] : []) : audioUrls;
+    const wordAudioIndexes = (words ?? []).map((word, index, all) =>
+        word.audioUrl ? all.slice(0, index).filter(earlier => earlier.audioUrl).length : null);
+
+    const handleIndexChange = (audioIndex: number | null) => {
+        const index = audioIndex === null || !words ? audioIndex : wordAudioIndexes.indexOf(audioIndex);
+        setSpokenWordIndex(index);
+        onPlaybackIndexChange?.(index);
+    };
     const characterImageSource = useMemo(() => {
         if (colorScheme === 'dark') {
             return require('@/assets/images/impatient-kitty.gif');
@@ -416,22 +468,56 @@ export function AudioPlayer({
             )}
             <View style={[styles.speechBubbleContainer, !showGif && styles.speechBubbleContainerNoGif]}>
                 <View style={styles.speechBubble}>
-                    {text && (
+                    {words ? (
+                        <View style={styles.wordsRow}>
+                            {words.map((word, index) => {
+                                const audioIndex = wordAudioIndexes[index];
+                                return (
+                                    <Pressable
+                                        key={index}
+                                        onPress={() => audioIndex !== null && playerRef.current?.playFrom(audioIndex)}
+                                        onLongPress={() => word.audioUrl && playWord(word.audioUrl)}
+                                        disabled={audioIndex === null}
+                                        style={[styles.word, index === spokenWordIndex && styles.spokenWord]}
+                                        accessibilityRole="button"
+                                        accessibilityLabel={concealWords ? `Replay from word ${index + 1}` : `Replay from ${word.text}`}
+                                    >
+                                        <ThemedText style={[styles.text, audioIndex !== null && styles.tappableWord, index === spokenWordIndex && styles.spokenWordText]}>
+                                            {concealWords ? '•••' : word.text}
+                                        </ThemedText>
+                                    </Pressable>
+                                );
+                            })}
+                        </View>
+                    ) : text && (
                         <ThemedText style={styles.text}>{text}</ThemedText>
                     )}
                     <View style={styles.audioButtonsContainer}>
                         <AudioButton
-                            audioUrls={audioUrls}
+                            ref={playerRef}
+                            audioUrls={queueUrls}
                             accessibilityLabel="Play audio"
-                            playbackRate={1.0}
-                            autoPlay={autoPlay}
-                        />
-                        <AudioButton
-                            audioUrls={audioUrls}
-                            accessibilityLabel="Play slow audio"
-                            playbackRate={0.8}
-                            autoPlay={false}
+                            playbackRate={playbackRate}
+                            autoPlay={autoPlay ?? autoPlaySetting}
+                            onIndexChange={handleIndexChange}
                         />
+                        {slowRate !== null && (
+                            <AudioButton
+                                audioUrls={queueUrls}
+                                accessibilityLabel="Play slow audio"
+                                playbackRate={slowRate}
+                                autoPlay={false}
+                                onIndexChange={handleIndexChange}
+                            />
+                        )}
+                        <Pressable
+                            onPress={() => setPlaybackRate(PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(playbackRate) + 1) % PLAYBACK_RATES.length])}
+                            style={styles.speedButton}
+                            accessibilityRole="button"
+                            accessibilityLabel={`Audio speed ${playbackRate} times. Tap to change`}
+                        >
+                            <ThemedText style={styles.speedButtonText}>{playbackRate}×</ThemedText>
+                        </Pressable>
                     </View>
                 </View>
                 <View style={styles.speechBubbleTail} />
@@ -498,6 +584,40 @@ const styles = StyleSheet.create({
         fontSize: 16,
         marginBottom: 8,
     },
+    wordsRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        columnGap: 6,
+    },
+    word: {
+        borderRadius: 6,
+        paddingHorizontal: 2,
+    },
+    spokenWord: {
+        backgroundColor: '#FDE68A',
+    },
+    // Dark on the highlight in either theme
+    spokenWordText: {
+        color: '#1F2937',
+    },
+    tappableWord: {
+        textDecorationLine: 'underline',
+        textDecorationStyle: 'dotted',
+    },
+    speedButton: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        minWidth: 48,
+        height: 32,
+        paddingHorizontal: 8,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: '#E5E7EB',
+    },
+    speedButtonText: {
+        fontSize: 14,
+        fontWeight: '600',
+    },
 });
 
 export default AudioPlayer; 
\ No newline at end of file
@@ -1,7 +1,7 @@
 import { ThemedText } from '@/components/ThemedText';
-import { HOST_URL } from '@/config/api';
 import { useTheme } from '@/contexts/ThemeContext';
 import { analytics } from '@/services/analytics';
+import { reportQuestion } from '@/services/languageApi';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Audio } from 'expo-av';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -18,7 +18,7 @@ interface FeedbackButtonProps {
 }
 
 export function FeedbackMessage({ onContinue }: { onContinue: () => void }) {
-    const { isChecked, isCorrect, feedbackText, correctAnswer, questionId } = useFeedback();
+    const { isChecked, isCorrect, feedbackText, correctAnswer, verdict, diff, questionId } = useFeedback();
     const { colors, isDark } = useTheme();
     const feedbackColor = isChecked && !isCorrect ? '#EF4444' : '#10B981';
     const [isReporting, setIsReporting] = React.useState(false);
@@ -30,18 +30,9 @@ export function FeedbackMessage({ onContinue }: { onContinue: () => void }) {
         setIsReporting(true);
         setReportStatus(null);
         try {
-            const url = `${HOST_URL}/api/language-questions/${questionId}/report`;
-            //console.log('Reporting question', url);
-            const res = await fetch(url, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-            });
-            if (res.ok) {
-                setReportStatus('Reported!');
-                onContinue();
-            } else {
-                setReportStatus('Failed to report');
-            }
+            await reportQuestion(questionId);
+            setReportStatus('Reported!');
+            onContinue();
         } catch (e) {
             setReportStatus('Failed to report');
         } finally {
@@ -54,8 +45,27 @@ export function FeedbackMessage({ onContinue }: { onContinue: () => void }) {
         <View style={styles.feedbackContainerRow}>
             <View style={styles.feedbackContainerText}>
                 <ThemedText style={[styles.feedbackText, { color: isChecked && !isCorrect ? colors.error : colors.success }]}>
-                    {feedbackText || (isCorrect ? '✅ Correct!' : '❌ That\'s not quite right')}
+                    {verdict === 'typo'
+                        ? '✏️ Almost — watch the spelling'
+                        : feedbackText || (isCorrect ? '✅ Correct!' : '❌ That\'s not quite right')}
                 </ThemedText>
+                {verdict === 'typo' && diff && diff.length > 0 && (
+                    <ThemedText style={[styles.correctAnswerText, { color: colors.text }]}>
+                        {/* Letters that were missed are underlined, letters typed by mistake are struck through */}
+                        {diff.map((segment, index) => (
+                            <ThemedText
+                                key={index}
+                                style={[
+                                    styles.correctAnswerText,
+                                    segment.kind === 'missing' && [styles.diffMissing, { color: colors.success }],
+                                    segment.kind === 'extra' && [styles.diffExtra, { color: colors.error }],
+                                ]}
+                            >
+                                {segment.text}
+                            </ThemedText>
+                        ))}
+                    </ThemedText>
+                )}
                 {correctAnswer && (
                     <ThemedText style={[styles.correctAnswerText, { color: isCorrect ? colors.success : colors.error }]}>
                         💡 Correct answer: {correctAnswer}
@@ -324,6 +334,13 @@ const styles = StyleSheet.create({
         marginTop: 4,
         opacity: 0.9,
     },
+    diffMissing: {
+        fontWeight: '700',
+        textDecorationLine: 'underline',
+    },
+    diffExtra: {
+        textDecorationLine: 'line-through',
+    },
     flagButton: {
         padding: 8,
         marginLeft: 8,
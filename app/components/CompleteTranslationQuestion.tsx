@@ -1,9 +1,11 @@
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useWordAudio } from '@/hooks/useWordAudio';
 import React, { useEffect, useMemo, useState } from 'react';
-import { Image, Keyboard, StyleSheet, TextInput, View } from 'react-native';
+import { Image, Keyboard, Pressable, StyleSheet, TextInput, View } from 'react-native';
 import { useFeedback } from '../contexts/FeedbackContext';
+import { GradeResult } from './questionGraders';
 
 interface Word {
     id: number;
@@ -20,50 +22,7 @@ interface CompleteTranslationQuestionProps {
     setOnCheck?: (fn: () => void) => void;
     setOnContinue?: (fn: () => void) => void;
     setIsQuestionAnswered: (answered: boolean) => void;
-}
-
-// Function to calculate Levenshtein distance between two strings
-function levenshteinDistance(str1: string, str2: string): number {
-    const matrix = [];
-    
-    for (let i = 0; i <= str2.length; i++) {
-        matrix[i] = [i];
-    }
-    
-    for (let j = 0; j <= str1.length; j++) {
-        matrix[0][j] = j;
-    }
-    
-    for (let i = 1; i <= str2.length; i++) {
-        for (let j = 1; j <= str1.length; j++) {
-            if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-                matrix[i][j] = matrix[i - 1][j - 1];
-            } else {
-                matrix[i][j] = Math.min(
-                    matrix[i - 1][j - 1] + 1, // substitution
-                    matrix[i][j - 1] + 1,     // insertion
-                    matrix[i - 1][j] + 1      // deletion
-                );
-            }
-        }
-    }
-    
-    return matrix[str2.length][str1.length];
-}
-
-// Function to check if answer is correct with spelling tolerance
-function isAnswerCorrectWithSpellingTolerance(userInput: string, correctAnswer: string, maxDistance: number = 1): boolean {
-    const userTrimmed = userInput.trim().toLowerCase();
-    const correctTrimmed = correctAnswer.trim().toLowerCase();
-    
-    // Exact match
-    if (userTrimmed === correctTrimmed) {
-        return true;
-    }
-    
-    // Check for spelling errors within tolerance
-    const distance = levenshteinDistance(userTrimmed, correctTrimmed);
-    return distance <= maxDistance;
+    grade: (userInput: string) => GradeResult;
 }
 
 export function CompleteTranslationQuestion({
@@ -74,14 +33,12 @@ export function CompleteTranslationQuestion({
     setOnCheck,
     setOnContinue,
     setIsQuestionAnswered,
+    grade,
 }: CompleteTranslationQuestionProps) {
-    if (!Array.isArray(words)) {
-        return <ThemedText>Question data is missing.</ThemedText>;
-    }
-
     const [userInput, setUserInput] = useState('');
     const { setFeedback, resetFeedback, isChecked } = useFeedback();
     const theme = useTheme();
+    const playWord = useWordAudio();
 
     const correctAnswer = words[blankIndex]?.translations[selectedLanguage] || '';
 
@@ -117,7 +74,8 @@ export function CompleteTranslationQuestion({
         Keyboard.dismiss();
         if (!userInput.trim()) return;
         
-        const isAnswerCorrect = isAnswerCorrectWithSpellingTolerance(userInput, correctAnswer);
+        const result = grade(userInput);
+        const isAnswerCorrect = result.verdict !== 'wrong';
 
         // Create the correct sentence by replacing the blank with the correct answer
         const correctSentence = words.map((word, index) => {
@@ -132,6 +90,9 @@ export function CompleteTranslationQuestion({
             isCorrect: isAnswerCorrect,
             feedbackText: isAnswerCorrect ? 'Correct!' : "That's not quite right",
             correctAnswer: correctSentence,
+            verdict: result.verdict,
+            diff: result.diff,
+            answer: userInput,
             questionId,
         });
     }
@@ -178,12 +139,20 @@ export function CompleteTranslationQuestion({
                             />
                         );
                     }
+                    const audioFile = word.audio?.[selectedLanguage];
                     return (
-                        <View key={index} style={styles.sentenceWord}>
+                        <Pressable
+                            key={index}
+                            style={styles.sentenceWord}
+                            onPress={() => audioFile && playWord(audioFile)}
+                            disabled={!audioFile}
+                            accessibilityRole="button"
+                            accessibilityLabel={`Hear ${word.translations[selectedLanguage]}`}
+                        >
                             <ThemedText style={styles.sentenceWordText}>
                                 {word.translations[selectedLanguage]}
                             </ThemedText>
-                        </View>
+                        </Pressable>
                     );
                 })}
             </View>
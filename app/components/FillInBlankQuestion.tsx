@@ -1,11 +1,13 @@
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useWordAudio } from '@/hooks/useWordAudio';
 import React, { useCallback, useEffect, useState } from 'react';
-import { StyleSheet, TextInput, View } from 'react-native';
+import { Pressable, StyleSheet, TextInput, View } from 'react-native';
 import { colors } from '../constants/Colors';
 import { useFeedback } from '../contexts/FeedbackContext';
 import { AudioPlayer } from './AudioPlayer';
+import { GradeResult } from './questionGraders';
 
 interface Word {
     id: number;
@@ -24,14 +26,7 @@ interface FillInBlankQuestionProps {
     setOnContinue?: (fn: () => void) => void;
     setIsQuestionAnswered: (answered: boolean) => void;
     audioUrls?: string[];
-}
-
-// Function to check if answer is correct (exact match only)
-function isAnswerCorrect(userInput: string, correctAnswer: string): boolean {
-    const userTrimmed = userInput.trim().toLowerCase();
-    const correctTrimmed = correctAnswer.trim().toLowerCase();
-    
-    return userTrimmed === correctTrimmed;
+    grade: (userInput: string) => GradeResult;
 }
 
 function getWordById(words: Word[], id: string | number) {
@@ -49,6 +44,7 @@ export function FillInBlankQuestion({
     setOnContinue,
     setIsQuestionAnswered,
     audioUrls,
+    grade,
 }: FillInBlankQuestionProps) {
 
 
@@ -57,15 +53,7 @@ export function FillInBlankQuestion({
     const { isDark } = useTheme();
     const palette = isDark ? colors.dark : colors.light;
     const [userInput, setUserInput] = useState('');
-    const [autoPlayAudio, setAutoPlayAudio] = React.useState(true);
-
-    // Disable auto-play after 3 seconds on page load
-    useEffect(() => {
-        setAutoPlayAudio(true); // Reset autoPlayAudio to true for each new question
-        setTimeout(() => {
-            setAutoPlayAudio(false);
-        }, 3000);
-    }, [questionId]); // Add questionId as dependency to reset autoPlayAudio for each new question
+    const playWord = useWordAudio();
 
     // Additional logging for state
     //console.log('[FillInBlankQuestion] sentenceWords:', sentenceWords);
@@ -99,7 +87,6 @@ export function FillInBlankQuestion({
                     onChangeText={text => {
                         setUserInput(text);
                         setIsQuestionAnswered(text.trim().length > 0);
-                        setAutoPlayAudio(false);
                     }}
                     placeholderTextColor={palette.textSecondary}
                     autoCapitalize="none"
@@ -110,25 +97,38 @@ export function FillInBlankQuestion({
             );
         }
         const word = getWordById(words, id);
+        // Like allOptionAudio below, a word's audio may come as one file or several
+        const audioFile = [word?.audio?.[selectedLanguage] ?? []].flat()[0];
         return (
-            <View key={idx} style={styles.sentenceWord}>
+            <Pressable
+                key={idx}
+                style={styles.sentenceWord}
+                onPress={() => audioFile && playWord(audioFile)}
+                disabled={!audioFile}
+                accessibilityRole="button"
+                accessibilityLabel={`Hear ${word?.translations[selectedLanguage]}`}
+            >
                 <ThemedText style={[styles.sentenceWordText, { color: palette.text }]}>{word?.translations[selectedLanguage]}</ThemedText>
-            </View>
+            </Pressable>
         );
     });
 
     const handleCheck = useCallback(() => {
         const correctWord = getWordById(words, sentenceWords[blankIndex] ?? options[blankIndex]);
         const correctAnswer = correctWord?.translations[selectedLanguage] || '';
-        const isCorrect = isAnswerCorrect(userInput, correctAnswer);
+        const result = grade(userInput);
+        const isCorrect = result.verdict !== 'wrong';
         setFeedback({
             isChecked: true,
             isCorrect: isCorrect,
             feedbackText: isCorrect ? 'Correct!' : "That's not quite right",
             correctAnswer: correctAnswer,
+            verdict: result.verdict,
+            diff: result.diff,
+            answer: userInput,
             questionId,
         });
-    }, [words, sentenceWords, options, blankIndex, selectedLanguage, userInput, setFeedback, questionId]);
+    }, [words, sentenceWords, options, blankIndex, selectedLanguage, userInput, setFeedback, questionId, grade]);
 
     const resetQuestion = useCallback(() => {
         resetFeedback();
@@ -173,7 +173,7 @@ export function FillInBlankQuestion({
         <ThemedView style={[styles.container, { backgroundColor: palette.card }]}>
             <ThemedText style={[styles.title, { color: palette.text }]}>✏️ Fill in the blank?</ThemedText>
             {allOptionAudio.length > 0 && (
-                <AudioPlayer audioUrls={allOptionAudio} showGif={true} autoPlay={autoPlayAudio} />
+                <AudioPlayer audioUrls={allOptionAudio} showGif={true} />
             )}
             <View style={styles.optionsGrid}>
                 {availableOptions.map((id) => {
@@ -0,0 +1,33 @@
+import { ThemedText } from '@/components/ThemedText';
+import { useHearts } from '@/contexts/HeartsContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+
+// Shows the learner's hearts. Renders nothing when hearts are off or unlimited.
+export function HeartsIndicator() {
+    const { isEnabled, isUnlimited, hearts } = useHearts();
+    const { colors } = useTheme();
+
+    if (!isEnabled || isUnlimited) return null;
+
+    return (
+        <View style={styles.container} accessibilityLabel={`${hearts} hearts left`}>
+            <Ionicons name={hearts > 0 ? 'heart' : 'heart-outline'} size={22} color={colors.error} />
+            <ThemedText style={[styles.count, { color: colors.error }]}>{hearts}</ThemedText>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+    },
+    count: {
+        fontSize: 18,
+        fontWeight: 'bold',
+    },
+});
@@ -1,11 +1,12 @@
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
-import { HOST_URL } from '@/config/api';
+import { resolveMediaUri } from '@/services/mediaCache';
 import { Audio } from 'expo-av';
-import * as FileSystem from 'expo-file-system';
 import React from 'react';
 import { Animated, Dimensions, Pressable, StyleSheet, Text, useColorScheme, View } from 'react-native';
+import { useAudioSettings } from '../contexts/AudioSettingsContext';
 import { useFeedback } from '../contexts/FeedbackContext';
+import { GradeResult } from './questionGraders';
 
 interface Word {
     id: number;
@@ -22,6 +23,7 @@ interface MatchPairsQuestionProps {
     setOnCheck?: (fn: () => void) => void;
     setOnContinue?: (fn: () => void) => void;
     setIsQuestionAnswered: (answered: boolean) => void;
+    grade: (matchedPairs: number) => GradeResult;
 }
 
 function AudioButton({ isSelected }: { isSelected?: boolean }) {
@@ -42,6 +44,7 @@ export function MatchPairsQuestion({
     setOnCheck,
     setOnContinue,
     setIsQuestionAnswered,
+    grade,
 }: MatchPairsQuestionProps) {
     const colorScheme = useColorScheme();
     const isDark = colorScheme === 'dark';
@@ -56,6 +59,7 @@ export function MatchPairsQuestion({
     const [audioUrlMap, setAudioUrlMap] = React.useState<Map<number, string>>(new Map());
     const fadeAnim = React.useRef(new Animated.Value(0)).current;
     const { setFeedback, resetFeedback } = useFeedback();
+    const { playbackRate } = useAudioSettings();
     // Store a ref to the currently playing sound so we can stop/unload it
     const soundRef = React.useRef<Audio.Sound | null>(null);
 
@@ -65,34 +69,11 @@ export function MatchPairsQuestion({
         const promises = words.map(async word => {
             const audioFile = word.audio?.[selectedLanguage];
             if (audioFile) {
-                const localUri = `${FileSystem.documentDirectory}audio/${audioFile}`;
                 try {
-                    const info = await FileSystem.getInfoAsync(localUri);
-                    console.log('Checking local audio file:', localUri, info);
-                    if (info.exists) {
-                        newMap.set(word.id, localUri);
-                        console.log('Audio exists locally for word', word.id, localUri);
-                    } else {
-                        // Try to download from remote
-                        const remoteUrl = `${HOST_URL}/api/word/audio/get/${audioFile}`;
-                        console.log('Attempting to download audio for word', word.id, 'from', remoteUrl);
-                        try {
-                            await FileSystem.makeDirectoryAsync(`${FileSystem.documentDirectory}audio/`, { intermediates: true });
-                        } catch (e) {
-                            // Directory may already exist
-                        }
-                        try {
-                            const downloadResult = await FileSystem.downloadAsync(remoteUrl, localUri);
-                            console.log('Downloaded audio for word', word.id, 'to', downloadResult.uri);
-                            const downloadedInfo = await FileSystem.getInfoAsync(downloadResult.uri);
-                            console.log('Downloaded file info:', downloadedInfo);
-                            newMap.set(word.id, downloadResult.uri);
-                        } catch (downloadError) {
-                            console.error('Failed to download audio for word', word.id, remoteUrl, downloadError);
-                        }
-                    }
+                    // Downloads on a miss
+                    newMap.set(word.id, await resolveMediaUri('audio', audioFile));
                 } catch (error) {
-                    console.error('Error checking local audio for word', word.id, error);
+                    console.error('Failed to load audio for word', word.id, error);
                 }
             }
         });
@@ -153,7 +134,7 @@ export function MatchPairsQuestion({
             }
             const { sound } = await Audio.Sound.createAsync(
                 { uri: audioUrl },
-                { shouldPlay: true }
+                { shouldPlay: true, rate: playbackRate, shouldCorrectPitch: true }
             );
             soundRef.current = sound;
             // Unload when finished
@@ -251,12 +232,14 @@ export function MatchPairsQuestion({
     };
 
     function handleCheck() {
-        const allMatched = disabledLeftIds.size === words.length && disabledRightIds.size === words.length;
+        const matchedPairs = Math.min(disabledLeftIds.size, disabledRightIds.size);
+        const allMatched = grade(matchedPairs).verdict !== 'wrong';
         setFeedback({
             isChecked: true,
             isCorrect: allMatched,
             feedbackText: allMatched ? 'All pairs matched!' : 'Some pairs are not matched yet.',
             correctAnswer: undefined,
+            answer: matchedPairs,
             questionId,
         });
     }
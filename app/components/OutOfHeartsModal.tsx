@@ -0,0 +1,98 @@
+import { ThemedText } from '@/components/ThemedText';
+import { useHearts } from '@/contexts/HeartsContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { Modal, Pressable, StyleSheet, View } from 'react-native';
+
+interface OutOfHeartsModalProps {
+    visible: boolean;
+    // Practice refills hearts, so this is the way back in without waiting
+    onPractice: () => void;
+    onClose: () => void;
+}
+
+function formatWait(nextHeartAt: Date | null) {
+    if (!nextHeartAt) return null;
+    const minutes = Math.max(1, Math.ceil((nextHeartAt.getTime() - Date.now()) / 60000));
+    return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+}
+
+export function OutOfHeartsModal({ visible, onPractice, onClose }: OutOfHeartsModalProps) {
+    const { nextHeartAt } = useHearts();
+    const { colors, isDark } = useTheme();
+    const wait = formatWait(nextHeartAt);
+
+    return (
+        <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+            <View style={styles.overlay}>
+                <View style={[styles.container, { backgroundColor: isDark ? colors.surface : '#fff' }]}>
+                    <Ionicons name="heart-dislike" size={48} color={colors.error} />
+                    <ThemedText style={[styles.title, { color: colors.text }]}>You're out of hearts</ThemedText>
+                    <ThemedText style={[styles.description, { color: colors.textSecondary }]}>
+                        Review some words to refill your hearts{wait ? `, or wait ${wait} for the next one` : ''}.
+                    </ThemedText>
+                    <Pressable
+                        style={({ pressed }) => [styles.button, { backgroundColor: colors.primary }, pressed && styles.buttonPressed]}
+                        onPress={onPractice}
+                        accessibilityRole="button"
+                    >
+                        <ThemedText style={[styles.buttonText, { color: colors.buttonText }]}>Practice to refill</ThemedText>
+                    </Pressable>
+                    <Pressable
+                        style={({ pressed }) => [styles.secondaryButton, pressed && styles.buttonPressed]}
+                        onPress={onClose}
+                        accessibilityRole="button"
+                    >
+                        <ThemedText style={[styles.buttonText, { color: colors.primary }]}>Not now</ThemedText>
+                    </Pressable>
+                </View>
+            </View>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    container: {
+        padding: 24,
+        borderRadius: 20,
+        width: '80%',
+        maxWidth: 400,
+        alignItems: 'center',
+        gap: 12,
+    },
+    title: {
+        fontSize: 20,
+        fontWeight: 'bold',
+    },
+    description: {
+        fontSize: 14,
+        textAlign: 'center',
+        marginBottom: 8,
+    },
+    button: {
+        paddingVertical: 14,
+        borderRadius: 12,
+        alignItems: 'center',
+        width: '100%',
+    },
+    secondaryButton: {
+        paddingVertical: 10,
+        alignItems: 'center',
+        width: '100%',
+    },
+    buttonPressed: {
+        opacity: 0.9,
+        transform: [{ scale: 0.98 }],
+    },
+    buttonText: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+});
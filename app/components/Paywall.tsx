@@ -1,17 +1,19 @@
 import { useAuth } from '@/contexts/AuthContext';
+import { useEntitlements } from '@/contexts/EntitlementsContext';
 import { analytics } from '@/services/analytics';
+import { getPurchaseService } from '@/services/purchaseService';
 import React from 'react';
-import Purchases from 'react-native-purchases';
-import RevenueCatUI, { PAYWALL_RESULT } from 'react-native-purchases-ui';
+import type { PurchasesOffering } from 'react-native-purchases';
 
 interface PaywallProps {
     onSuccess?: () => void;
     onClose?: () => void;
-    offerings?: any;
+    offerings?: PurchasesOffering | null;
 }
 
 export function Paywall({ onSuccess, onClose, offerings }: PaywallProps) {
     const { user } = useAuth();
+    const { refresh: refreshEntitlements } = useEntitlements();
 
     const showPaywall = async () => {
         if (!user?.uid) return;
@@ -23,31 +25,36 @@ export function Paywall({ onSuccess, onClose, offerings }: PaywallProps) {
                 timestamp: new Date().toISOString()
             });
 
-            // Set the current user's UID as the RevenueCat identifier
-            await Purchases.logIn(user.uid);
+            const purchaseService = getPurchaseService();
 
-            // If no offerings provided, fetch them
-            const currentOfferings = offerings || (await Purchases.getOfferings()).current;
-            if (!currentOfferings) {
-                throw new Error('No offerings available');
-            }
+            // Set the current user's UID as the store identifier
+            await purchaseService.identifyUser(user.uid);
 
-            const result = await RevenueCatUI.presentPaywall({
-                offering: currentOfferings,
-                displayCloseButton: true,
-            });
+            // Falls back to the current offering when none is provided
+            const result = await purchaseService.presentPaywall(offerings);
 
             // Check if purchase was successful
-            if (result === PAYWALL_RESULT.PURCHASED) {
+            if (result === 'purchased') {
                 // Track successful purchase
                 await analytics.track('purchase_successful', {
                     userId: user.uid,
                     timestamp: new Date().toISOString()
                 });
 
+                // Pick up the new entitlement now instead of on the next refetch
+                await refreshEntitlements();
+
                 // Wait a brief moment to show the success state
                 await new Promise(resolve => setTimeout(resolve, 1000));
                 onSuccess?.();
+            } else if (result === 'restored') {
+                await analytics.track('purchase_restored', {
+                    userId: user.uid,
+                    timestamp: new Date().toISOString()
+                });
+
+                await refreshEntitlements();
+                onSuccess?.();
             } else {
                 // Track paywall closed without purchase
                 await analytics.track('paywall_closed', {
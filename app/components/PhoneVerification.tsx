@@ -0,0 +1,263 @@
+import { ThemedText } from '@/components/ThemedText';
+import { AuthUser, useAuth } from '@/contexts/AuthContext';
+import { formatSouthAfricanNumber, resendDelaySeconds, sendVerificationCode, toSouthAfricanE164 } from '@/services/phoneAuth';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+import Toast from 'react-native-toast-message';
+
+const CODE_LENGTH = 6;
+
+export interface PhoneVerificationResult {
+    user: AuthUser;
+    isNewUser: boolean;
+    /** The verified number in E.164, e.g. +27821234567. */
+    phoneNumber: string;
+}
+
+interface PhoneVerificationProps {
+    onVerified: (result: PhoneVerificationResult) => Promise<void> | void;
+    /** Checked before a code is sent, e.g. that the rest of a form is filled in. Return false to stop. */
+    canSendCode?: () => boolean;
+    verifyLabel?: string;
+}
+
+const SEND_ERRORS: Record<string, string> = {
+    'auth/invalid-phone-number': 'That phone number is not valid',
+    'auth/too-many-requests': 'Too many codes sent. Please try again later',
+    'auth/quota-exceeded': 'We can\'t send codes right now. Please try again later',
+};
+
+const VERIFY_ERRORS: Record<string, string> = {
+    'auth/invalid-verification-code': 'That code is not right. Check the SMS and try again',
+    'auth/code-expired': 'That code has expired. Send a new one',
+    'auth/session-expired': 'That code has expired. Send a new one',
+};
+
+function showError(text2: string) {
+    Toast.show({
+        type: 'error',
+        text1: 'Error',
+        text2,
+        position: 'bottom'
+    });
+}
+
+/**
+ * Phone sign-in for South African numbers: the learner enters a number, gets a
+ * code by SMS and types it in. Resends are throttled with a growing delay.
+ */
+export function PhoneVerification({ onVerified, canSendCode, verifyLabel = 'Verify Code' }: PhoneVerificationProps) {
+    const [phoneInput, setPhoneInput] = useState('');
+    const [phoneNumber, setPhoneNumber] = useState<string | null>(null);
+    const [verificationId, setVerificationId] = useState<string | null>(null);
+    const [code, setCode] = useState('');
+    const [codesSent, setCodesSent] = useState(0);
+    const [resendAt, setResendAt] = useState(0);
+    const [secondsLeft, setSecondsLeft] = useState(0);
+    const [isSending, setIsSending] = useState(false);
+    const [isVerifying, setIsVerifying] = useState(false);
+    const { signInWithPhone } = useAuth();
+
+    // Count down to when another code may be sent
+    useEffect(() => {
+        if (resendAt <= Date.now()) return;
+        const tick = () => setSecondsLeft(Math.max(0, Math.ceil((resendAt - Date.now()) / 1000)));
+        tick();
+        const timer = setInterval(tick, 1000);
+        return () => clearInterval(timer);
+    }, [resendAt]);
+
+    const sendCode = async () => {
+        if (canSendCode && !canSendCode()) return;
+
+        const e164 = toSouthAfricanE164(phoneInput);
+        if (!e164) {
+            showError('Please enter a valid South African mobile number');
+            return;
+        }
+
+        setIsSending(true);
+        try {
+            // A resend to the same number asks for a fresh SMS even if the last one is still valid
+            const id = await sendVerificationCode(e164, e164 === phoneNumber);
+            const sent = e164 === phoneNumber ? codesSent + 1 : 1;
+            setPhoneNumber(e164);
+            setVerificationId(id);
+            setCodesSent(sent);
+            setResendAt(Date.now() + resendDelaySeconds(sent) * 1000);
+            setCode('');
+        } catch (error) {
+            console.error('Error sending verification code:', error);
+            showError(SEND_ERRORS[(error as { code?: string }).code ?? ''] || 'Failed to send the code. Please try again');
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const verifyCode = async () => {
+        if (!verificationId || !phoneNumber || code.length !== CODE_LENGTH) return;
+
+        setIsVerifying(true);
+        try {
+            // Runs before the auth redirect, so the learner exists by the time a screen asks for it
+            await signInWithPhone(verificationId, code, ({ user, isNewUser }) => onVerified({ user, isNewUser, phoneNumber }));
+        } catch (error) {
+            console.error('Error verifying code:', error);
+            showError(VERIFY_ERRORS[(error as { code?: string }).code ?? ''] || 'Failed to verify the code. Please try again');
+        } finally {
+            setIsVerifying(false);
+        }
+    };
+
+    const changeNumber = () => {
+        setVerificationId(null);
+        setCode('');
+    };
+
+    if (!verificationId) {
+        return (
+            <View style={styles.container}>
+                <View style={styles.phoneRow}>
+                    <ThemedText style={styles.countryCode}>🇿🇦 +27</ThemedText>
+                    <TextInput
+                        style={[styles.input, styles.phoneInput]}
+                        placeholder="082 123 4567"
+                        placeholderTextColor="#94A3B8"
+                        value={phoneInput}
+                        onChangeText={setPhoneInput}
+                        keyboardType="phone-pad"
+                        textContentType="telephoneNumber"
+                        autoComplete="tel"
+                        maxLength={16}
+                        testID="phone-input"
+                        accessibilityLabel="Phone number input"
+                    />
+                </View>
+                <TouchableOpacity
+                    style={[styles.button, (isSending || secondsLeft > 0) && styles.buttonDisabled]}
+                    onPress={sendCode}
+                    disabled={isSending || secondsLeft > 0}
+                    testID="send-code-button"
+                >
+                    {isSending ? (
+                        <ActivityIndicator color="#1B1464" />
+                    ) : (
+                        <ThemedText style={styles.buttonText}>
+                            {secondsLeft > 0 ? `Send Code (${secondsLeft}s)` : 'Send Code'}
+                        </ThemedText>
+                    )}
+                </TouchableOpacity>
+            </View>
+        );
+    }
+
+    return (
+        <View style={styles.container}>
+            <ThemedText style={styles.helperText}>
+                Enter the {CODE_LENGTH}-digit code we sent to {formatSouthAfricanNumber(phoneNumber as string)}
+            </ThemedText>
+            <TextInput
+                style={[styles.input, styles.codeInput]}
+                placeholder="123456"
+                placeholderTextColor="#94A3B8"
+                value={code}
+                onChangeText={text => setCode(text.replace(/\D/g, ''))}
+                keyboardType="number-pad"
+                textContentType="oneTimeCode"
+                autoComplete="sms-otp"
+                maxLength={CODE_LENGTH}
+                testID="otp-input"
+                accessibilityLabel="Verification code input"
+            />
+            <TouchableOpacity
+                style={[styles.button, (isVerifying || code.length !== CODE_LENGTH) && styles.buttonDisabled]}
+                onPress={verifyCode}
+                disabled={isVerifying || code.length !== CODE_LENGTH}
+                testID="verify-code-button"
+            >
+                {isVerifying ? (
+                    <ActivityIndicator color="#1B1464" />
+                ) : (
+                    <ThemedText style={styles.buttonText}>{verifyLabel}</ThemedText>
+                )}
+            </TouchableOpacity>
+            <View style={styles.linkRow}>
+                <TouchableOpacity onPress={sendCode} disabled={isSending || secondsLeft > 0} testID="resend-code-button">
+                    <ThemedText style={[styles.linkText, (isSending || secondsLeft > 0) && styles.linkTextDisabled]}>
+                        {secondsLeft > 0 ? `Resend code in ${secondsLeft}s` : 'Resend code'}
+                    </ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={changeNumber} testID="change-number-button">
+                    <ThemedText style={styles.linkText}>Change number</ThemedText>
+                </TouchableOpacity>
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        width: '100%',
+        gap: 12,
+    },
+    phoneRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    countryCode: {
+        color: '#FFFFFF',
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    input: {
+        backgroundColor: 'rgba(255, 255, 255, 0.1)',
+        padding: 16,
+        borderRadius: 12,
+        fontSize: 16,
+        color: '#FFFFFF',
+    },
+    phoneInput: {
+        flex: 1,
+    },
+    codeInput: {
+        fontSize: 24,
+        letterSpacing: 8,
+        textAlign: 'center',
+    },
+    button: {
+        backgroundColor: '#FFFFFF',
+        padding: 16,
+        borderRadius: 28,
+        alignItems: 'center',
+    },
+    buttonDisabled: {
+        opacity: 0.7,
+    },
+    buttonText: {
+        color: '#1B1464',
+        fontSize: 18,
+        fontWeight: '600',
+    },
+    helperText: {
+        color: '#E2E8F0',
+        fontSize: 16,
+        textAlign: 'center',
+        lineHeight: 24,
+    },
+    linkRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+    },
+    linkText: {
+        color: '#FFFFFF',
+        fontSize: 15,
+        fontWeight: '600',
+        textDecorationLine: 'underline',
+    },
+    linkTextDisabled: {
+        opacity: 0.6,
+    },
+});
+
+export default PhoneVerification;
@@ -0,0 +1,60 @@
+import { Question } from '@/types/api';
+import { useEffect } from 'react';
+import { useFeedback } from '../contexts/FeedbackContext';
+import { getQuestionType, hasRequiredFields } from './questionRegistry';
+import './questionTypes';
+import { UnsupportedQuestionCard } from './UnsupportedQuestionCard';
+
+interface QuestionViewProps {
+    question: Question;
+    languageCode: string;
+    setOnCheck: (fn: () => void) => void;
+    setOnContinue: (fn: () => void) => void;
+    setIsQuestionAnswered: (answered: boolean) => void;
+    onSkip: () => void;
+    // null outside lessons, e.g. in practice sessions
+    lessonId: number | null;
+    isRetry: boolean;
+}
+
+// Renders the registered component for a question's type. Shared by lessons and practice sessions.
+export function QuestionView({ question, languageCode, setOnCheck, setOnContinue, setIsQuestionAnswered, onSkip, lessonId, isRetry }: QuestionViewProps) {
+    const definition = getQuestionType(question.type);
+    const { startAttempt } = useFeedback();
+
+    // Time to answer is measured from when the question is first shown
+    useEffect(() => {
+        startAttempt({
+            questionId: question.id,
+            questionType: question.type,
+            lessonId,
+            language: languageCode,
+            isRetry,
+        });
+    }, [question.id, question.type, lessonId, languageCode, isRetry]);
+
+    if (!definition) {
+        console.warn(`[QuestionView] No question type registered for "${question.type}"`);
+        return <UnsupportedQuestionCard reason="unknown_type" onSkip={onSkip} />;
+    }
+    if (!hasRequiredFields(definition, question)) {
+        console.warn(`[QuestionView] Question ${question.id} is missing fields required by "${question.type}"`);
+        return <UnsupportedQuestionCard reason="invalid_payload" onSkip={onSkip} />;
+    }
+
+    const payload = definition.normalize(question);
+    const QuestionComponent = definition.component;
+
+    return (
+        <QuestionComponent
+            {...payload}
+            selectedLanguage={languageCode}
+            questionId={String(question.id)}
+            setOnCheck={setOnCheck}
+            setOnContinue={setOnContinue}
+            setIsQuestionAnswered={setIsQuestionAnswered}
+            onSkip={onSkip}
+            grade={(answer: unknown) => definition.grade(payload, answer, languageCode)}
+        />
+    );
+}
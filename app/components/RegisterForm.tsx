@@ -2,13 +2,14 @@ import { ThemedText } from '@/components/ThemedText';
 import { HOST_URL } from '@/config/api';
 import { useAuth } from '@/contexts/AuthContext';
 import { analytics } from '@/services/analytics';
+import { authenticatedFetch } from '@/services/authenticatedFetch';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
-import * as SecureStore from 'expo-secure-store';
 import React, { useEffect, useState } from 'react';
 import { ActivityIndicator, KeyboardAvoidingView, Platform, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
 import Toast from 'react-native-toast-message';
 import { OnboardingData } from '../onboarding';
+import { PhoneVerification, PhoneVerificationResult } from './PhoneVerification';
 
 interface RegisterFormProps {
     onboardingData: OnboardingData;
@@ -20,7 +21,6 @@ type RegistrationMethod = 'email' | 'phone';
 export default function RegisterForm({ onboardingData, defaultMethod = 'email' }: RegisterFormProps) {
     const [name, setName] = useState('');
     const [email, setEmail] = useState('');
-    const [phoneNumber, setPhoneNumber] = useState('');
     const [password, setPassword] = useState('');
     const [confirmPassword, setConfirmPassword] = useState('');
     const [isLoading, setIsLoading] = useState(false);
@@ -50,8 +50,46 @@ export default function RegisterForm({ onboardingData, defaultMethod = 'email' }
         }
     };
 
-    const validatePhoneNumber = (phone: string): boolean => {
-        return /^\d{10}$/.test(phone);
+    // Creates the backend learner from the onboarding answers. A failure is logged, not thrown: the user is already registered
+    const createLearnerProfile = async (uid: string, userEmail: string) => {
+        if (!onboardingData) return;
+
+        const learnerData = {
+            name: name,
+            email: userEmail,
+            avatar: onboardingData.avatar,
+        };
+
+        // Create new learner using the new API endpoint
+        try {
+            const response = await authenticatedFetch(`${HOST_URL}/public/learn/learner/create`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    uid,
+                    name: learnerData.name,
+                    grade: "12", // Default grade for new users
+                    school_name: onboardingData.school || "Default School", // Use onboarding data or default
+                    school_address: onboardingData.school_address || "Default Address", // Use onboarding data or default
+                    school_latitude: onboardingData.school_latitude || 0, // Use onboarding data or default
+                    school_longitude: onboardingData.school_longitude || 0, // Use onboarding data or default
+                    terms: "1,2,4", // Default terms for new users
+                    curriculum: onboardingData.curriculum || "CAPS", // Use onboarding data or default
+                    email: learnerData.email,
+                    avatar: `${learnerData.avatar}.png` // Ensure avatar has .png extension
+                }),
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to create learner profile');
+            }
+
+            await response.json();
+        } catch (error) {
+            console.error('Error creating learner:', error);
+        }
     };
 
     const handleRegister = async () => {
@@ -69,21 +107,7 @@ export default function RegisterForm({ onboardingData, defaultMethod = 'email' }
             return;
         }
 
-        if (registrationMethod === 'phone' && !validatePhoneNumber(phoneNumber)) {
-            Toast.show({
-                type: 'error',
-                text1: 'Error',
-                text2: 'Please enter a valid 10-digit phone number',
-                position: 'bottom',
-                visibilityTime: 3000,
-                autoHide: true,
-                topOffset: 30,
-                bottomOffset: 40
-            });
-            return;
-        }
-
-        if (registrationMethod === 'email' && !email) {
+        if (!email) {
             Toast.show({
                 type: 'error',
                 text1: 'Error',
@@ -128,58 +152,11 @@ export default function RegisterForm({ onboardingData, defaultMethod = 'email' }
         setIsLoading(true);
         
         try {
-            const userEmail = registrationMethod === 'phone'
-                ? `${phoneNumber}@examquiz.co.za`
-                : email;
+            const userEmail = email;
 
             // Register the user
             const user = await signUp(userEmail, password);
-
-            // If we have onboarding data, update the learner profile
-            if (onboardingData) {
-                const learnerData = {
-                    name: name,
-                    email: userEmail,
-                    avatar: onboardingData.avatar,
-                };
-
-                // Create new learner using the new API endpoint
-                try {
-                    const response = await fetch(`${HOST_URL}/public/learn/learner/create`, {
-                        method: 'POST',
-                        headers: {
-                            'Content-Type': 'application/json',
-                        },
-                        body: JSON.stringify({
-                            uid: user.uid,
-                            name: learnerData.name,
-                            grade: "12", // Default grade for new users
-                            school_name: onboardingData.school || "Default School", // Use onboarding data or default
-                            school_address: onboardingData.school_address || "Default Address", // Use onboarding data or default
-                            school_latitude: onboardingData.school_latitude || 0, // Use onboarding data or default
-                            school_longitude: onboardingData.school_longitude || 0, // Use onboarding data or default
-                            terms: "1,2,4", // Default terms for new users
-                            curriculum: onboardingData.curriculum || "CAPS", // Use onboarding data or default
-                            email: learnerData.email,
-                            avatar: `${learnerData.avatar}.png` // Ensure avatar has .png extension
-                        }),
-                    });
-
-                    if (!response.ok) {
-                        throw new Error('Failed to create learner profile');
-                    }
-
-                    const learnerResponse = await response.json();
-                    //console.log('Learner created:', learnerResponse);
-                } catch (error) {
-                    console.error('Error creating learner:', error);
-                    // Don't throw here as the user is already registered
-                    // Just log the error and continue
-                }
-            }
-
-            // Store auth token
-            await SecureStore.setItemAsync('auth', JSON.stringify({ user }));
+            await createLearnerProfile(user.uid, userEmail);
 
             await logAnalyticsEvent('register_success', {
                 user_id: user.uid,
@@ -222,8 +199,7 @@ export default function RegisterForm({ onboardingData, defaultMethod = 'email' }
                 avatar_id: onboardingData?.avatar || 'none',
                 error_type: error instanceof Error ? error.message : 'unknown_error',
                 name_provided: !!name,
-                email_provided: !!email,
-                phone_provided: !!phoneNumber
+                email_provided: !!email
             });
             
             Toast.show({
@@ -241,6 +217,54 @@ export default function RegisterForm({ onboardingData, defaultMethod = 'email' }
         }
     };
 
+    const handlePhoneVerified = async ({ user, isNewUser, phoneNumber }: PhoneVerificationResult) => {
+        // The backend still keys learners by email; phone learners get one made from their local number
+        const userEmail = `0${phoneNumber.slice(3)}@examquiz.co.za`;
+        if (isNewUser) {
+            await createLearnerProfile(user.uid, userEmail);
+        }
+
+        analytics.track('languages_register_success', {
+            user_id: user.uid,
+            email: userEmail,
+            registration_method: 'phone',
+            has_onboarding_data: !!onboardingData,
+            avatar_id: onboardingData?.avatar || 'none',
+            curriculum: onboardingData?.curriculum || 'CAPS',
+            name_provided: !!name,
+            existing_account: !isNewUser
+        });
+
+        Toast.show({
+            type: 'success',
+            text1: 'Success',
+            text2: isNewUser ? 'Account created successfully!' : 'Welcome back! You already had an account with this number.',
+            position: 'bottom',
+            visibilityTime: 3000,
+            autoHide: true,
+            topOffset: 30,
+            bottomOffset: 40
+        });
+
+        router.replace('/(tabs)');
+    };
+
+    // The name goes on the learner profile, so it's needed before a code is sent
+    const canSendPhoneCode = () => {
+        if (name.trim()) return true;
+        Toast.show({
+            type: 'error',
+            text1: 'Error',
+            text2: 'Please enter your name',
+            position: 'bottom',
+            visibilityTime: 3000,
+            autoHide: true,
+            topOffset: 30,
+            bottomOffset: 40
+        });
+        return false;
+    };
+
     const handleCreateGmail = () => {
         setRegistrationMethod('phone');
     };
@@ -329,84 +353,77 @@ export default function RegisterForm({ onboardingData, defaultMethod = 'email' }
                                     Don't have an email? Use your phone number
                                 </ThemedText>
                             </TouchableOpacity>
-                        </>
-                    ) : (
-                        <TextInput
-                            style={styles.input}
-                            placeholder="Phone Number (10 digits)"
-                            placeholderTextColor="#94A3B8"
-                            value={phoneNumber}
-                            onChangeText={setPhoneNumber}
-                            keyboardType="phone-pad"
-                            testID="phone-input"
-                            maxLength={10}
-                            accessibilityLabel="Phone number input"
-                        />
-                    )}
-
-                    <View style={styles.inputContainer}>
+                        <View style={styles.inputContainer}>
+                            <View style={styles.passwordContainer}>
+                                <TextInput
+                                    style={[styles.input, styles.passwordInput]}
+                                    placeholder="Password"
+                                    placeholderTextColor="#94A3B8"
+                                    value={password}
+                                    onChangeText={setPassword}
+                                    secureTextEntry={!showPassword}
+                                    testID="password-input"
+                                    maxLength={50}
+                                    accessibilityLabel="Password input"
+                                />
+                                <TouchableOpacity
+                                    style={styles.eyeIcon}
+                                    onPress={() => setShowPassword(!showPassword)}
+                                    testID="toggle-password-visibility"
+                                >
+                                    <Ionicons
+                                        name={showPassword ? "eye-off" : "eye"}
+                                        size={24}
+                                        color="#94A3B8"
+                                    />
+                                </TouchableOpacity>
+                            </View>
+                        </View>
                         <View style={styles.passwordContainer}>
                             <TextInput
                                 style={[styles.input, styles.passwordInput]}
-                                placeholder="Password"
+                                placeholder="Confirm Password"
                                 placeholderTextColor="#94A3B8"
-                                value={password}
-                                onChangeText={setPassword}
-                                secureTextEntry={!showPassword}
-                                testID="password-input"
+                                value={confirmPassword}
+                                onChangeText={setConfirmPassword}
+                                secureTextEntry={!showConfirmPassword}
+                                testID="confirm-password-input"
                                 maxLength={50}
-                                accessibilityLabel="Password input"
+                                accessibilityLabel="Confirm password input"
                             />
                             <TouchableOpacity
                                 style={styles.eyeIcon}
-                                onPress={() => setShowPassword(!showPassword)}
-                                testID="toggle-password-visibility"
+                                onPress={() => setShowConfirmPassword(!showConfirmPassword)}
+                                testID="toggle-confirm-password-visibility"
                             >
                                 <Ionicons
-                                    name={showPassword ? "eye-off" : "eye"}
+                                    name={showConfirmPassword ? "eye-off" : "eye"}
                                     size={24}
                                     color="#94A3B8"
                                 />
                             </TouchableOpacity>
                         </View>
-                    </View>
-                    <View style={styles.passwordContainer}>
-                        <TextInput
-                            style={[styles.input, styles.passwordInput]}
-                            placeholder="Confirm Password"
-                            placeholderTextColor="#94A3B8"
-                            value={confirmPassword}
-                            onChangeText={setConfirmPassword}
-                            secureTextEntry={!showConfirmPassword}
-                            testID="confirm-password-input"
-                            maxLength={50}
-                            accessibilityLabel="Confirm password input"
-                        />
                         <TouchableOpacity
-                            style={styles.eyeIcon}
-                            onPress={() => setShowConfirmPassword(!showConfirmPassword)}
-                            testID="toggle-confirm-password-visibility"
+                            style={[styles.button, isLoading && styles.buttonDisabled]}
+                            onPress={handleRegister}
+                            disabled={isLoading}
+                            testID="register-button"
+                            accessibilityLabel="Create account button"
                         >
-                            <Ionicons
-                                name={showConfirmPassword ? "eye-off" : "eye"}
-                                size={24}
-                                color="#94A3B8"
-                            />
+                            {isLoading ? (
+                                <ActivityIndicator color="#FFFFFF" testID="register-loading-indicator" />
+                            ) : (
+                                <ThemedText style={styles.buttonText} testID="register-button-text">Create Account</ThemedText>
+                            )}
                         </TouchableOpacity>
-                    </View>
-                    <TouchableOpacity
-                        style={[styles.button, isLoading && styles.buttonDisabled]}
-                        onPress={handleRegister}
-                        disabled={isLoading}
-                        testID="register-button"
-                        accessibilityLabel="Create account button"
-                    >
-                        {isLoading ? (
-                            <ActivityIndicator color="#FFFFFF" testID="register-loading-indicator" />
-                        ) : (
-                            <ThemedText style={styles.buttonText} testID="register-button-text">Create Account</ThemedText>
-                        )}
-                    </TouchableOpacity>
+                        </>
+                    ) : (
+                        <PhoneVerification
+                            onVerified={handlePhoneVerified}
+                            canSendCode={canSendPhoneCode}
+                            verifyLabel="Create Account"
+                        />
+                    )}
                 </View>
             </ScrollView>
         </KeyboardAvoidingView>
@@ -1,13 +1,14 @@
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
-import { HOST_URL } from '@/config/api';
 import { useTheme } from '@/contexts/ThemeContext';
-import * as FileSystem from 'expo-file-system';
+import { getWordImageUrl } from '@/services/languageApi';
+import { getCachedMediaUri } from '@/services/mediaCache';
 import { Image } from 'expo-image';
 import React, { useEffect, useRef } from 'react';
 import { Pressable, ScrollView, StyleSheet, View } from 'react-native';
 import { useFeedback } from '../contexts/FeedbackContext';
 import { AudioPlayer } from './AudioPlayer';
+import { GradeResult } from './questionGraders';
 
 interface Word {
     id: number;
@@ -26,6 +27,7 @@ interface SelectImageQuestionProps {
     setOnCheck?: (fn: () => void) => void;
     setOnContinue?: (fn: () => void) => void;
     setIsQuestionAnswered: (answered: boolean) => void;
+    grade: (selectedOption: number) => GradeResult;
 }
 
 // Fisher-Yates shuffle algorithm
@@ -47,12 +49,12 @@ export function SelectImageQuestion({
     setOnCheck,
     setOnContinue,
     setIsQuestionAnswered,
+    grade,
 }: SelectImageQuestionProps) {
     const [selectedIndex, setSelectedIndex] = React.useState<number | null>(null);
     const { setFeedback, resetFeedback } = useFeedback();
     const scrollViewRef = useRef<ScrollView>(null);
     const { colors } = useTheme();
-    const [autoPlayAudio, setAutoPlayAudio] = React.useState(true);
 
     // Create shuffled options and mapping
     const [shuffledOptions, setShuffledOptions] = React.useState<string[]>([]);
@@ -105,29 +107,16 @@ export function SelectImageQuestion({
         audioFile = correctWord?.audio[selectedLanguage];
     }
 
-    useEffect(() => {
-        setAutoPlayAudio(true); // Reset autoPlayAudio to true for each new question
-        setTimeout(() => {
-            setAutoPlayAudio(false);
-        }, 3000);
-    }, [questionId]); // Add questionId as dependency to reset autoPlayAudio for each new question
-
     // Effect to resolve image URIs (local or remote)
     useEffect(() => {
         let isMounted = true;
         async function resolveImageUris() {
             const uris: Record<string, string> = {};
             for (const word of words) {
-                const localUri = `${FileSystem.documentDirectory}image/${word.image}`;
                 try {
-                    const fileInfo = await FileSystem.getInfoAsync(localUri);
-                    if (fileInfo.exists) {
-                        uris[word.id] = localUri;
-                    } else {
-                        uris[word.id] = `${HOST_URL}/api/word/image/get/${word.image}`;
-                    }
+                    uris[word.id] = (await getCachedMediaUri('image', word.image)) ?? getWordImageUrl(word.image);
                 } catch {
-                    uris[word.id] = `${HOST_URL}/api/word/image/get/${word.image}`;
+                    uris[word.id] = getWordImageUrl(word.image);
                 }
             }
             if (isMounted) setImageUris(uris);
@@ -140,7 +129,7 @@ export function SelectImageQuestion({
         audioPrompt = (
             <View style={styles.audioPromptContainer}>
                 <View style={styles.audioOnlyWrapper}>
-                    <AudioPlayer audioUrls={[audioFile]} autoPlay={autoPlayAudio} text={words.find((word) => String(word.id) === String(options[correctOption!]))?.translations[selectedLanguage]} />
+                    <AudioPlayer audioUrls={[audioFile]} text={words.find((word) => String(word.id) === String(options[correctOption!]))?.translations[selectedLanguage]} />
                 </View>
             </View>
         );
@@ -160,7 +149,7 @@ export function SelectImageQuestion({
         
         // Convert shuffled index back to original index for comparison
         const originalSelectedIndex = shuffledToOriginalMap.get(selectedIndex);
-        const isAnswerCorrect = originalSelectedIndex === correctOption;
+        const isAnswerCorrect = originalSelectedIndex !== undefined && grade(originalSelectedIndex).verdict !== 'wrong';
         
         const correctLabel = correctOption !== null ? words[correctOption]?.translations['en'] || '' : '';
         setFeedback({
@@ -168,6 +157,7 @@ export function SelectImageQuestion({
             isCorrect: isAnswerCorrect,
             feedbackText: isAnswerCorrect ? 'Correct!' : "That's not quite right",
             correctAnswer: correctLabel,
+            answer: originalSelectedIndex,
             questionId,
         });
     }
@@ -216,7 +206,7 @@ export function SelectImageQuestion({
                                 accessibilityLabel={`Select ${selectedLanguageWord}`}
                             >
                                 <Image
-                                    source={{ uri: imageUris[word.id] || `${HOST_URL}/api/word/image/get/${word.image}` }}
+                                    source={{ uri: imageUris[word.id] || getWordImageUrl(word.image) }}
                                     style={styles.optionImage}
                                     contentFit="contain"
                                     transition={200}
@@ -0,0 +1,260 @@
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useTheme } from '@/contexts/ThemeContext';
+import { isSpeakingPaused, pauseSpeakingQuestions } from '@/services/speakingPause';
+import { getSpeechRecognizer } from '@/services/speechRecognizer';
+import { Ionicons } from '@expo/vector-icons';
+import { Audio } from 'expo-av';
+import React, { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, View } from 'react-native';
+import { useFeedback } from '../contexts/FeedbackContext';
+import { AudioPlayer, PromptWord } from './AudioPlayer';
+import { GradeResult } from './questionGraders';
+
+interface Word {
+    id: number;
+    audio: Record<string, string>;
+    translations: Record<string, string>;
+}
+
+interface SpeakSentenceQuestionProps {
+    words: Word[];
+    sentenceWords: (string | number)[];
+    selectedLanguage: string;
+    questionId: string | number;
+    setOnCheck?: (fn: () => void) => void;
+    setOnContinue?: (fn: () => void) => void;
+    setIsQuestionAnswered: (answered: boolean) => void;
+    onSkip: () => void;
+    grade: (transcript: string) => GradeResult;
+}
+
+type RecordingState = 'idle' | 'recording' | 'transcribing';
+
+export function SpeakSentenceQuestion({
+    words,
+    sentenceWords,
+    selectedLanguage,
+    questionId,
+    setOnCheck,
+    setOnContinue,
+    setIsQuestionAnswered,
+    onSkip,
+    grade,
+}: SpeakSentenceQuestionProps) {
+    const [recordingState, setRecordingState] = useState<RecordingState>('idle');
+    const [transcript, setTranscript] = useState('');
+    const [errorText, setErrorText] = useState<string | null>(null);
+    const recordingRef = useRef<Audio.Recording | null>(null);
+    const { setFeedback, resetFeedback } = useFeedback();
+    const { colors, isDark } = useTheme();
+
+    const sentenceWordList = sentenceWords
+        .map(id => words.find(w => w.id === Number(id)))
+        .filter((word): word is Word => word !== undefined);
+    const sentence = sentenceWordList.map(word => word.translations[selectedLanguage]).join(' ');
+    const promptWords = sentenceWordList.map((word): PromptWord => ({
+        text: word.translations[selectedLanguage],
+        audioUrl: word.audio?.[selectedLanguage],
+    }));
+
+    // Speaking questions stay skipped for a while after "Can't speak now"
+    useEffect(() => {
+        isSpeakingPaused().then(paused => {
+            if (paused) {
+                onSkip();
+            }
+        });
+    }, [questionId]);
+
+    // Stop any recording still running when the question goes away
+    useEffect(() => {
+        return () => {
+            recordingRef.current?.stopAndUnloadAsync().catch(() => { });
+            recordingRef.current = null;
+        };
+    }, []);
+
+    async function startRecording() {
+        setErrorText(null);
+        try {
+            const { granted } = await Audio.requestPermissionsAsync();
+            if (!granted) {
+                setErrorText('Allow microphone access in Settings to answer speaking questions.');
+                return;
+            }
+            await Audio.setAudioModeAsync({
+                allowsRecordingIOS: true,
+                playsInSilentModeIOS: true,
+            });
+            const { recording } = await Audio.Recording.createAsync(Audio.RecordingOptionsPresets.HIGH_QUALITY);
+            recordingRef.current = recording;
+            setRecordingState('recording');
+        } catch (error) {
+            console.error('[SpeakSentenceQuestion] Error starting recording:', error);
+            setErrorText("Couldn't start recording. Please try again.");
+        }
+    }
+
+    async function stopRecording() {
+        const recording = recordingRef.current;
+        if (!recording) return;
+        recordingRef.current = null;
+        setRecordingState('transcribing');
+        try {
+            await recording.stopAndUnloadAsync();
+            await Audio.setAudioModeAsync({ allowsRecordingIOS: false });
+            const uri = recording.getURI();
+            if (!uri) {
+                throw new Error('Recording has no file');
+            }
+            const heard = await getSpeechRecognizer().transcribe(uri, selectedLanguage);
+            setTranscript(heard);
+            setIsQuestionAnswered(heard.trim().length > 0);
+            if (!heard.trim()) {
+                setErrorText("We didn't catch that. Try again a little louder.");
+            }
+        } catch (error) {
+            console.error('[SpeakSentenceQuestion] Error transcribing recording:', error);
+            setErrorText("We couldn't check your recording. Please try again.");
+        } finally {
+            setRecordingState('idle');
+        }
+    }
+
+    function handleCantSpeak() {
+        pauseSpeakingQuestions();
+        onSkip();
+    }
+
+    function handleCheck() {
+        if (!transcript.trim()) return;
+        const result = grade(transcript);
+        const isAnswerCorrect = result.verdict !== 'wrong';
+        setFeedback({
+            isChecked: true,
+            isCorrect: isAnswerCorrect,
+            feedbackText: isAnswerCorrect ? 'Correct!' : "That's not quite right",
+            correctAnswer: sentence,
+            verdict: result.verdict,
+            diff: result.diff,
+            answer: transcript,
+            questionId,
+        });
+    }
+
+    function resetQuestion() {
+        resetFeedback();
+        setTranscript('');
+        setErrorText(null);
+    }
+
+    useEffect(() => {
+        setOnCheck?.(handleCheck);
+        setOnContinue?.(resetQuestion);
+    }, [setOnCheck, setOnContinue, handleCheck, resetQuestion]);
+
+    const isRecording = recordingState === 'recording';
+
+    return (
+        <ThemedView style={[styles.container, { backgroundColor: colors.background }]}>
+            <ThemedText style={[styles.title, { color: colors.text }]}>🎙️ Say this out loud</ThemedText>
+            <AudioPlayer words={promptWords} />
+            <View style={styles.micContainer}>
+                <Pressable
+                    style={({ pressed }) => [
+                        styles.micButton,
+                        { backgroundColor: isRecording ? colors.error : colors.primary },
+                        pressed && styles.buttonPressed,
+                    ]}
+                    onPress={isRecording ? stopRecording : startRecording}
+                    disabled={recordingState === 'transcribing'}
+                    accessibilityRole="button"
+                    accessibilityLabel={isRecording ? 'Stop recording' : 'Start recording'}
+                >
+                    {recordingState === 'transcribing' ? (
+                        <ActivityIndicator color={colors.buttonText} />
+                    ) : (
+                        <Ionicons name={isRecording ? 'stop' : 'mic'} size={36} color={colors.buttonText} />
+                    )}
+                </Pressable>
+                <ThemedText style={[styles.hint, { color: colors.textSecondary }]}>
+                    {isRecording ? 'Tap to stop' : recordingState === 'transcribing' ? 'Listening back…' : 'Tap to speak'}
+                </ThemedText>
+            </View>
+            {transcript.trim().length > 0 && (
+                <View style={[styles.transcriptBubble, { backgroundColor: isDark ? colors.surface : '#fff', borderColor: colors.border }]}>
+                    <ThemedText style={[styles.transcriptLabel, { color: colors.textSecondary }]}>We heard</ThemedText>
+                    <ThemedText style={[styles.transcriptText, { color: colors.text }]}>{transcript}</ThemedText>
+                </View>
+            )}
+            {errorText && (
+                <ThemedText style={[styles.hint, { color: colors.error }]}>{errorText}</ThemedText>
+            )}
+            <Pressable
+                style={({ pressed }) => [styles.skipButton, pressed && styles.buttonPressed]}
+                onPress={handleCantSpeak}
+                disabled={isRecording}
+                accessibilityRole="button"
+            >
+                <ThemedText style={[styles.skipButtonText, { color: colors.primary }]}>Can't speak now</ThemedText>
+            </Pressable>
+        </ThemedView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        padding: 16,
+        gap: 16,
+    },
+    title: {
+        fontSize: 22,
+        fontWeight: 'bold',
+        marginBottom: 16,
+        textAlign: 'left',
+    },
+    micContainer: {
+        alignItems: 'center',
+        gap: 8,
+    },
+    micButton: {
+        width: 80,
+        height: 80,
+        borderRadius: 40,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    buttonPressed: {
+        opacity: 0.9,
+        transform: [{ scale: 0.98 }],
+    },
+    hint: {
+        fontSize: 15,
+        textAlign: 'center',
+    },
+    transcriptBubble: {
+        borderWidth: 1.5,
+        borderRadius: 12,
+        paddingVertical: 12,
+        paddingHorizontal: 16,
+        gap: 4,
+    },
+    transcriptLabel: {
+        fontSize: 13,
+        fontWeight: '600',
+    },
+    transcriptText: {
+        fontSize: 18,
+    },
+    skipButton: {
+        paddingVertical: 14,
+        alignItems: 'center',
+    },
+    skipButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+});
+
+export default SpeakSentenceQuestion;
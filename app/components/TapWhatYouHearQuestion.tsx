@@ -5,6 +5,7 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { StyleSheet } from 'react-native';
 import { useFeedback } from '../contexts/FeedbackContext';
 import { AudioPlayer } from './AudioPlayer';
+import { GradeResult } from './questionGraders';
 import { WordSelectionOptions } from './WordSelectionOptions';
 
 interface Word {
@@ -23,25 +24,17 @@ interface TapWhatYouHearQuestionProps {
     setOnCheck?: (fn: () => void) => void;
     setOnContinue?: (fn: () => void) => void;
     setIsQuestionAnswered: (answered: boolean) => void;
+    grade: (selectedWordIds: number[]) => GradeResult;
 }
 
 function getWordById(words: Word[], id: string | number) {
     return words.find(w => w.id === Number(id));
 }
 
-export function TapWhatYouHearQuestion({ words, sentenceWords, options = [], selectedLanguage, questionId, setOnCheck, setOnContinue, setIsQuestionAnswered }: TapWhatYouHearQuestionProps) {
+export function TapWhatYouHearQuestion({ words, sentenceWords, options = [], selectedLanguage, questionId, setOnCheck, setOnContinue, setIsQuestionAnswered, grade }: TapWhatYouHearQuestionProps) {
     const [selectedWordIds, setSelectedWordIds] = useState<number[]>([]);
     const { setFeedback, resetFeedback } = useFeedback();
     const { colors } = useTheme();
-    const [autoPlay, setAutoPlay] = React.useState(true);
-
-    // Disable auto-play after 3 seconds on page load
-    useEffect(() => {
-        setAutoPlay(true); // Reset autoPlay to true for each new question
-        setTimeout(() => {
-            setAutoPlay(false);
-        }, 3000);
-    }, [questionId]); // Add questionId as dependency to reset autoPlay for each new question
 
     // Get audio URLs for normal and slow (if available) - only calculate once when sentence words change
     const audioUrls = useMemo(() => {
@@ -64,17 +57,14 @@ export function TapWhatYouHearQuestion({ words, sentenceWords, options = [], sel
     }
 
     function handleCheck() {
-        const selected = selectedWordIds.map(String);
-        const correct = sentenceWords.map(String);
-        const isAnswerCorrect =
-            selected.length === correct.length &&
-            selected.every((id, idx) => id === correct[idx]);
+        const isAnswerCorrect = grade(selectedWordIds).verdict !== 'wrong';
 
         setFeedback({
             isChecked: true,
             isCorrect: isAnswerCorrect,
             feedbackText: isAnswerCorrect ? 'Correct!' : "That's not quite right",
             correctAnswer: correctAnswer,
+            answer: selectedWordIds,
             questionId,
         });
     }
@@ -100,7 +90,7 @@ export function TapWhatYouHearQuestion({ words, sentenceWords, options = [], sel
     return (
         <ThemedView style={[styles.container, { backgroundColor: colors.background }]}>
             <ThemedText style={[styles.title, { color: colors.text }]}>👂 Can you hear it? Tap it!</ThemedText>
-            <AudioPlayer audioUrls={audioUrls} autoPlay={autoPlay} showGif={true} />
+            <AudioPlayer audioUrls={audioUrls} showGif={true} />
             <WordSelectionOptions
                 words={words}
                 options={options}
@@ -2,10 +2,11 @@ import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Audio } from 'expo-av';
-import React, { useEffect, useMemo } from 'react';
+import React, { useEffect } from 'react';
 import { StyleSheet, View } from 'react-native';
 import { useFeedback } from '../contexts/FeedbackContext';
-import { AudioPlayer } from './AudioPlayer';
+import { AudioPlayer, PromptWord } from './AudioPlayer';
+import { GradeResult } from './questionGraders';
 import { WordSelectionOptions } from './WordSelectionOptions';
 
 interface Word {
@@ -27,6 +28,7 @@ interface TranslateQuestionProps {
     setOnCheck?: (fn: () => void) => void;
     setOnContinue?: (fn: () => void) => void;
     setIsQuestionAnswered: (answered: boolean) => void;
+    grade: (selectedWordIds: number[]) => GradeResult;
 }
 
 export function TranslateQuestion({
@@ -41,19 +43,11 @@ export function TranslateQuestion({
     setOnCheck,
     setOnContinue,
     setIsQuestionAnswered,
+    grade,
 }: TranslateQuestionProps) {
     const [selectedWordIds, setSelectedWordIds] = React.useState<number[]>([]);
     const { setFeedback, resetFeedback } = useFeedback();
     const { colors } = useTheme();
-    const [autoPlay, setAutoPlay] = React.useState(true);
-
-    // Disable auto-play after 3 seconds on page load
-    useEffect(() => {
-        setAutoPlay(true); // Reset autoPlay to true for each new question
-        setTimeout(() => {
-            setAutoPlay(false);
-        }, 3000);
-    }, [questionId]); // Add questionId as dependency to reset autoPlay for each new question
 
     // Configure audio session on mount
     React.useEffect(() => {
@@ -86,17 +80,6 @@ export function TranslateQuestion({
             : word.translations['en']);
     }).join(' ');
 
-    // Get all audio URLs for the sentence
-    const audioUrls = useMemo(() => {
-        if (!sentenceWords || direction === 'from_english') return [];
-        return sentenceWords
-            .map(id => {
-                const word = getWordById(id);
-                return word?.audio?.[selectedLanguage];
-            })
-            .filter((url): url is string => !!url);
-    }, [sentenceWords, direction, selectedLanguage]);
-
     // Sentence prompt row (top)
     let promptRow = null;
     if (sentenceWords && sentenceWords.length > 0) {
@@ -109,6 +92,13 @@ export function TranslateQuestion({
                     : word.translations[selectedLanguage];
             })
             .join(' ');
+        const promptWords = sentenceWords
+            .map(id => getWordById(id))
+            .filter((word): word is Word => word !== undefined)
+            .map((word): PromptWord => ({
+                text: word.translations[selectedLanguage],
+                audioUrl: word.audio?.[selectedLanguage],
+            }));
         promptRow = direction === 'from_english' ? (
             <View style={[styles.speechBubble, { backgroundColor: colors.card, borderColor: colors.border }]}
                 accessibilityRole="text">
@@ -117,7 +107,7 @@ export function TranslateQuestion({
                 </ThemedText>
             </View>
         ) : (
-            <AudioPlayer audioUrls={audioUrls} text={sentence} autoPlay={autoPlay} />
+            <AudioPlayer words={promptWords} />
         );
     }
 
@@ -133,17 +123,16 @@ export function TranslateQuestion({
 
     function handleCheck() {
         if (!sentenceWords) return;
-        const selected = selectedWordIds.map(String);
-        const correct = sentenceWords.map(String);
-        const isAnswerCorrect =
-            selected.length === correct.length &&
-            selected.every((id, idx) => id === correct[idx]);
+        const result = grade(selectedWordIds);
+        const isAnswerCorrect = result.verdict !== 'wrong';
 
         setFeedback({
             isChecked: true,
             isCorrect: isAnswerCorrect,
             feedbackText: isAnswerCorrect ? 'Correct!' : "That's not quite right",
-            correctAnswer: correctAnswer,
+            // The accepted answer closest to the learner's, which may not be the canonical one
+            correctAnswer: result.expected || correctAnswer,
+            answer: selectedWordIds,
             questionId,
         });
     }
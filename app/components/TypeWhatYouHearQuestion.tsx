@@ -4,7 +4,8 @@ import { useTheme } from '@/contexts/ThemeContext';
 import React, { useEffect, useState } from 'react';
 import { Keyboard, StyleSheet, TextInput } from 'react-native';
 import { useFeedback } from '../contexts/FeedbackContext';
-import { AudioPlayer } from './AudioPlayer';
+import { AudioPlayer, PromptWord } from './AudioPlayer';
+import { GradeResult } from './questionGraders';
 
 interface Word {
     id: number;
@@ -20,6 +21,7 @@ interface TypeWhatYouHearQuestionProps {
     setOnCheck?: (fn: () => void) => void;
     setOnContinue?: (fn: () => void) => void;
     setIsQuestionAnswered: (answered: boolean) => void;
+    grade: (userInput: string) => GradeResult;
 }
 
 export function TypeWhatYouHearQuestion({
@@ -30,19 +32,11 @@ export function TypeWhatYouHearQuestion({
     setOnCheck,
     setOnContinue,
     setIsQuestionAnswered,
+    grade,
 }: TypeWhatYouHearQuestionProps) {
     const [userInput, setUserInput] = useState('');
     const { setFeedback, resetFeedback } = useFeedback();
     const { colors, isDark } = useTheme()
-    const [autoPlay, setAutoPlay] = React.useState(true);
-
-    // Disable auto-play after 3 seconds on page load
-    useEffect(() => {
-        setAutoPlay(true); // Reset autoPlay to true for each new question
-        setTimeout(() => {
-            setAutoPlay(false);
-        }, 3000);
-    }, [questionId]); // Add questionId as dependency to reset autoPlay for each new question
 
     // Get all correct words and concatenate their translations
     const correctWords = options
@@ -52,10 +46,11 @@ export function TypeWhatYouHearQuestion({
         .map(word => word.translations[selectedLanguage])
         .join(' ');
 
-    // Get all audio URIs for the sequence
-    const audioUrls = correctWords
-        .map(word => word.audio[selectedLanguage])
-        .filter(Boolean);
+    // One hidden placeholder per word, so the learner can follow along and replay from any word
+    const promptWords = correctWords.map((word): PromptWord => ({
+        text: word.translations[selectedLanguage],
+        audioUrl: word.audio[selectedLanguage],
+    }));
 
     function resetQuestion() {
         resetFeedback();
@@ -65,12 +60,16 @@ export function TypeWhatYouHearQuestion({
     function handleCheck() {
         Keyboard.dismiss();
         if (!userInput.trim()) return;
-        const isAnswerCorrect = userInput.trim().toLowerCase() === correctAnswer.trim().toLowerCase();
+        const result = grade(userInput);
+        const isAnswerCorrect = result.verdict !== 'wrong';
         setFeedback({
             isChecked: true,
             isCorrect: isAnswerCorrect,
             feedbackText: isAnswerCorrect ? 'Correct!' : "That's not quite right",
             correctAnswer: correctAnswer,
+            verdict: result.verdict,
+            diff: result.diff,
+            answer: userInput,
             questionId,
         });
     }
@@ -78,9 +77,6 @@ export function TypeWhatYouHearQuestion({
     function handleTextChange(text: string) {
         setUserInput(text);
         setIsQuestionAnswered(text.length > 0);
-        if (text.length > 0) {
-            setAutoPlay(false);
-        }
     }
 
     useEffect(() => {
@@ -91,7 +87,7 @@ export function TypeWhatYouHearQuestion({
     return (
         <ThemedView style={[styles.container, { backgroundColor: colors.background }]}>
             <ThemedText style={[styles.title, { color: colors.text }]}>Type what you hear</ThemedText>
-            <AudioPlayer audioUrls={audioUrls} autoPlay={autoPlay} />
+            <AudioPlayer words={promptWords} concealWords />
             <TextInput
                 style={[
                     styles.input,
@@ -0,0 +1,110 @@
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useTheme } from '@/contexts/ThemeContext';
+import React from 'react';
+import { Linking, Platform, Pressable, StyleSheet } from 'react-native';
+
+const STORE_LINK = Platform.OS === 'ios'
+    ? 'https://apps.apple.com/app/dimpo-languages/6742684696'
+    : 'https://play.google.com/store/apps/details?id=com.dimpolanguages';
+
+interface UnsupportedQuestionCardProps {
+    // unknown_type: the lesson uses a question type this version doesn't know yet
+    // invalid_payload: the type is known but the question is missing data it needs
+    reason: 'unknown_type' | 'invalid_payload';
+    onSkip: () => void;
+}
+
+export function UnsupportedQuestionCard({ reason, onSkip }: UnsupportedQuestionCardProps) {
+    const { colors, isDark } = useTheme();
+
+    const openStore = () => {
+        Linking.openURL(STORE_LINK).catch(error => {
+            console.error('[UnsupportedQuestionCard] Error opening store:', error);
+        });
+    };
+
+    return (
+        <ThemedView style={[styles.card, { backgroundColor: isDark ? colors.surface : '#fff' }]}>
+            <ThemedText style={styles.emoji}>{reason === 'unknown_type' ? '🚀' : '🧩'}</ThemedText>
+            <ThemedText style={[styles.title, { color: colors.text }]}>
+                {reason === 'unknown_type' ? 'Update the app to see this question' : "This question couldn't be loaded"}
+            </ThemedText>
+            <ThemedText style={[styles.message, { color: colors.textSecondary }]}>
+                {reason === 'unknown_type'
+                    ? 'This lesson has a new kind of question that your version of Dimpo Languages doesn\'t support yet.'
+                    : 'Something is missing from this question. You can skip it and carry on with the lesson.'}
+            </ThemedText>
+            {reason === 'unknown_type' && (
+                <Pressable
+                    style={({ pressed }) => [styles.button, { backgroundColor: colors.primary }, pressed && styles.buttonPressed]}
+                    onPress={openStore}
+                    accessibilityRole="button"
+                >
+                    <ThemedText style={[styles.buttonText, { color: colors.buttonText }]}>Update the app</ThemedText>
+                </Pressable>
+            )}
+            <Pressable
+                style={({ pressed }) => [styles.skipButton, pressed && styles.buttonPressed]}
+                onPress={onSkip}
+                accessibilityRole="button"
+            >
+                <ThemedText style={[styles.skipButtonText, { color: colors.primary }]}>Skip this question</ThemedText>
+            </Pressable>
+        </ThemedView>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        borderRadius: 16,
+        padding: 24,
+        alignItems: 'center',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 3,
+        elevation: 3,
+    },
+    emoji: {
+        fontSize: 40,
+        lineHeight: 48,
+        marginBottom: 12,
+    },
+    title: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        textAlign: 'center',
+        marginBottom: 8,
+    },
+    message: {
+        fontSize: 16,
+        textAlign: 'center',
+        lineHeight: 24,
+        marginBottom: 24,
+    },
+    button: {
+        paddingVertical: 14,
+        paddingHorizontal: 32,
+        borderRadius: 12,
+        alignItems: 'center',
+        width: '100%',
+    },
+    buttonPressed: {
+        opacity: 0.9,
+        transform: [{ scale: 0.98 }],
+    },
+    buttonText: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    skipButton: {
+        paddingVertical: 14,
+        alignItems: 'center',
+        width: '100%',
+    },
+    skipButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+});
@@ -1,7 +1,6 @@
 import { ThemedText } from '@/components/ThemedText';
 import { useTheme } from '@/contexts/ThemeContext';
-import { Audio } from 'expo-av';
-import * as FileSystem from 'expo-file-system';
+import { useWordAudio } from '@/hooks/useWordAudio';
 import React, { useMemo } from 'react';
 import { Pressable, StyleSheet, View } from 'react-native';
 
@@ -34,6 +33,7 @@ export function WordSelectionOptions({
     playAudioOnSelect = true,
 }: WordSelectionOptionsProps) {
     const { colors, isDark } = useTheme();
+    const playWord = useWordAudio();
 
     // Helper: get word by id
     function getWordById(id: string | number) {
@@ -61,26 +61,10 @@ export function WordSelectionOptions({
         return !!text && text.trim().length > 0;
     });
 
-    async function handleSelectOption(id: string | number) {
+    function handleSelectOption(id: string | number) {
         const word = getWordById(id);
         if (playAudioOnSelect && direction === 'from_english' && word?.audio?.[selectedLanguage]) {
-            const sound = new Audio.Sound();
-            const audioFile = word.audio[selectedLanguage];
-            const localUri = `${FileSystem.documentDirectory}audio/${audioFile}`;
-            try {
-                const info = await FileSystem.getInfoAsync(localUri);
-                if (info.exists) {
-                    await sound.loadAsync({ uri: localUri });
-                    await sound.playAsync();
-                    sound.setOnPlaybackStatusUpdate((status) => {
-                        if (status.isLoaded && status.didJustFinish) {
-                            sound.unloadAsync();
-                        }
-                    });
-                }
-            } catch (error) {
-                // fail silently
-            }
+            playWord(word.audio[selectedLanguage]);
         }
         onSelectWord(Number(id));
     }
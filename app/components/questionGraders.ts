@@ -0,0 +1,176 @@
+// Shared answer grading for every question type. Components collect the learner's
+// answer and hand it to their type's grader instead of comparing inline.
+
+export type GradeVerdict = 'correct' | 'typo' | 'wrong';
+
+export interface DiffSegment {
+    text: string;
+    // missing: in the expected answer but not typed; extra: typed but not expected
+    kind: 'same' | 'missing' | 'extra';
+}
+
+export interface GradeResult {
+    verdict: GradeVerdict;
+    /** The accepted answer closest to what was given. */
+    expected: string;
+    /** Character diff from the learner's answer to `expected`. Empty for non-text answers. */
+    diff: DiffSegment[];
+}
+
+/**
+ * Spellings that are interchangeable in a language, compared word by word.
+ * Every spelling in a group is treated as the first one.
+ */
+const LANGUAGE_ALTERNATIVES: Record<string, string[][]> = {
+    // The indefinite article is often typed without its apostrophe
+    af: [["'n", 'n']],
+};
+
+const APOSTROPHES = /[\u2018\u2019\u201B\u02BC\u02BB`\u00B4\u2032]/g;
+const DASHES = /[\u2010-\u2015]/g;
+const PUNCTUATION = /[.,!?;:"\u201C\u201D\u201E\u00AB\u00BB()[\]\u00BF\u00A1\u2026]/g;
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+// Function to calculate Levenshtein distance between two strings
+export function levenshteinDistance(str1: string, str2: string): number {
+    const matrix = [];
+
+    for (let i = 0; i <= str2.length; i++) {
+        matrix[i] = [i];
+    }
+
+    for (let j = 0; j <= str1.length; j++) {
+        matrix[0][j] = j;
+    }
+
+    for (let i = 1; i <= str2.length; i++) {
+        for (let j = 1; j <= str1.length; j++) {
+            if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
+                matrix[i][j] = matrix[i - 1][j - 1];
+            } else {
+                matrix[i][j] = Math.min(
+                    matrix[i - 1][j - 1] + 1, // substitution
+                    matrix[i][j - 1] + 1,     // insertion
+                    matrix[i - 1][j] + 1      // deletion
+                );
+            }
+        }
+    }
+
+    return matrix[str2.length][str1.length];
+}
+
+/**
+ * Lower-cases and tidies an answer so that only the words themselves are compared:
+ * curly and modifier apostrophes become ', punctuation is dropped, whitespace is
+ * collapsed and per-language alternative spellings are mapped to one form.
+ * Diacritics are kept; see stripDiacritics.
+ */
+export function normalizeAnswer(text: string, languageCode: string): string {
+    const words = text
+        .normalize('NFC')
+        .toLowerCase()
+        .replace(APOSTROPHES, "'")
+        .replace(DASHES, '-')
+        .replace(PUNCTUATION, ' ')
+        .split(/\s+/)
+        .filter(Boolean);
+
+    const groups = LANGUAGE_ALTERNATIVES[languageCode] ?? [];
+    return words
+        .map(word => groups.find(group => group.includes(word))?.[0] ?? word)
+        .join(' ');
+}
+
+// ê → e, ṱ → t, and so on. Used to tell a missing accent apart from a wrong word.
+export function stripDiacritics(text: string): string {
+    return text.normalize('NFD').replace(COMBINING_MARKS, '').normalize('NFC');
+}
+
+// Longer answers are allowed more slips before they stop counting as a typo
+function allowedTypos(expected: string): number {
+    if (expected.length <= 3) return 0;
+    if (expected.length <= 8) return 1;
+    return 2;
+}
+
+/** Character diff from `actual` to `expected`, built from their longest common subsequence. */
+export function diffAnswer(actual: string, expected: string): DiffSegment[] {
+    const lcs: number[][] = Array.from({ length: actual.length + 1 }, () => new Array(expected.length + 1).fill(0));
+    for (let i = actual.length - 1; i >= 0; i--) {
+        for (let j = expected.length - 1; j >= 0; j--) {
+            lcs[i][j] = actual[i] === expected[j]
+                ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    const push = (text: string, kind: DiffSegment['kind']) => {
+        const last = segments[segments.length - 1];
+        if (last?.kind === kind) {
+            last.text += text;
+        } else {
+            segments.push({ text, kind });
+        }
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < actual.length || j < expected.length) {
+        if (i < actual.length && j < expected.length && actual[i] === expected[j]) {
+            push(expected[j], 'same');
+            i++;
+            j++;
+        } else if (j < expected.length && (i >= actual.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+            push(expected[j], 'missing');
+            j++;
+        } else {
+            push(actual[i], 'extra');
+            i++;
+        }
+    }
+    return segments;
+}
+
+/**
+ * Grades a typed answer against one or more accepted answers.
+ * - correct: matches an accepted answer once normalized
+ * - typo: only accents differ, or a few letters are off; counts as right
+ * - wrong: anything else
+ * `expected` is the closest accepted answer either way.
+ */
+export function gradeTextAnswer(userInput: string, accepted: string | string[], languageCode: string): GradeResult {
+    const answers = (Array.isArray(accepted) ? accepted : [accepted]).filter(answer => answer.trim());
+    if (answers.length === 0) {
+        return { verdict: 'wrong', expected: '', diff: [] };
+    }
+
+    const actual = normalizeAnswer(userInput, languageCode);
+    const candidates = answers.map(answer => {
+        const expected = normalizeAnswer(answer, languageCode);
+        const distance = levenshteinDistance(stripDiacritics(actual), stripDiacritics(expected));
+        return { answer, expected, distance };
+    });
+
+    const exact = candidates.find(candidate => candidate.expected === actual);
+    if (exact) {
+        return { verdict: 'correct', expected: exact.answer, diff: [] };
+    }
+
+    const closest = candidates.reduce((best, candidate) => candidate.distance < best.distance ? candidate : best);
+    const verdict = closest.distance <= allowedTypos(closest.expected) ? 'typo' : 'wrong';
+    return { verdict, expected: closest.answer, diff: diffAnswer(actual, closest.expected) };
+}
+
+// For answers picked rather than typed (images, word tiles, pairs)
+export function gradeSelection(isCorrect: boolean, expected: string = ''): GradeResult {
+    return { verdict: isCorrect ? 'correct' : 'wrong', expected, diff: [] };
+}
+
+// Word ids picked in the same order as the expected sentence
+export function isWordSequenceCorrect(selectedIds: (string | number)[], correctIds: (string | number)[]): boolean {
+    const selected = selectedIds.map(String);
+    const correct = correctIds.map(String);
+    return selected.length === correct.length && selected.every((id, idx) => id === correct[idx]);
+}
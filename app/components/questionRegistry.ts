@@ -0,0 +1,47 @@
+import { Question } from '@/types/api';
+import { ComponentType } from 'react';
+import { GradeResult } from './questionGraders';
+
+// Props the lesson screen wires into every question component, whatever its type
+export interface QuestionWiringProps {
+    questionId: string;
+    selectedLanguage: string;
+    setOnCheck: (fn: () => void) => void;
+    setOnContinue: (fn: () => void) => void;
+    setIsQuestionAnswered: (answered: boolean) => void;
+    // Moves past the question without answering it
+    onSkip: () => void;
+}
+
+export type QuestionField = Exclude<keyof Question, 'id' | 'type' | 'questionOrder'>;
+
+export interface QuestionTypeDefinition<Payload, Answer> {
+    type: string;
+    /** Question fields this type can't be shown without. */
+    schema: QuestionField[];
+    /** Turns the raw question from the API into the component's props. */
+    normalize: (question: Question) => Payload;
+    component: ComponentType<Payload & QuestionWiringProps & { grade: (answer: Answer) => GradeResult }>;
+    grade: (payload: Payload, answer: Answer, languageCode: string) => GradeResult;
+}
+
+// Definitions are stored type-erased; each one is only ever called with its own payload
+type AnyQuestionTypeDefinition = QuestionTypeDefinition<any, any>;
+
+const questionTypes = new Map<string, AnyQuestionTypeDefinition>();
+
+export function registerQuestionType<Payload, Answer>(definition: QuestionTypeDefinition<Payload, Answer>) {
+    questionTypes.set(definition.type, definition);
+}
+
+export function getQuestionType(type: string): AnyQuestionTypeDefinition | undefined {
+    return questionTypes.get(type);
+}
+
+// Checks the fields the type declared in its schema. Empty word lists count as missing.
+export function hasRequiredFields(definition: AnyQuestionTypeDefinition, question: Question): boolean {
+    return definition.schema.every(field => {
+        const value = question[field];
+        return Array.isArray(value) ? value.length > 0 : value !== null && value !== undefined;
+    });
+}
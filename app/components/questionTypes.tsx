@@ -0,0 +1,198 @@
+import { Question, Word } from '@/types/api';
+import { ComponentProps } from 'react';
+import { CompleteTranslationQuestion } from './CompleteTranslationQuestion';
+import { FillInBlankQuestion } from './FillInBlankQuestion';
+import { MatchPairsQuestion } from './MatchPairsQuestion';
+import { gradeSelection, gradeTextAnswer, isWordSequenceCorrect } from './questionGraders';
+import { registerQuestionType } from './questionRegistry';
+import { SelectImageQuestion } from './SelectImageQuestion';
+import { SpeakSentenceQuestion } from './SpeakSentenceQuestion';
+import { TapWhatYouHearQuestion } from './TapWhatYouHearQuestion';
+import { TranslateQuestion } from './TranslateQuestion';
+import { TypeMissingWordQuestion } from './TypeMissingWordQuestion';
+import { TypeWhatYouHearQuestion } from './TypeWhatYouHearQuestion';
+
+// The built-in question types. New types register themselves the same way and
+// are picked up by QuestionView without touching the lesson screen.
+
+function getWordById<W extends { id: number }>(words: W[], id: string | number | undefined) {
+    return words.find(w => w.id === Number(id));
+}
+
+// The blank question components play every recording of a word, so they take audio as lists
+function withAudioLists(words: Word[]) {
+    return words.map(w => ({
+        ...w,
+        audio: Object.fromEntries(
+            Object.entries(w.audio || {}).map(([lang, val]) => [lang, Array.isArray(val) ? val : [val]])
+        )
+    }));
+}
+
+type SelectImagePayload = Pick<ComponentProps<typeof SelectImageQuestion>, 'words' | 'options' | 'correctOption'>;
+
+registerQuestionType<SelectImagePayload, number>({
+    type: 'select_image',
+    schema: ['words', 'options', 'correctOption'],
+    normalize: (question: Question) => ({
+        words: question.words || [],
+        options: question.options,
+        correctOption: question.correctOption,
+    }),
+    component: SelectImageQuestion,
+    grade: (payload, selectedOption) => gradeSelection(selectedOption === payload.correctOption),
+});
+
+type TapWhatYouHearPayload = Pick<ComponentProps<typeof TapWhatYouHearQuestion>, 'words' | 'sentenceWords' | 'options'>;
+
+registerQuestionType<TapWhatYouHearPayload, number[]>({
+    type: 'tap_what_you_hear',
+    schema: ['words', 'sentenceWords', 'options'],
+    normalize: (question: Question) => ({
+        words: question.words || [],
+        sentenceWords: question.sentenceWords || [],
+        options: question.options,
+    }),
+    component: TapWhatYouHearQuestion,
+    grade: (payload, selectedWordIds) => gradeSelection(isWordSequenceCorrect(selectedWordIds, payload.sentenceWords)),
+});
+
+type MatchPairsPayload = Pick<ComponentProps<typeof MatchPairsQuestion>, 'words'>;
+
+registerQuestionType<MatchPairsPayload, number>({
+    type: 'match_pairs',
+    schema: ['words'],
+    normalize: (question: Question) => ({
+        words: question.words || [],
+    }),
+    component: MatchPairsQuestion,
+    grade: (payload, matchedPairs) => gradeSelection(matchedPairs === payload.words.length),
+});
+
+type TypeWhatYouHearPayload = Pick<ComponentProps<typeof TypeWhatYouHearQuestion>, 'words' | 'options'>;
+
+registerQuestionType<TypeWhatYouHearPayload, string>({
+    type: 'type_what_you_hear',
+    schema: ['words', 'options'],
+    normalize: (question: Question) => ({
+        words: question.words || [],
+        options: question.options,
+    }),
+    component: TypeWhatYouHearQuestion,
+    grade: (payload, userInput, languageCode) => {
+        const correctAnswer = payload.options
+            .map(optionId => getWordById(payload.words, optionId)?.translations[languageCode])
+            .filter(Boolean)
+            .join(' ');
+        return gradeTextAnswer(userInput, correctAnswer, languageCode);
+    },
+});
+
+type BlankPayload = Pick<ComponentProps<typeof FillInBlankQuestion>, 'words' | 'sentenceWords' | 'options' | 'blankIndex'>;
+
+function normalizeBlankQuestion(question: Question): BlankPayload {
+    return {
+        words: withAudioLists(question.words || []),
+        sentenceWords: question.sentenceWords || [],
+        options: question.options || [],
+        blankIndex: question.blankIndex ?? 0,
+    };
+}
+
+function gradeBlankQuestion(payload: BlankPayload, userInput: string, languageCode: string) {
+    const { words, sentenceWords, options, blankIndex } = payload;
+    const correctWord = getWordById(words, sentenceWords[blankIndex] ?? options[blankIndex]);
+    return gradeTextAnswer(userInput, correctWord?.translations[languageCode] || '', languageCode);
+}
+
+registerQuestionType<BlankPayload, string>({
+    type: 'fill_in_blank',
+    schema: ['words'],
+    normalize: normalizeBlankQuestion,
+    component: FillInBlankQuestion,
+    grade: gradeBlankQuestion,
+});
+
+registerQuestionType<BlankPayload, string>({
+    type: 'type_missing_word',
+    schema: ['words'],
+    normalize: normalizeBlankQuestion,
+    component: TypeMissingWordQuestion,
+    grade: gradeBlankQuestion,
+});
+
+type CompleteTranslationPayload = Pick<ComponentProps<typeof CompleteTranslationQuestion>, 'words' | 'blankIndex'>;
+
+registerQuestionType<CompleteTranslationPayload, string>({
+    type: 'complete_translation',
+    schema: ['words'],
+    normalize: (question: Question) => ({
+        words: question.words || [],
+        blankIndex: question.blankIndex ?? 0,
+    }),
+    component: CompleteTranslationQuestion,
+    grade: (payload, userInput, languageCode) =>
+        gradeTextAnswer(userInput, payload.words[payload.blankIndex]?.translations[languageCode] || '', languageCode),
+});
+
+type TranslatePayload = Pick<ComponentProps<typeof TranslateQuestion>, 'words' | 'options' | 'direction' | 'sentenceWords'> & {
+    sentenceWordVariants: (string | number)[][];
+    acceptedAnswers: string[];
+};
+
+function sentenceText(words: { id: number; translations: Record<string, string> }[], ids: (string | number)[], languageCode: string) {
+    return ids
+        .map(id => getWordById(words, id)?.translations[languageCode])
+        .filter(Boolean)
+        .join(' ');
+}
+
+// The learner builds the sentence from word tiles, so a near miss is a wrong tile rather
+// than a typo. Any word order or paraphrase the lesson accepts counts, and the feedback
+// shows whichever accepted answer is closest to what was built.
+function gradeTranslation(payload: TranslatePayload, selectedWordIds: number[], languageCode: string) {
+    const answerLanguage = payload.direction === 'from_english' ? languageCode : 'en';
+    const sequences = [payload.sentenceWords || [], ...payload.sentenceWordVariants];
+    const answers = [
+        ...sequences.map(ids => sentenceText(payload.words, ids, answerLanguage)),
+        ...payload.acceptedAnswers,
+    ];
+
+    const matchedSequence = sequences.find(ids => isWordSequenceCorrect(selectedWordIds, ids));
+    if (matchedSequence) {
+        return gradeSelection(true, sentenceText(payload.words, matchedSequence, answerLanguage));
+    }
+
+    const result = gradeTextAnswer(sentenceText(payload.words, selectedWordIds, answerLanguage), answers, answerLanguage);
+    return result.verdict === 'typo' ? gradeSelection(false, result.expected) : result;
+}
+
+registerQuestionType<TranslatePayload, number[]>({
+    type: 'translate',
+    schema: ['words', 'options', 'sentenceWords'],
+    normalize: (question: Question) => ({
+        words: question.words || [],
+        options: question.options,
+        direction: question.direction as 'from_english' | 'to_english',
+        sentenceWords: question.sentenceWords,
+        sentenceWordVariants: question.sentenceWordVariants || [],
+        acceptedAnswers: question.acceptedAnswers || [],
+    }),
+    component: TranslateQuestion,
+    grade: gradeTranslation,
+});
+
+type SpeakSentencePayload = Pick<ComponentProps<typeof SpeakSentenceQuestion>, 'words' | 'sentenceWords'>;
+
+registerQuestionType<SpeakSentencePayload, string>({
+    type: 'speak_sentence',
+    schema: ['words', 'sentenceWords'],
+    normalize: (question: Question) => ({
+        words: question.words || [],
+        sentenceWords: question.sentenceWords || [],
+    }),
+    component: SpeakSentenceQuestion,
+    // The transcript goes through the same normalization and typo tolerance as typed answers
+    grade: (payload, transcript, languageCode) =>
+        gradeTextAnswer(transcript, sentenceText(payload.words, payload.sentenceWords, languageCode), languageCode),
+});
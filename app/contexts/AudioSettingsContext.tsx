@@ -0,0 +1,93 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import React, { createContext, useContext, useEffect, useState } from 'react';
+
+const STORAGE_KEY = 'audioSettings';
+
+/** Speeds a learner can pick for lesson audio, slowest first. */
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25] as const;
+
+export type PlaybackRate = typeof PLAYBACK_RATES[number];
+
+interface AudioSettings {
+    playbackRate: PlaybackRate;
+    /** Play a question's audio once when it opens. */
+    autoPlay: boolean;
+}
+
+interface AudioSettingsContextType extends AudioSettings {
+    setPlaybackRate: (rate: PlaybackRate) => void;
+    setAutoPlay: (autoPlay: boolean) => void;
+}
+
+const DEFAULT_SETTINGS: AudioSettings = {
+    playbackRate: 1,
+    autoPlay: true,
+};
+
+const AudioSettingsContext = createContext<AudioSettingsContextType>({
+    ...DEFAULT_SETTINGS,
+    setPlaybackRate: () => {},
+    setAutoPlay: () => {},
+});
+
+/** The preset below `rate`, used by the slow-audio button, or null at the slowest. */
+export function slowerPlaybackRate(rate: PlaybackRate): PlaybackRate | null {
+    const index = PLAYBACK_RATES.indexOf(rate);
+    return index > 0 ? PLAYBACK_RATES[index - 1] : null;
+}
+
+export function AudioSettingsProvider({ children }: { children: React.ReactNode }) {
+    const [settings, setSettings] = useState<AudioSettings>(DEFAULT_SETTINGS);
+
+    useEffect(() => {
+        loadSettings();
+    }, []);
+
+    const loadSettings = async () => {
+        try {
+            const stored = await AsyncStorage.getItem(STORAGE_KEY);
+            if (stored !== null) {
+                const parsed: Partial<AudioSettings> = JSON.parse(stored);
+                setSettings({
+                    ...DEFAULT_SETTINGS,
+                    ...parsed,
+                    // A rate saved by a build with different presets falls back to normal speed
+                    playbackRate: PLAYBACK_RATES.find(rate => rate === parsed.playbackRate) ?? DEFAULT_SETTINGS.playbackRate,
+                });
+            }
+        } catch (error) {
+            console.error('Error loading audio settings:', error);
+        }
+    };
+
+    const saveSettings = async (next: AudioSettings) => {
+        try {
+            await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+        } catch (error) {
+            console.error('Error saving audio settings:', error);
+        }
+    };
+
+    // Merged into the latest settings, so two changes in a row don't undo each other
+    const updateSettings = (changes: Partial<AudioSettings>) => {
+        setSettings(previous => {
+            const next = { ...previous, ...changes };
+            saveSettings(next);
+            return next;
+        });
+    };
+
+    return (
+        <AudioSettingsContext.Provider
+            value={{
+                ...settings,
+                setPlaybackRate: playbackRate => updateSettings({ playbackRate }),
+                setAutoPlay: autoPlay => updateSettings({ autoPlay }),
+            }}
+        >
+            {children}
+        </AudioSettingsContext.Provider>
+    );
+}
+
+export const useAudioSettings = () => useContext(AudioSettingsContext);
@@ -1,48 +1,107 @@
-import React, { createContext, useContext, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useHearts } from '@/contexts/HeartsContext';
+import { recordAttempt } from '@/services/attemptTelemetry';
+import React, { createContext, useContext, useRef, useState } from 'react';
+import { DiffSegment, GradeVerdict } from '../components/questionGraders';
+
+// What the screen knows about the question on show, for the attempt record
+export interface AttemptContext {
+    questionId: number;
+    questionType: string;
+    lessonId: number | null;
+    language: string;
+    isRetry: boolean;
+}
 
 interface FeedbackContextType {
     isChecked: boolean;
     isCorrect: boolean | null;
     feedbackText: string | undefined;
     correctAnswer: string | undefined;
+    // typo: accepted, but the spelling is off; diff shows where
+    verdict: GradeVerdict | undefined;
+    diff: DiffSegment[] | undefined;
     questionId: string | number;
     setFeedback: (params: {
         isChecked: boolean;
         isCorrect: boolean | null;
         feedbackText?: string;
         correctAnswer?: string;
+        verdict?: GradeVerdict;
+        diff?: DiffSegment[];
+        // The learner's raw answer, recorded with the attempt
+        answer?: unknown;
         questionId: string | number;
     }) => void;
     resetFeedback: () => void;
+    // Starts the answer clock for a question; the next checked answer is recorded against it
+    startAttempt: (context: AttemptContext) => void;
 }
 
 const FeedbackContext = createContext<FeedbackContextType | undefined>(undefined);
 
-export function FeedbackProvider({ children }: { children: React.ReactNode }) {
+// spendsHearts: wrong answers cost a heart (lessons do, practice doesn't)
+export function FeedbackProvider({ children, spendsHearts = false }: { children: React.ReactNode; spendsHearts?: boolean }) {
+    const { loseHeart } = useHearts();
+    const { user } = useAuth();
     const [isChecked, setIsChecked] = useState(false);
     const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
     const [feedbackText, setFeedbackText] = useState<string | undefined>(undefined);
     const [correctAnswer, setCorrectAnswer] = useState<string | undefined>(undefined);
+    const [verdict, setVerdict] = useState<GradeVerdict | undefined>(undefined);
+    const [diff, setDiff] = useState<DiffSegment[] | undefined>(undefined);
     const [questionId, setQuestionId] = useState<string | number>('');
+    const attemptRef = useRef<(AttemptContext & { startedAt: number }) | null>(null);
 
     const setFeedback = ({
         isChecked,
         isCorrect,
         feedbackText,
         correctAnswer,
+        verdict,
+        diff,
+        answer,
         questionId,
     }: {
         isChecked: boolean;
         isCorrect: boolean | null;
         feedbackText?: string;
         correctAnswer?: string;
+        verdict?: GradeVerdict;
+        diff?: DiffSegment[];
+        answer?: unknown;
         questionId: string | number;
     }) => {
         setIsChecked(isChecked);
         setIsCorrect(isCorrect);
         setFeedbackText(feedbackText);
         setCorrectAnswer(correctAnswer);
+        setVerdict(verdict);
+        setDiff(diff);
         setQuestionId(questionId);
+
+        if (isChecked && isCorrect === false && spendsHearts) {
+            loseHeart();
+        }
+
+        const attempt = attemptRef.current;
+        if (isChecked && attempt) {
+            attemptRef.current = null;
+            const { startedAt, ...context } = attempt;
+            if (user?.uid) {
+                recordAttempt(user.uid, {
+                    ...context,
+                    answer: answer ?? null,
+                    isCorrect: isCorrect === true,
+                    verdict,
+                    timeToAnswerMs: Date.now() - startedAt,
+                });
+            }
+        }
+    };
+
+    const startAttempt = (context: AttemptContext) => {
+        attemptRef.current = { ...context, startedAt: Date.now() };
     };
 
     const resetFeedback = () => {
@@ -50,6 +109,8 @@ export function FeedbackProvider({ children }: { children: React.ReactNode }) {
         setIsCorrect(null);
         setFeedbackText(undefined);
         setCorrectAnswer(undefined);
+        setVerdict(undefined);
+        setDiff(undefined);
         setQuestionId('');
     };
 
@@ -60,9 +121,12 @@ export function FeedbackProvider({ children }: { children: React.ReactNode }) {
                 isCorrect,
                 feedbackText,
                 correctAnswer,
+                verdict,
+                diff,
                 questionId,
                 setFeedback,
                 resetFeedback,
+                startAttempt,
             }}
         >
             {children}
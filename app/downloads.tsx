@@ -0,0 +1,437 @@
+import { Paywall } from '@/app/components/Paywall';
+import { LessonHeader } from '@/components/LessonHeader';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useEntitlements } from '@/contexts/EntitlementsContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useDownloads } from '@/hooks/useDownloads';
+import { getLanguages } from '@/services/languageApi';
+import { loadLessons } from '@/services/lessonContentStore';
+import { getMediaSize } from '@/services/mediaCache';
+import {
+    deleteUnitDownload,
+    downloadAllUnits,
+    DownloadedUnit,
+    getDownloadedUnitSize,
+    pauseDownloads,
+    resumeDownloads,
+    retryUnitDownload,
+    setWifiOnly,
+    UnitDownloadJob,
+    UnitDownloadStatus,
+} from '@/services/unitDownloads';
+import { Ionicons } from '@expo/vector-icons';
+import * as FileSystem from 'expo-file-system';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, Switch, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Toast from 'react-native-toast-message';
+
+const JOB_STATUS_LABELS: Record<UnitDownloadStatus, string> = {
+    queued: 'Waiting',
+    downloading: 'Downloading',
+    paused: 'Paused',
+    waitingForWifi: 'Waiting for Wi-Fi',
+    failed: 'Incomplete',
+};
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024 * 1024) {
+        return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    }
+    if (bytes < 1024 * 1024 * 1024) {
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+function unitKey(languageCode: string, unitId: number): string {
+    return `${languageCode}:${unitId}`;
+}
+
+interface StorageSummary {
+    cacheBytes: number;
+    freeBytes: number | null;
+}
+
+export default function DownloadsScreen() {
+    const { languageCode, languageName } = useLocalSearchParams();
+    const router = useRouter();
+    const { colors, isDark } = useTheme();
+    const { features } = useEntitlements();
+    const { units, jobs, isPaused, settings } = useDownloads();
+    const [unitSizes, setUnitSizes] = useState<Record<string, number>>({});
+    const [storage, setStorage] = useState<StorageSummary | null>(null);
+    const [languageNames, setLanguageNames] = useState<Record<string, string>>({});
+    const [isQueueingAll, setIsQueueingAll] = useState(false);
+    const [showPaywall, setShowPaywall] = useState(false);
+
+    // Downloaded units are stored by code; the list of languages gives them their names
+    useEffect(() => {
+        getLanguages()
+            .then(languages => setLanguageNames(Object.fromEntries(languages.map(language => [language.code, language.name]))))
+            .catch(error => console.error('[Downloads] Error loading language names:', error));
+    }, []);
+
+    // Sizes are read from disk again whenever a unit is added or removed
+    useEffect(() => {
+        let cancelled = false;
+        (async () => {
+            try {
+                const sizes = await Promise.all(units.map(getDownloadedUnitSize));
+                const [cacheBytes, freeBytes] = await Promise.all([
+                    getMediaSize(),
+                    FileSystem.getFreeDiskStorageAsync().catch(() => null),
+                ]);
+                if (cancelled) return;
+                setUnitSizes(Object.fromEntries(units.map((unit, index) => [unitKey(unit.languageCode, unit.unitId), sizes[index]])));
+                setStorage({ cacheBytes, freeBytes });
+            } catch (error) {
+                console.error('[Downloads] Error measuring downloads:', error);
+            }
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [units]);
+
+    const nameOf = (code: string) =>
+        languageNames[code] ?? (code === languageCode ? languageName as string : code.toUpperCase());
+
+    const downloadedBytes = Object.values(unitSizes).reduce((total, size) => total + size, 0);
+    const languageCodes = Array.from(new Set([
+        ...(languageCode ? [languageCode as string] : []),
+        ...units.map(unit => unit.languageCode),
+        ...jobs.map(job => job.languageCode),
+    ]));
+
+    const handleDownloadAll = async () => {
+        if (!features.offlineDownloads) {
+            setShowPaywall(true);
+            return;
+        }
+        setIsQueueingAll(true);
+        try {
+            const lessons = await loadLessons(languageCode as string);
+            await downloadAllUnits(languageCode as string, lessons);
+        } catch (error) {
+            console.error('[Downloads] Error queueing units:', error);
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to start the downloads. Please try again',
+                position: 'bottom'
+            });
+        } finally {
+            setIsQueueingAll(false);
+        }
+    };
+
+    const handleDelete = (unit: DownloadedUnit) => {
+        Alert.alert(
+            'Delete download?',
+            `${unit.unitName} will need the internet again until you download it.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Delete',
+                    style: 'destructive',
+                    onPress: () => {
+                        deleteUnitDownload(unit.languageCode, unit.unitId).catch(error =>
+                            console.error('[Downloads] Error deleting unit:', error));
+                    }
+                },
+            ]
+        );
+    };
+
+    const handleCancel = (job: UnitDownloadJob) => {
+        deleteUnitDownload(job.languageCode, job.unitId).catch(error =>
+            console.error('[Downloads] Error cancelling download:', error));
+    };
+
+    const styles = StyleSheet.create({
+        container: {
+            flex: 1,
+        },
+        scrollView: {
+            flex: 1,
+        },
+        card: {
+            backgroundColor: isDark ? colors.surface : '#fff',
+            borderRadius: 18,
+            padding: 16,
+            marginHorizontal: 16,
+            marginTop: 16,
+            gap: 12,
+        },
+        cardTitle: {
+            fontSize: 17,
+            fontWeight: 'bold',
+            color: colors.text,
+        },
+        summaryRow: {
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+        },
+        summaryLabel: {
+            fontSize: 15,
+            color: isDark ? colors.textSecondary : '#64748B',
+        },
+        summaryValue: {
+            fontSize: 15,
+            fontWeight: '600',
+            color: colors.text,
+        },
+        settingRow: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: 12,
+        },
+        settingText: {
+            flex: 1,
+        },
+        settingDescription: {
+            fontSize: 13,
+            color: isDark ? colors.textSecondary : '#64748B',
+            marginTop: 2,
+        },
+        button: {
+            backgroundColor: colors.primary,
+            borderRadius: 28,
+            paddingVertical: 12,
+            alignItems: 'center',
+        },
+        secondaryButton: {
+            backgroundColor: 'transparent',
+            borderWidth: 1,
+            borderColor: colors.primary,
+        },
+        buttonDisabled: {
+            opacity: 0.6,
+        },
+        buttonText: {
+            color: '#FFFFFF',
+            fontSize: 16,
+            fontWeight: '600',
+        },
+        secondaryButtonText: {
+            color: colors.primary,
+        },
+        unitRow: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            gap: 12,
+        },
+        unitText: {
+            flex: 1,
+        },
+        unitName: {
+            fontSize: 16,
+            fontWeight: '600',
+            color: colors.text,
+        },
+        unitDetail: {
+            fontSize: 13,
+            color: isDark ? colors.textSecondary : '#64748B',
+            marginTop: 2,
+        },
+        progressBackground: {
+            height: 6,
+            backgroundColor: isDark ? colors.surfaceHigh : '#E5E7EB',
+            borderRadius: 3,
+            overflow: 'hidden',
+            marginTop: 6,
+        },
+        progressFill: {
+            height: '100%',
+            backgroundColor: colors.primary,
+            borderRadius: 3,
+        },
+        failedText: {
+            fontSize: 13,
+            color: '#DC2626',
+            marginTop: 2,
+        },
+        emptyText: {
+            fontSize: 15,
+            color: isDark ? colors.textSecondary : '#64748B',
+        },
+    });
+
+    const renderJob = (job: UnitDownloadJob) => (
+        <View key={`job-${unitKey(job.languageCode, job.unitId)}`} style={styles.unitRow}>
+            <Ionicons name="cloud-download-outline" size={24} color={colors.primary} />
+            <View style={styles.unitText}>
+                <ThemedText style={styles.unitName}>{job.unitName}</ThemedText>
+                <ThemedText style={styles.unitDetail}>
+                    {JOB_STATUS_LABELS[job.status]}
+                    {job.total > 0 ? ` · ${job.completed} of ${job.total} files` : ''}
+                </ThemedText>
+                {job.failed > 0 && (
+                    <ThemedText style={styles.failedText}>
+                        {job.failed === 1 ? '1 file failed to download' : `${job.failed} files failed to download`}
+                    </ThemedText>
+                )}
+                {job.total > 0 && job.status !== 'failed' && (
+                    <View style={styles.progressBackground}>
+                        <View style={[styles.progressFill, { width: `${(job.completed / job.total) * 100}%` }]} />
+                    </View>
+                )}
+            </View>
+            {job.status === 'failed' && (
+                <Pressable
+                    onPress={() => retryUnitDownload(job.languageCode, job.unitId)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Retry download of ${job.unitName}`}
+                >
+                    <Ionicons name="refresh" size={24} color={colors.primary} />
+                </Pressable>
+            )}
+            <Pressable
+                onPress={() => handleCancel(job)}
+                disabled={job.status === 'downloading'}
+                style={job.status === 'downloading' && styles.buttonDisabled}
+                accessibilityRole="button"
+                accessibilityLabel={`Cancel download of ${job.unitName}`}
+            >
+                <Ionicons name="close-circle-outline" size={24} color={colors.textSecondary} />
+            </Pressable>
+        </View>
+    );
+
+    const renderUnit = (unit: DownloadedUnit) => {
+        const size = unitSizes[unitKey(unit.languageCode, unit.unitId)];
+        return (
+            <View key={unitKey(unit.languageCode, unit.unitId)} style={styles.unitRow}>
+                <Ionicons name="checkmark-circle" size={24} color="#22c55e" />
+                <View style={styles.unitText}>
+                    <ThemedText style={styles.unitName}>{unit.unitName}</ThemedText>
+                    <ThemedText style={styles.unitDetail}>
+                        {size === undefined ? 'Measuring…' : formatBytes(size)}
+                    </ThemedText>
+                </View>
+                <Pressable
+                    onPress={() => handleDelete(unit)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Delete ${unit.unitName}`}
+                >
+                    <Ionicons name="trash-outline" size={22} color="#DC2626" />
+                </Pressable>
+            </View>
+        );
+    };
+
+    return (
+        <SafeAreaView style={{ flex: 1 }} edges={['top', 'left', 'right']}>
+            <ThemedView style={styles.container}>
+                <LessonHeader
+                    title="Downloads"
+                    subText="Lessons you can take offline"
+                    showBackButton={true}
+                    onBackPress={() => router.back()}
+                    topPadding={0}
+                />
+                <ScrollView style={styles.scrollView} contentContainerStyle={{ paddingBottom: 32 }}>
+                    <View style={styles.card}>
+                        <ThemedText style={styles.cardTitle}>Storage</ThemedText>
+                        {storage === null ? (
+                            <ActivityIndicator color={colors.primary} />
+                        ) : (
+                            <>
+                                <View style={styles.summaryRow}>
+                                    <ThemedText style={styles.summaryLabel}>Downloaded units</ThemedText>
+                                    <ThemedText style={styles.summaryValue}>{formatBytes(downloadedBytes)}</ThemedText>
+                                </View>
+                                <View style={styles.summaryRow}>
+                                    <ThemedText style={styles.summaryLabel}>All audio and images</ThemedText>
+                                    <ThemedText style={styles.summaryValue}>{formatBytes(storage.cacheBytes)}</ThemedText>
+                                </View>
+                                {storage.freeBytes !== null && (
+                                    <View style={styles.summaryRow}>
+                                        <ThemedText style={styles.summaryLabel}>Free on this device</ThemedText>
+                                        <ThemedText style={styles.summaryValue}>{formatBytes(storage.freeBytes)}</ThemedText>
+                                    </View>
+                                )}
+                            </>
+                        )}
+                    </View>
+
+                    <View style={styles.card}>
+                        <View style={styles.settingRow}>
+                            <View style={styles.settingText}>
+                                <ThemedText style={styles.unitName}>Download on Wi-Fi only</ThemedText>
+                                <ThemedText style={styles.settingDescription}>
+                                    Saves mobile data. Downloads wait until you're on Wi-Fi
+                                </ThemedText>
+                            </View>
+                            <Switch
+                                value={settings.wifiOnly}
+                                onValueChange={value => { setWifiOnly(value); }}
+                                trackColor={{ true: colors.primary }}
+                                accessibilityLabel="Download on Wi-Fi only"
+                            />
+                        </View>
+                        {jobs.length > 0 && (
+                            <Pressable
+                                style={[styles.button, styles.secondaryButton]}
+                                onPress={() => { if (isPaused) { resumeDownloads(); } else { pauseDownloads(); } }}
+                                accessibilityRole="button"
+                            >
+                                <ThemedText style={[styles.buttonText, styles.secondaryButtonText]}>
+                                    {isPaused ? 'Resume downloads' : 'Pause downloads'}
+                                </ThemedText>
+                            </Pressable>
+                        )}
+                    </View>
+
+                    {languageCodes.map(code => {
+                        const languageUnits = units.filter(unit => unit.languageCode === code);
+                        const languageJobs = jobs.filter(job => job.languageCode === code);
+                        return (
+                            <View key={code} style={styles.card}>
+                                <ThemedText style={styles.cardTitle}>{nameOf(code)}</ThemedText>
+                                {languageJobs.map(renderJob)}
+                                {languageUnits.map(renderUnit)}
+                                {languageUnits.length === 0 && languageJobs.length === 0 && (
+                                    <ThemedText style={styles.emptyText}>No units downloaded yet</ThemedText>
+                                )}
+                                {code === languageCode && (
+                                    <Pressable
+                                        style={[styles.button, isQueueingAll && styles.buttonDisabled]}
+                                        onPress={handleDownloadAll}
+                                        disabled={isQueueingAll}
+                                        accessibilityRole="button"
+                                    >
+                                        {isQueueingAll ? (
+                                            <ActivityIndicator color="#FFFFFF" />
+                                        ) : (
+                                            <ThemedText style={styles.buttonText}>
+                                                {features.offlineDownloads ? 'Download all units' : 'Download all units with Pro'}
+                                            </ThemedText>
+                                        )}
+                                    </Pressable>
+                                )}
+                            </View>
+                        );
+                    })}
+                    {languageCodes.length === 0 && (
+                        <View style={styles.card}>
+                            <ThemedText style={styles.emptyText}>
+                                Units are saved here when you start their lessons, so you can take them offline
+                            </ThemedText>
+                        </View>
+                    )}
+                </ScrollView>
+                {showPaywall && (
+                    <Paywall
+                        onSuccess={() => setShowPaywall(false)}
+                        onClose={() => setShowPaywall(false)}
+                    />
+                )}
+            </ThemedView>
+        </SafeAreaView>
+    );
+}
@@ -1,87 +1,114 @@
 import { LessonHeader } from '@/components/LessonHeader';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
-import { HOST_URL } from '@/config/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { useHearts } from '@/contexts/HeartsContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { NotAuthenticatedError } from '@/services/languageApi';
+import { loadLessonQuestions } from '@/services/lessonContentStore';
+import { invalidateDailyQuota } from '@/services/lessonQuota';
+import { clearLessonSession, loadLessonSession, saveLessonSession } from '@/services/lessonSession';
+import { queueMutation } from '@/services/progressOutbox';
+import { recordAnswer } from '@/services/reviewScheduler';
+import { Question } from '@/types/api';
+import * as Crypto from 'expo-crypto';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import * as SecureStore from 'expo-secure-store';
 import { useEffect, useRef, useState } from 'react';
-import { ActivityIndicator, Animated, InteractionManager, Modal, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import { ActivityIndicator, Animated, InteractionManager, Modal, Pressable, ScrollView, StyleSheet, TextStyle, View, ViewStyle } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { FeedbackButton, FeedbackMessage } from './components/CheckContinueButton';
-import { CompleteTranslationQuestion } from './components/CompleteTranslationQuestion';
-import { FillInBlankQuestion } from './components/FillInBlankQuestion';
-import { MatchPairsQuestion } from './components/MatchPairsQuestion';
-import { SelectImageQuestion } from './components/SelectImageQuestion';
-import { TapWhatYouHearQuestion } from './components/TapWhatYouHearQuestion';
-import { TranslateQuestion } from './components/TranslateQuestion';
-import { TypeMissingWordQuestion } from './components/TypeMissingWordQuestion';
-import { TypeWhatYouHearQuestion } from './components/TypeWhatYouHearQuestion';
+import { HeartsIndicator } from './components/HeartsIndicator';
+import { OutOfHeartsModal } from './components/OutOfHeartsModal';
+import { QuestionView } from './components/QuestionView';
 import { FeedbackProvider, useFeedback } from './contexts/FeedbackContext';
 
-interface Word {
-    id: number;
-    image: string;
-    audio: Record<string, string>;
-    translations: Record<string, string>;
-}
-
-interface Question {
-    id: number;
-    words?: Word[];
-    options: string[];
-    correctOption: number | null;
-    questionOrder: number;
-    type: 'select_image' | 'tap_what_you_hear' | 'match_pairs' | 'type_what_you_hear' | 'fill_in_blank' | 'complete_translation' | 'translate' | 'type_missing_word';
-    blankIndex: number | null;
-    sentenceWords: string[] | null;
-    direction: string | null;
-    matchType?: 'audio' | 'text';
-}
-
 interface IncorrectQuestion {
     question: Question;
     questionId: string | number;
 }
 
-// Add interface for daily lesson tracking
-interface DailyLessonCount {
-    count: number;
-    date: string; // ISO date string (YYYY-MM-DD)
+interface StreakCelebrationProps {
+    visible: boolean;
+    onContinue: () => void;
+    styles: Record<'modalOverlay' | 'streakCelebrationContainer' | 'continueButton' | 'continueButtonPressed', ViewStyle>
+        & Record<'streakTitle' | 'streakSubtitle' | 'streakPoints' | 'continueButtonText', TextStyle>;
 }
 
-// Function to get today's date in YYYY-MM-DD format
-const getTodayString = (): string => {
-    return new Date().toISOString().split('T')[0];
-};
-
-// Function to increment daily lesson count (copied from lessons.tsx)
-const incrementDailyLessonCount = async () => {
-    try {
-        const authData = await SecureStore.getItemAsync('auth');
-        if (!authData) return;
-        const { user } = JSON.parse(authData);
-        const learnerDataResponse = await fetch(`${HOST_URL}/api/language-learners/uid/${user.uid}`);
-        if (!learnerDataResponse.ok) return;
-        const learnerData = await learnerDataResponse.json();
-        if (learnerData.subscription !== 'free') return;
-        const today = getTodayString();
-        const stored = await SecureStore.getItemAsync('dailyLessonCount');
-        let newCount = 1;
-        if (stored) {
-            const parsed: DailyLessonCount = JSON.parse(stored);
-            if (parsed.date === today) {
-                newCount = parsed.count + 1;
-            }
-        }
-        await SecureStore.setItemAsync('dailyLessonCount', JSON.stringify({ count: newCount, date: today }));
-    } catch (error) {
-        console.error('[Lesson] Error saving daily lesson count:', error);
-    }
-};
+// Only shows the celebration; the bonus is queued once by the lesson when the streak is reached
+function StreakCelebration({ visible, onContinue, styles }: StreakCelebrationProps) {
+    const [scale] = useState(new Animated.Value(0));
+    const [rotation] = useState(new Animated.Value(0));
+
+    useEffect(() => {
+        if (!visible) return;
+        scale.setValue(0);
+        Animated.parallel([
+            Animated.spring(scale, {
+                toValue: 1,
+                useNativeDriver: true,
+                tension: 50,
+                friction: 7,
+            }),
+            Animated.sequence([
+                Animated.timing(rotation, {
+                    toValue: 1,
+                    duration: 500,
+                    useNativeDriver: true,
+                }),
+                Animated.timing(rotation, {
+                    toValue: 0,
+                    duration: 500,
+                    useNativeDriver: true,
+                }),
+            ]),
+        ]).start();
+    }, [visible]);
+
+    const spin = rotation.interpolate({
+        inputRange: [0, 1],
+        outputRange: ['0deg', '360deg'],
+    });
+
+    return (
+        <Modal
+            visible={visible}
+            transparent
+            animationType="fade"
+            onRequestClose={onContinue}
+        >
+            <View style={styles.modalOverlay}>
+                <Animated.View
+                    style={[
+                        styles.streakCelebrationContainer,
+                        {
+                            transform: [
+                                { scale },
+                                { rotate: spin },
+                            ],
+                        },
+                    ]}
+                >
+                    <ThemedText style={styles.streakTitle}>🔥 10 IN A ROW! 🔥</ThemedText>
+                    <ThemedText style={styles.streakSubtitle}>You're on fire!</ThemedText>
+                    <ThemedText style={styles.streakPoints}>+5 bonus points</ThemedText>
+                    <Pressable
+                        style={({ pressed }) => [
+                            styles.continueButton,
+                            pressed && styles.continueButtonPressed
+                        ]}
+                        onPress={onContinue}
+                        accessibilityRole="button"
+                    >
+                        <ThemedText style={styles.continueButtonText}>Keep Going!</ThemedText>
+                    </Pressable>
+                </Animated.View>
+            </View>
+        </Modal>
+    );
+}
 
 function LessonContent() {
-    const { lessonId, lessonTitle, languageCode, unitName, lessonNumber } = useLocalSearchParams();
+    const { lessonId, lessonTitle, languageCode, languageName, unitName, lessonNumber, resume } = useLocalSearchParams();
     const router = useRouter();
     const { colors, isDark } = useTheme();
     const [questions, setQuestions] = useState<Question[]>([]);
@@ -89,9 +116,15 @@ function LessonContent() {
     const [error, setError] = useState<string | null>(null);
     const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
     const { isChecked, isCorrect, questionId } = useFeedback();
+    const { hasHearts } = useHearts();
+    const { user } = useAuth();
+    const [showOutOfHearts, setShowOutOfHearts] = useState(false);
     const checkRef = useRef<() => void>(() => { });
     const continueRef = useRef<() => void>(() => { });
     const scrollViewRef = useRef<ScrollView>(null);
+    const answerRecordedRef = useRef(false);
+    // Ties this run of the lesson's points and completion mutations together, so each is sent once
+    const [attemptId] = useState(() => Crypto.randomUUID());
     const [incorrectQuestions, setIncorrectQuestions] = useState<IncorrectQuestion[]>([]);
     const [showReview, setShowReview] = useState(false);
     const [isRetryingIncorrect, setIsRetryingIncorrect] = useState(false);
@@ -100,6 +133,8 @@ function LessonContent() {
     const [showQuitModal, setShowQuitModal] = useState(false);
     const [correctStreak, setCorrectStreak] = useState(0);
     const [showStreakCelebration, setShowStreakCelebration] = useState(false);
+    // Numbers this attempt's streak bonuses, so each is queued exactly once
+    const streakBonusCountRef = useRef(0);
     const [isQuestionAnswered, setIsQuestionAnswered] = useState(false);
 
     const styles = StyleSheet.create({
@@ -116,6 +151,11 @@ function LessonContent() {
             padding: 16,
             gap: 8,
         },
+        progressRow: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            gap: 12,
+        },
         progressBackground: {
             height: 8,
             backgroundColor: isDark ? colors.surfaceHigh : '#E5E7EB',
@@ -448,33 +488,24 @@ function LessonContent() {
         );
     }
 
-    // Function to increment points
+    const requireUid = () => {
+        if (!user) {
+            throw new NotAuthenticatedError();
+        }
+        return user.uid;
+    };
+
+    // Points and progress go through the outbox so a lesson finished offline still counts
     const incrementPoints = async () => {
         try {
-            const authData = await SecureStore.getItemAsync('auth');
-            if (!authData) {
-                console.error('No auth data found');
-                return;
-            }
-            const { user } = JSON.parse(authData);
-            //console.log('User:', user.uid);
-            const response = await fetch(`${HOST_URL}/api/language-learners/${user.uid}/increment-points`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
+            const uid = requireUid();
+            await queueMutation(uid, {
+                kind: 'points',
+                payload: {
                     points: 10,
                     lessonId: Number(lessonId)
-                }),
-            });
-
-            if (!response.ok) {
-                throw new Error('Failed to increment points');
-            }
-
-            const data = await response.json();
-            //console.log('Points incremented:', data);
+                }
+            }, { attemptId });
         } catch (error) {
             console.error('Error incrementing points:', error);
         }
@@ -483,30 +514,15 @@ function LessonContent() {
     // Function to update lesson progress
     const updateLessonProgress = async () => {
         try {
-            const authData = await SecureStore.getItemAsync('auth');
-            if (!authData) {
-                console.error('No auth data found');
-                return;
-            }
-            const { user } = JSON.parse(authData);
-            const response = await fetch(`${HOST_URL}/api/language-learners/${user.uid}/progress`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
+            const uid = requireUid();
+            await queueMutation(uid, {
+                kind: 'lessonProgress',
+                payload: {
                     lessonId: Number(lessonId),
-                    language: languageCode,
+                    language: languageCode as string,
                     status: 'completed'
-                }),
-            });
-
-            if (!response.ok) {
-                throw new Error('Failed to update lesson progress');
-            }
-
-            const data = await response.json();
-            //console.log('Lesson progress updated:', data);
+                }
+            }, { attemptId });
         } catch (error) {
             console.error('Error updating lesson progress:', error);
         }
@@ -522,6 +538,19 @@ function LessonContent() {
         }
     }, [isChecked, isCorrect, questionId, currentQuestionIndex, questions]);
 
+    // Feed every checked answer into the review schedule for this language,
+    // once per check even if the question list changes while feedback is showing
+    useEffect(() => {
+        if (!isChecked) {
+            answerRecordedRef.current = false;
+            return;
+        }
+        if (!answerRecordedRef.current && questionId && questions[currentQuestionIndex]) {
+            answerRecordedRef.current = true;
+            recordAnswer(languageCode as string, questions[currentQuestionIndex], isCorrect === true);
+        }
+    }, [isChecked, isCorrect, questionId, currentQuestionIndex, questions, languageCode]);
+
     // Effect to show review section when all questions are completed
     useEffect(() => {
         if (currentQuestionIndex >= questions.length && questions.length > 0) {
@@ -540,14 +569,30 @@ function LessonContent() {
             //console.log('[Lesson] fetchQuestions called', { lessonId, languageCode });
             try {
                 console.log('[Lesson] fetchQuestions fetching questions for lesson:', lessonId, 'language:', languageCode);
-                const response = await fetch(`${HOST_URL}/api/language-questions/lesson/${lessonId}/language/${languageCode}`);
-                //console.log('[Lesson] fetchQuestions response status:', response.status);
-                const data = await response.json();
-                //console.log('[Lesson] fetchQuestions data:', data);
+                const data = await loadLessonQuestions(lessonId as string, languageCode as string);
                 // Sort questions by questionOrder
                 const sortedQuestions = data.sort((a: Question, b: Question) => a.questionOrder - b.questionOrder);
                 setQuestions(sortedQuestions);
                 setOriginalQuestions(sortedQuestions);
+
+                const session = resume === '1' ? await loadLessonSession(lessonId as string, languageCode as string) : null;
+                if (session) {
+                    // Questions are looked up by id in case the lesson changed since the checkpoint
+                    const byId = (id: number) => sortedQuestions.find(q => q.id === id);
+                    const retryQuestions = session.retryQuestionIds.map(byId).filter((q): q is Question => q !== undefined);
+                    const activeQuestions = session.isRetryingIncorrect ? retryQuestions : sortedQuestions;
+                    setQuestions(activeQuestions);
+                    setCurrentQuestionIndex(Math.min(session.currentQuestionIndex, activeQuestions.length));
+                    setIncorrectQuestions(session.incorrectQuestionIds
+                        .map(byId)
+                        .filter((q): q is Question => q !== undefined)
+                        .map(q => ({ question: q, questionId: String(q.id) })));
+                    setCorrectStreak(session.correctStreak);
+                    setIsRetryingIncorrect(session.isRetryingIncorrect);
+                    setShowReview(session.showReview);
+                } else {
+                    await clearLessonSession(lessonId as string, languageCode as string);
+                }
             } catch (err) {
                 console.error('[Lesson] fetchQuestions error:', err);
                 setError("Sorry, we couldn't load your lesson questions. Please check your internet connection or try again shortly.");
@@ -557,7 +602,31 @@ function LessonContent() {
             }
         }
         fetchQuestions();
-    }, [lessonId, languageCode]);
+    }, [lessonId, languageCode, resume]);
+
+    // Checkpoint the session once each answer has been dealt with (feedback dismissed),
+    // so resuming never replays an answer that was already counted
+    useEffect(() => {
+        if (isLoading || isChecked || showCelebration || questions.length === 0) return;
+        const hasProgress = currentQuestionIndex > 0 || isRetryingIncorrect || showReview || incorrectQuestions.length > 0;
+        if (!hasProgress) return;
+        saveLessonSession({
+            lessonId: lessonId as string,
+            languageCode: languageCode as string,
+            currentQuestionIndex,
+            incorrectQuestionIds: incorrectQuestions.map(q => q.question.id),
+            correctStreak,
+            isRetryingIncorrect,
+            retryQuestionIds: isRetryingIncorrect ? questions.map(q => q.id) : [],
+            showReview,
+        });
+    }, [isLoading, isChecked, showCelebration, questions, currentQuestionIndex, incorrectQuestions, correctStreak, isRetryingIncorrect, showReview, lessonId, languageCode]);
+
+    useEffect(() => {
+        if (showCelebration) {
+            clearLessonSession(lessonId as string, languageCode as string);
+        }
+    }, [showCelebration, lessonId, languageCode]);
 
     const handleRetry = () => {
         setShowReview(false);
@@ -590,16 +659,32 @@ function LessonContent() {
         }
     }, [showReview, incorrectQuestions.length, isRetryingIncorrect]);
 
+    const awardStreakBonus = async () => {
+        streakBonusCountRef.current += 1;
+        try {
+            const uid = requireUid();
+            await queueMutation(uid, {
+                kind: 'points',
+                payload: {
+                    points: 5, // Bonus points for streak
+                    lessonId: Number(lessonId),
+                    streak: true // Flag to indicate this is a streak bonus
+                }
+            }, { attemptId: `${attemptId}:streak:${streakBonusCountRef.current}` });
+        } catch (error) {
+            console.error('Error awarding streak points:', error);
+        }
+    };
+
     // Effect to track correct streak
     useEffect(() => {
         if (isChecked && isCorrect) {
-            setCorrectStreak(prev => {
-                const newStreak = prev + 1;
-                if (newStreak === 10) {
-                    setShowStreakCelebration(true);
-                }
-                return newStreak;
-            });
+            const newStreak = correctStreak + 1;
+            setCorrectStreak(newStreak);
+            if (newStreak === 10) {
+                setShowStreakCelebration(true);
+                awardStreakBonus();
+            }
         } else if (isChecked && !isCorrect) {
             setCorrectStreak(0);
         }
@@ -610,6 +695,10 @@ function LessonContent() {
         continueRef.current?.(); // Reset child state
         setCurrentQuestionIndex(idx => idx + 1); // Move to next question
         setIsQuestionAnswered(false); // Reset isQuestionAnswered for the next question
+        // The session is checkpointed at the next question, so practising first loses nothing
+        if (!hasHearts) {
+            setShowOutOfHearts(true);
+        }
     };
 
     const handleQuit = () => {
@@ -628,259 +717,16 @@ function LessonContent() {
     const renderProgressBar = () => {
         const progress = ((currentQuestionIndex + 1) / questions.length) * 100;
         return (
-            <View style={styles.progressContainer}>
-                <View style={styles.progressBackground}>
+            <View style={[styles.progressContainer, styles.progressRow]}>
+                <View style={[styles.progressBackground, { flex: 1 }]}>
                     <View style={[styles.progressFill, { width: `${progress}%` }]} />
                 </View>
+                <HeartsIndicator />
 
             </View>
         );
     };
 
-    const renderQuestion = (question: Question) => {
-        if (!question) return null;
-
-        switch (question.type) {
-            case 'select_image':
-                return (
-                    <SelectImageQuestion
-                        words={question.words || []}
-                        options={question.options}
-                        correctOption={question.correctOption}
-                        selectedLanguage={languageCode as string}
-                        questionId={String(question.id)}
-                        setOnCheck={fn => { checkRef.current = fn; }}
-                        setOnContinue={fn => { continueRef.current = fn; }}
-                        setIsQuestionAnswered={setIsQuestionAnswered}
-                    />
-                );
-
-            case 'tap_what_you_hear':
-                return (
-                    <TapWhatYouHearQuestion
-                        words={question.words || []}
-                        sentenceWords={question.sentenceWords || []}
-                        options={question.options}
-                        selectedLanguage={languageCode as string}
-                        questionId={String(question.id)}
-                        setOnCheck={fn => { checkRef.current = fn; }}
-                        setOnContinue={fn => { continueRef.current = fn; }}
-                        setIsQuestionAnswered={setIsQuestionAnswered}
-                    />
-                );
-
-            case 'match_pairs':
-                return (
-                    <MatchPairsQuestion
-                        words={question.words || []}
-                        selectedLanguage={languageCode as string}
-                        questionId={String(question.id)}
-                        setOnCheck={fn => { checkRef.current = fn; }}
-                        setOnContinue={fn => { continueRef.current = fn; }}
-                        setIsQuestionAnswered={setIsQuestionAnswered}
-                    />
-                );
-
-            case 'type_what_you_hear':
-                return (
-                    <TypeWhatYouHearQuestion
-                        words={question.words || []}
-                        options={question.options}
-                        selectedLanguage={languageCode as string}
-                        questionId={String(question.id)}
-                        setOnCheck={fn => { checkRef.current = fn; }}
-                        setOnContinue={fn => { continueRef.current = fn; }}
-                        setIsQuestionAnswered={setIsQuestionAnswered}
-                    />
-                );
-
-            case 'fill_in_blank':
-                return (
-                    <FillInBlankQuestion
-                        words={(question.words || []).map(w => ({
-                            ...w,
-                            audio: Object.fromEntries(
-                                Object.entries(w.audio || {}).map(([lang, val]) => [lang, Array.isArray(val) ? val : [val]])
-                            )
-                        }))}
-                        sentenceWords={question.sentenceWords || []}
-                        options={question.options || []}
-                        blankIndex={question.blankIndex ?? 0}
-                        selectedLanguage={languageCode as string}
-                        questionId={String(question.id)}
-                        setOnCheck={fn => { checkRef.current = fn; }}
-                        setOnContinue={fn => { continueRef.current = fn; }}
-                        setIsQuestionAnswered={setIsQuestionAnswered}
-                    />
-                );
-
-            case 'complete_translation':
-                return (
-                    <CompleteTranslationQuestion
-                        words={question.words || []}
-                        selectedLanguage={languageCode as string}
-                        blankIndex={question.blankIndex ?? 0}
-                        questionId={String(question.id)}
-                        setOnCheck={fn => { checkRef.current = fn; }}
-                        setOnContinue={fn => { continueRef.current = fn; }}
-                        setIsQuestionAnswered={setIsQuestionAnswered}
-                    />
-                );
-
-            case 'translate':
-                return (
-                    <TranslateQuestion
-                        words={question.words || []}
-                        options={question.options}
-                        selectedLanguage={languageCode as string}
-                        direction={question.direction as 'from_english' | 'to_english'}
-                        sentenceWords={question.sentenceWords}
-                        questionId={String(question.id)}
-                        setOnCheck={fn => { checkRef.current = fn; }}
-                        setOnContinue={fn => { continueRef.current = fn; }}
-                        setIsQuestionAnswered={setIsQuestionAnswered}
-                    />
-                );
-
-            case 'type_missing_word': {
-                // Map words to match the expected structure for TypeMissingWordQuestion
-                const mappedWords = (question.words || []).map(w => ({
-                    ...w,
-                    audio: Object.fromEntries(
-                        Object.entries(w.audio || {}).map(([lang, val]) => [lang, Array.isArray(val) ? val : [val]])
-                    )
-                }));
-                return (
-                    <TypeMissingWordQuestion
-                        words={mappedWords}
-                        sentenceWords={question.sentenceWords || []}
-                        options={question.options || []}
-                        blankIndex={question.blankIndex ?? 0}
-                        selectedLanguage={languageCode as string}
-                        questionId={String(question.id)}
-                        setOnCheck={fn => { checkRef.current = fn; }}
-                        setOnContinue={fn => { continueRef.current = fn; }}
-                        setIsQuestionAnswered={setIsQuestionAnswered}
-                    />
-                );
-            }
-
-            default:
-                return null;
-        }
-    };
-
-    // Streak Celebration Component
-    function StreakCelebration() {
-        const [scale] = useState(new Animated.Value(0));
-        const [rotation] = useState(new Animated.Value(0));
-
-        useEffect(() => {
-            // Award bonus points when streak celebration is shown
-            const awardStreakPoints = async () => {
-                try {
-                    const authData = await SecureStore.getItemAsync('auth');
-                    if (!authData) {
-                        console.error('No auth data found');
-                        return;
-                    }
-                    const { user } = JSON.parse(authData);
-                    const response = await fetch(`${HOST_URL}/api/language-learners/${user.uid}/increment-points`, {
-                        method: 'POST',
-                        headers: {
-                            'Content-Type': 'application/json',
-                        },
-                        body: JSON.stringify({
-                            points: 5, // Bonus points for streak
-                            lessonId: Number(lessonId),
-                            streak: true // Flag to indicate this is a streak bonus
-                        }),
-                    });
-
-                    if (!response.ok) {
-                        throw new Error('Failed to increment streak points');
-                    }
-
-                    const data = await response.json();
-                    //console.log('Streak bonus points awarded:', data);
-                } catch (error) {
-                    console.error('Error awarding streak points:', error);
-                }
-            };
-
-            if (showStreakCelebration) {
-                awardStreakPoints();
-            }
-
-            Animated.parallel([
-                Animated.spring(scale, {
-                    toValue: 1,
-                    useNativeDriver: true,
-                    tension: 50,
-                    friction: 7,
-                }),
-                Animated.sequence([
-                    Animated.timing(rotation, {
-                        toValue: 1,
-                        duration: 500,
-                        useNativeDriver: true,
-                    }),
-                    Animated.timing(rotation, {
-                        toValue: 0,
-                        duration: 500,
-                        useNativeDriver: true,
-                    }),
-                ]),
-            ]).start();
-        }, [showStreakCelebration]);
-
-        const handleContinue = () => {
-            setShowStreakCelebration(false);
-        };
-
-        const spin = rotation.interpolate({
-            inputRange: [0, 1],
-            outputRange: ['0deg', '360deg'],
-        });
-
-        return (
-            <Modal
-                visible={showStreakCelebration}
-                transparent
-                animationType="fade"
-                onRequestClose={handleContinue}
-            >
-                <View style={styles.modalOverlay}>
-                    <Animated.View
-                        style={[
-                            styles.streakCelebrationContainer,
-                            {
-                                transform: [
-                                    { scale },
-                                    { rotate: spin },
-                                ],
-                            },
-                        ]}
-                    >
-                        <ThemedText style={styles.streakTitle}>🔥 10 IN A ROW! 🔥</ThemedText>
-                        <ThemedText style={styles.streakSubtitle}>You're on fire!</ThemedText>
-                        <ThemedText style={styles.streakPoints}>+5 bonus points</ThemedText>
-                        <Pressable
-                            style={({ pressed }) => [
-                                styles.continueButton,
-                                pressed && styles.continueButtonPressed
-                            ]}
-                            onPress={handleContinue}
-                            accessibilityRole="button"
-                        >
-                            <ThemedText style={styles.continueButtonText}>Keep Going!</ThemedText>
-                        </Pressable>
-                    </Animated.View>
-                </View>
-            </Modal>
-        );
-    }
-
     // CelebrationScreen moved inside LessonContent to access incrementPoints
     function CelebrationScreen() {
         useEffect(() => {
@@ -888,7 +734,8 @@ function LessonContent() {
                 // Increment points and update lesson progress when the celebration screen is shown
                 incrementPoints();
                 updateLessonProgress();
-                incrementDailyLessonCount(); // Only increments for free users
+                // The backend counts the completion against today's quota once it syncs
+                invalidateDailyQuota();
             }
         }, [showCelebration]);
 
@@ -960,7 +807,16 @@ function LessonContent() {
                         {renderProgressBar()}
                     </View>
                     <View style={styles.questionContainer}>
-                        {renderQuestion(questions[currentQuestionIndex])}
+                        <QuestionView
+                            question={questions[currentQuestionIndex]}
+                            languageCode={languageCode as string}
+                            setOnCheck={fn => { checkRef.current = fn; }}
+                            setOnContinue={fn => { continueRef.current = fn; }}
+                            setIsQuestionAnswered={setIsQuestionAnswered}
+                            onSkip={handleContinue}
+                            lessonId={Number(lessonId)}
+                            isRetry={isRetryingIncorrect}
+                        />
                     </View>
                 </ScrollView>
             ) : (
@@ -976,8 +832,23 @@ function LessonContent() {
                     />
                 </SafeAreaView>
             )}
-            <StreakCelebration />
+            <StreakCelebration
+                visible={showStreakCelebration}
+                onContinue={() => setShowStreakCelebration(false)}
+                styles={styles}
+            />
             <CelebrationScreen />
+            <OutOfHeartsModal
+                visible={showOutOfHearts}
+                onPractice={() => {
+                    setShowOutOfHearts(false);
+                    router.replace({ pathname: '/practice', params: { languageCode: languageCode as string, languageName: languageName as string } });
+                }}
+                onClose={() => {
+                    setShowOutOfHearts(false);
+                    router.back();
+                }}
+            />
             <Modal
                 visible={showQuitModal}
                 transparent={true}
@@ -1014,7 +885,7 @@ function LessonContent() {
 export default function LessonScreen() {
     return (
         <SafeAreaView style={{ flex: 1 }} edges={['top', 'left', 'right']}>
-            <FeedbackProvider>
+            <FeedbackProvider spendsHearts>
                 <LessonContent />
             </FeedbackProvider>
         </SafeAreaView>
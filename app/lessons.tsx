@@ -1,31 +1,31 @@
+import { OutOfHeartsModal } from '@/app/components/OutOfHeartsModal';
 import { Paywall } from '@/app/components/Paywall';
 import { UpgradeToProButton } from '@/app/components/UpgradeToProButton';
 import { LessonHeader } from '@/components/LessonHeader';
 import { ThemedText } from '@/components/ThemedText';
-import { HOST_URL } from '@/config/api';
+import { ENTITLEMENT_CONFIG, isHeartsModeEnabled } from '@/config/entitlements';
+import { useAuth } from '@/contexts/AuthContext';
+import { useEntitlements } from '@/contexts/EntitlementsContext';
+import { useHearts } from '@/contexts/HeartsContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useDownloads } from '@/hooks/useDownloads';
 import { analytics } from '@/services/analytics';
+import { getLearnerProgress, NotAuthenticatedError } from '@/services/languageApi';
+import { loadLessons } from '@/services/lessonContentStore';
+import { getDailyQuota, invalidateDailyQuota, isQuotaExhausted } from '@/services/lessonQuota';
+import { clearLessonSession, loadLessonSession, pruneLessonSessions } from '@/services/lessonSession';
+import { getPendingProgressUpdates, queueMutation } from '@/services/progressOutbox';
+import { getDueWordCount } from '@/services/reviewScheduler';
+import { isUnitComplete, queueUnitDownload } from '@/services/unitDownloads';
+import { DailyLessonQuota, Lesson, LessonProgress, LessonProgressUpdate } from '@/types/api';
 import { Ionicons } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useFocusEffect } from '@react-navigation/native';
-import * as FileSystem from 'expo-file-system';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import * as SecureStore from 'expo-secure-store';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { ActivityIndicator, Animated, Image, Modal, Pressable, ScrollView, StyleSheet, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-
-interface Lesson {
-    id: number;
-    title: string;
-    lessonOrder: number;
-    unitId: number;
-    unitName: string;
-    hasLanguageWords: boolean;
-    unitOrder: number;
-    unitDescription?: string;
-}
+import Toast from 'react-native-toast-message';
 
 interface Unit {
     id: number;
@@ -35,82 +35,42 @@ interface Unit {
     unitOrder: number;
 }
 
-interface LessonProgress {
-    id: number;
-    lessonId: number;
-    lessonTitle: string;
-    unitId: number;
-    status: 'started' | 'completed' | 'not_started';
-    lastUpdate: string;
-}
-
-interface UnitResources {
-    audio: string[];
-    images: string[];
-}
-
-interface DownloadProgress {
-    total: number;
-    completed: number;
-}
-
 // Add new interface for tracking current unit
-interface CurrentUnit {
-    id: number;
-    lastAccessed: Date;
-}
-
-// Add interface for daily lesson tracking
-interface DailyLessonCount {
-    count: number;
-    date: string; // ISO date string (YYYY-MM-DD)
-}
-
-interface Learner {
-    id: number;
-    uid: string;
-    name: string;
-    created: string;
-    lastSeen: string;
-    email: string;
-    points: number;
-    streak: number;
-    streakLastUpdated: string;
-    avatar: string;
-    expoPushToken: string;
-    followMeCode: string;
-    version: string;
-    os: string;
-    reminders: boolean;
-    subscription: 'free' | 'premium';
-}
-
 const LESSON_STATUS = {
     completed: { icon: '⭐️', color: '#22c55e', label: 'Perfect!' },
     started: { icon: '✅', color: '#fbbf24', label: 'In Progress' },
     not_started: { icon: '🎯', color: '#38bdf8', label: 'Locked' },
 };
 
-// Helper functions for persistent downloaded unit tracking
-const DOWNLOADED_UNITS_KEY = 'downloadedUnitIds';
-
-const getDownloadedUnitIds = async (): Promise<number[]> => {
-    const stored = await AsyncStorage.getItem(DOWNLOADED_UNITS_KEY);
-    return stored ? JSON.parse(stored) : [];
-};
-
-const addDownloadedUnitId = async (unitId: number) => {
-    const ids = await getDownloadedUnitIds();
-    if (!ids.includes(unitId)) {
-        ids.push(unitId);
-        await AsyncStorage.setItem(DOWNLOADED_UNITS_KEY, JSON.stringify(ids));
-    }
-};
+// Lays progress updates that are still in the outbox over the backend's view.
+// A lesson the backend already has as completed is never moved back to started.
+const mergePendingProgress = (
+    progress: LessonProgress[],
+    pending: LessonProgressUpdate[],
+    lessons: Lesson[]
+): LessonProgress[] => {
+    return pending.reduce((merged, update) => {
+        const existing = merged.find(p => p.lessonId === update.lessonId);
+        if (existing) {
+            if (existing.status === 'completed' || existing.status === update.status) {
+                return merged;
+            }
+            return merged.map(p => p.lessonId === update.lessonId ? { ...p, status: update.status } : p);
+        }
 
-const removeDownloadedUnitId = async (unitId: number) => {
-    const ids = await getDownloadedUnitIds();
-    const newIds = ids.filter(id => id !== unitId);
-    await AsyncStorage.setItem(DOWNLOADED_UNITS_KEY, JSON.stringify(newIds));
+        const lesson = lessons.find(l => l.id === update.lessonId);
+        if (!lesson) {
+            return merged;
+        }
+        return [...merged, {
+            id: 0,
+            lessonId: lesson.id,
+            lessonTitle: lesson.title,
+            unitId: lesson.unitId,
+            status: update.status,
+            lastUpdate: new Date().toISOString()
+        }];
+    }, progress);
 };
 
 export default function LessonsScreen() {
@@ -120,11 +80,9 @@ export default function LessonsScreen() {
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [learnerProgress, setLearnerProgress] = useState<LessonProgress[]>([]);
-    const [downloadedResources, setDownloadedResources] = useState<Set<string>>(new Set());
-    const [downloadProgress, setDownloadProgress] = useState<DownloadProgress | null>(null);
-    const [currentUnit, setCurrentUnit] = useState<CurrentUnit | null>(null);
-    const [learner, setLearner] = useState<Learner | null>(null);
-    const [dailyLessonCount, setDailyLessonCount] = useState<DailyLessonCount>({ count: 0, date: '' });
+    // The unit being downloaded before its lesson opens; its progress comes from the download queue
+    const [preparingUnitId, setPreparingUnitId] = useState<number | null>(null);
+    const [dailyQuota, setDailyQuota] = useState<DailyLessonQuota | null>(null);
     const [showDailyLimitModal, setShowDailyLimitModal] = useState(false);
     const router = useRouter();
     const [showScrollTop, setShowScrollTop] = useState(false);
@@ -132,73 +90,39 @@ export default function LessonsScreen() {
     const fadeAnim = useRef(new Animated.Value(0)).current;
     const [showPaywall, setShowPaywall] = useState(false);
     const [isUpgradeLoading, setIsUpgradeLoading] = useState(false);
-    const [downloadedUnitIds, setDownloadedUnitIds] = useState<number[]>([]);
-
-    // Function to get today's date in YYYY-MM-DD format
-    const getTodayString = (): string => {
-        return new Date().toISOString().split('T')[0];
-    };
-
-    // Function to check and update daily lesson count
+    const downloads = useDownloads();
+    const lessonsRef = useRef<Lesson[]>([]);
+    const [dueWordCount, setDueWordCount] = useState(0);
+    const [resumeLesson, setResumeLesson] = useState<Lesson | null>(null);
+    const { hasHearts } = useHearts();
+    const { tier, features } = useEntitlements();
+    const { user } = useAuth();
+    const uid = user?.uid;
+    const [showOutOfHearts, setShowOutOfHearts] = useState(false);
+    // In hearts mode the daily lesson count doesn't apply, and premium learners have no limit
+    const isDailyLimitReached = !isHeartsModeEnabled() && !features.unlimitedLessons && isQuotaExhausted(dailyQuota);
+
+    // Asks the quota service (cached, backend-authoritative) whether another lesson can be started today
     const checkDailyLessonLimit = useCallback(async () => {
-        if (learner?.subscription !== 'free') {
-            return { canTakeLesson: true, remainingLessons: -1 };
-        }
-
-        const today = getTodayString();
-        
-        // Check if we need to reset the daily count (new day)
-        if (dailyLessonCount.date !== today) {
-            setDailyLessonCount({ count: 0, date: today });
-            return { canTakeLesson: true, remainingLessons: 3 };
-        }
-
-        const remainingLessons = 3 - dailyLessonCount.count;
-        return { canTakeLesson: remainingLessons > 0, remainingLessons };
-    }, [learner?.subscription, dailyLessonCount]);
-
-    // Function to increment daily lesson count
-    const incrementDailyLessonCount = useCallback(async () => {
-        if (learner?.subscription !== 'free') {
-            return;
-        }
-
-        const today = getTodayString();
-        const newCount = dailyLessonCount.date === today ? dailyLessonCount.count + 1 : 1;
-        setDailyLessonCount({ count: newCount, date: today });
-
-        // Store in secure storage for persistence
-        try {
-            await SecureStore.setItemAsync('dailyLessonCount', JSON.stringify({ count: newCount, date: today }));
-        } catch (error) {
-            console.error('[App] Error saving daily lesson count:', error);
-        }
-    }, [learner?.subscription, dailyLessonCount]);
-
-    // Function to load daily lesson count from storage
-    const loadDailyLessonCount = useCallback(async () => {
         try {
-            const stored = await SecureStore.getItemAsync('dailyLessonCount');
-            if (stored) {
-                const parsed: DailyLessonCount = JSON.parse(stored);
-                const today = getTodayString();
-                
-                // Reset count if it's a new day
-                if (parsed.date !== today) {
-                    setDailyLessonCount({ count: 0, date: today });
-                } else {
-                    setDailyLessonCount(parsed);
-                }
+            if (!uid) {
+                throw new NotAuthenticatedError();
             }
+            const quota = await getDailyQuota(uid);
+            setDailyQuota(quota);
+            return { canTakeLesson: !isQuotaExhausted(quota), remainingLessons: quota?.remaining ?? -1 };
         } catch (error) {
-            console.error('[App] Error loading daily lesson count:', error);
+            console.error('[App] Error checking daily lesson quota:', error);
+            return { canTakeLesson: true, remainingLessons: -1 };
         }
-    }, []);
+    }, [uid]);
 
-    // Load daily lesson count on component mount
-    useEffect(() => {
-        loadDailyLessonCount();
-    }, [loadDailyLessonCount]);
+    // Refresh the quota whenever the screen comes back into focus, e.g. after finishing a lesson
+    useFocusEffect(
+        useCallback(() => {
+            checkDailyLessonLimit();
+        }, [checkDailyLessonLimit])
+    );
 
     // Track lessons screen view
     useEffect(() => {
@@ -209,38 +133,10 @@ export default function LessonsScreen() {
             total_lessons: units.reduce((total, unit) => total + unit.lessons.length, 0),
             is_loading: isLoading,
             has_error: !!error,
-            user_subscription: learner?.subscription || 'unknown',
-            daily_lessons_remaining: learner?.subscription === 'free' ? (3 - dailyLessonCount.count) : -1
+            user_subscription: tier,
+            daily_lessons_remaining: dailyQuota?.remaining ?? -1
         });
-    }, [languageCode, languageName, units.length, isLoading, error, learner?.subscription, dailyLessonCount.count]);
-
-    // Function to fetch learner data
-    const fetchLearner = useCallback(async () => {
-        try {
-            const authData = await SecureStore.getItemAsync('auth');
-            if (!authData) {
-                throw new Error('No auth data found');
-            }
-            const { user } = JSON.parse(authData);
-
-            const response = await fetch(`${HOST_URL}/api/language-learners/uid/${user.uid}`);
-            if (!response.ok) {
-                throw new Error('Failed to fetch learner data');
-            }
-
-            const learnerData: Learner = await response.json();
-            setLearner(learnerData);
-        } catch (error) {
-            console.error('[App] Error fetching learner data:', error);
-        }
-    }, []);
-
-    // Use focus effect to fetch learner data when screen comes into focus
-    useFocusEffect(
-        useCallback(() => {
-            fetchLearner();
-        }, [fetchLearner])
-    );
+    }, [languageCode, languageName, units.length, isLoading, error, tier, dailyQuota?.remaining]);
 
     // Function to determine if a unit is locked
     const isUnitLocked = (unitId: number): boolean => {
@@ -270,7 +166,7 @@ export default function LessonsScreen() {
     // Function to determine if a lesson is locked
     const isLessonLocked = (unitId: number, lessonId: number): boolean => {
         // Check for free member restrictions - lock unit 3 lesson 2 and onwards
-        if (learner?.subscription === 'free') {
+        if (!features.allUnits) {
             const unit = units.find(u => u.id === unitId);
             if (unit && unit.unitOrder >= 3) {
                 const lesson = unit.lessons.find(l => l.id === lessonId);
@@ -280,8 +176,7 @@ export default function LessonsScreen() {
             }
 
             // Check daily lesson limit for free users
-            const today = getTodayString();
-            if (dailyLessonCount.date === today && dailyLessonCount.count >= 3) {
+            if (isDailyLimitReached) {
                 return true;
             }
         }
@@ -344,153 +239,53 @@ export default function LessonsScreen() {
         return locked;
     };
 
-    // Function to download a single resource
-    const downloadResource = async (resourceName: string, type: 'audio' | 'image'): Promise<void> => {
-        if (downloadedResources.has(resourceName)) {
-            return;
-        }
-
-        const endpoint = type === 'audio'
-            ? `${HOST_URL}/api/word/audio/get/${resourceName}`
-            : `${HOST_URL}/api/word/image/get/${resourceName}`;
-
-        const fileUri = `${FileSystem.documentDirectory}${type}/${resourceName}`;
-
-        // Check if file already exists
-        try {
-            const fileInfo = await FileSystem.getInfoAsync(fileUri);
-            if (fileInfo.exists) {
-                console.log(`[Audio Download] File already exists: ${resourceName}`);
-                setDownloadedResources(prev => new Set([...prev, resourceName]));
-                setDownloadProgress(prev => prev ? {
-                    ...prev,
-                    completed: prev.completed + 1
-                } : null);
-                return;
-            }
-        } catch (error) {
-            console.error(`[Resource] Error checking file existence for ${type} ${resourceName}:`, error);
-        }
-
-        try {
-            console.log(`[Audio Download] Starting download: ${resourceName} from ${endpoint}`);
-            const downloadResumable = FileSystem.createDownloadResumable(
-                endpoint,
-                fileUri,
-                {}
-            );
-
-            const downloadResult = await downloadResumable.downloadAsync();
-
-            if (!downloadResult) {
-                throw new Error('Download failed - no result returned');
-            }
-
-            if (downloadResult.status === 200) {
-                console.log(`[Audio Download] Successfully downloaded: ${resourceName} to ${fileUri}`);
-                setDownloadedResources(prev => new Set([...prev, resourceName]));
-                setDownloadProgress(prev => prev ? {
-                    ...prev,
-                    completed: prev.completed + 1
-                } : null);
-            } else {
-                console.error(`[Resource] Failed to download ${type} ${resourceName} - Status: ${downloadResult.status}`);
-            }
-        } catch (error) {
-            console.error(`[Resource] Error downloading ${type} ${resourceName}:`, error);
-        }
-    };
-
-    // Function to download all resources for a unit
-    const downloadUnitResources = async (unitId: number) => {
-        try {
-            console.log('[downloadUnitResources] called with unitId:', unitId);
-            // Fetch resource list
-            const response = await fetch(`${HOST_URL}/api/unit-resources/${unitId}/${languageCode}`);
-            if (!response.ok) {
-                console.error(`[Unit ${unitId}] Failed to fetch resource list - Status: ${response.status}`);
-                throw new Error('Failed to fetch resource list');
-            }
-
-            const resources: UnitResources = await response.json();
-            const totalResources = resources.audio.length + resources.images.length;
-
-            console.log(`[Audio Download] Unit ${unitId}: Found ${resources.audio.length} audio files and ${resources.images.length} image files`);
-            console.log(`[Audio Download] Unit ${unitId}: Audio files to download:`, resources.audio);
-
-            // Initialize download progress
-            setDownloadProgress({
-                total: totalResources,
-                completed: 0
-            });
-
-            // Create directories if they don't exist
-            await FileSystem.makeDirectoryAsync(`${FileSystem.documentDirectory}audio`, { intermediates: true });
-            await FileSystem.makeDirectoryAsync(`${FileSystem.documentDirectory}image`, { intermediates: true });
-
-            // Download all resources
-            const downloadPromises = [
-                ...resources.audio.map(audio => downloadResource(audio, 'audio')),
-                ...resources.images.map(image => downloadResource(image, 'image'))
-            ];
-
-            await Promise.all(downloadPromises);
-            console.log(`[Audio Download] Unit ${unitId}: All downloads completed successfully`);
-            setDownloadProgress(null);
-        } catch (error) {
-            console.error(`[Unit ${unitId}] Error in resource download process:`, error);
-            setDownloadProgress(null);
-        }
-    };
-
     // Function to fetch learner progress
     const fetchProgress = useCallback(async () => {
         try {
-            const authData = await SecureStore.getItemAsync('auth');
-            if (!authData) {
-                throw new Error('No auth data found');
+            if (!uid) {
+                throw new NotAuthenticatedError();
             }
-            const { user } = JSON.parse(authData);
-
-            const progressResponse = await fetch(`${HOST_URL}/api/language-learners/${user.uid}/progress/${languageCode}`);
-            if (progressResponse.ok) {
-                const progress: LessonProgress[] = await progressResponse.json();
+            const pending = await getPendingProgressUpdates(uid, languageCode as string);
+            try {
+                const progress = mergePendingProgress(
+                    await getLearnerProgress(uid, languageCode as string),
+                    pending,
+                    lessonsRef.current
+                );
                 setLearnerProgress(progress);
                 return progress;
-            } else if (progressResponse.status !== 404) {
-                throw new Error('Failed to fetch progress');
-            } else {
-                setLearnerProgress([]);
+            } catch (error) {
+                // Offline: keep what we have, plus anything finished since
+                console.error('[App] Error fetching progress:', error);
+                setLearnerProgress(prev => mergePendingProgress(prev, pending, lessonsRef.current));
                 return [];
             }
         } catch (error) {
             console.error('[App] Error fetching progress:', error);
             return [];
         }
-    }, [languageCode]);
+    }, [languageCode, uid]);
 
     // Use focus effect to fetch progress when screen comes into focus
     useFocusEffect(
         useCallback(() => {
             fetchProgress();
-        }, [fetchProgress])
+            getDueWordCount(languageCode as string).then(setDueWordCount);
+        }, [fetchProgress, languageCode])
     );
 
     useEffect(() => {
         async function fetchData() {
             try {
-                // Get learner UID from secure storage
-                const authData = await SecureStore.getItemAsync('auth');
-                if (!authData) {
-                    throw new Error('No auth data found');
+                // Make sure a learner is signed in before loading anything
+                if (!uid) {
+                    throw new NotAuthenticatedError();
                 }
+                pruneLessonSessions();
                 // Fetch lessons first
                 console.log('[fetchData] fetching lessons for language:', languageCode);
-                const lessonsResponse = await fetch(`${HOST_URL}/api/lessons?language=${languageCode}`);
-                if (!lessonsResponse.ok) {
-                    throw new Error('Failed to fetch lessons');
-                }
-                const lessons: Lesson[] = await lessonsResponse.json();
+                const lessons = await loadLessons(languageCode as string);
+                lessonsRef.current = lessons;
 
                 // Fetch initial progress
                 const progress: LessonProgress[] = await fetchProgress();
@@ -529,56 +324,7 @@ export default function LessonsScreen() {
         }
 
         fetchData();
-    }, [languageCode]);
-
-    // Add function to delete resources for a specific unit
-    const deleteUnitResources = async (unitId: number) => {
-        try {
-            // Fetch resource list to know what to delete
-            const response = await fetch(`${HOST_URL}/api/unit-resources/${unitId}/${languageCode}`);
-            if (!response.ok) {
-                console.error(`[Unit ${unitId}] Failed to fetch resource list for cleanup`);
-                return;
-            }
-
-            const resources: UnitResources = await response.json();
-
-            // Delete audio files
-            for (const audioFile of resources.audio) {
-                const fileUri = `${FileSystem.documentDirectory}audio/${audioFile}`;
-                try {
-                    await FileSystem.deleteAsync(fileUri, { idempotent: true });
-                } catch (error) {
-                    console.error(`[Unit ${unitId}] Error deleting audio file ${audioFile}:`, error);
-                }
-            }
-
-            // Delete image files
-            for (const imageFile of resources.images) {
-                const fileUri = `${FileSystem.documentDirectory}image/${imageFile}`;
-                try {
-                    await FileSystem.deleteAsync(fileUri, { idempotent: true });
-                } catch (error) {
-                    console.error(`[Unit ${unitId}] Error deleting image file ${imageFile}:`, error);
-                }
-            }
-
-            // Update downloaded resources state
-            setDownloadedResources(prev => {
-                const newSet = new Set(prev);
-                resources.audio.forEach(audio => newSet.delete(audio));
-                resources.images.forEach(image => newSet.delete(image));
-                return newSet;
-            });
-
-            // Remove from persistent storage
-            await removeDownloadedUnitId(unitId);
-            setDownloadedUnitIds(prev => prev.filter(id => id !== unitId));
-
-        } catch (error) {
-            console.error(`[Unit ${unitId}] Error in resource cleanup:`, error);
-        }
-    };
+    }, [languageCode, uid]);
 
     // Modify handleLessonPress to handle unit changes
     const handleLessonPress = async (lesson: Lesson) => {
@@ -592,15 +338,31 @@ export default function LessonsScreen() {
             unit_order: lesson.unitOrder,
             language_code: languageCode,
             language_name: languageName,
-            user_subscription: learner?.subscription || 'unknown',
-            daily_lessons_remaining: learner?.subscription === 'free' ? (3 - dailyLessonCount.count) : -1,
+            user_subscription: tier,
+            daily_lessons_remaining: dailyQuota?.remaining ?? -1,
             is_unit_locked: isUnitLocked(lesson.unitId),
             is_lesson_locked: isLessonLocked(lesson.unitId, lesson.id),
             lesson_progress: getLessonProgress(lesson.id)?.status || 'not_started'
         });
 
-        // Check daily lesson limit for free users
-        if (learner?.subscription === 'free') {
+        // A lesson left part way through can be picked up again
+        const session = await loadLessonSession(lesson.id, languageCode as string);
+        if (session) {
+            setResumeLesson(lesson);
+            return;
+        }
+
+        await openLesson(lesson, false);
+    };
+
+    const openLesson = async (lesson: Lesson, resume: boolean) => {
+        if (isHeartsModeEnabled()) {
+            if (!hasHearts) {
+                setShowOutOfHearts(true);
+                return;
+            }
+        } else if (!features.unlimitedLessons) {
+            // Check the daily lesson limit; the backend decides who has one
             const { canTakeLesson } = await checkDailyLessonLimit();
             if (!canTakeLesson) {
                 // Track daily limit hit
@@ -609,84 +371,50 @@ export default function LessonsScreen() {
                     language_name: languageName,
                     lesson_id: lesson.id,
                     lesson_title: lesson.title,
-                    daily_lessons_completed: dailyLessonCount.count,
-                    user_subscription: learner?.subscription || 'free'
+                    daily_lessons_completed: dailyQuota?.used ?? 0,
+                    user_subscription: tier
                 });
                 setShowDailyLimitModal(true);
                 return;
             }
         }
 
-        // Check if we're switching units
-        if (currentUnit && currentUnit.id !== lesson.unitId) {
-            // Delete resources from the old unit
-            await deleteUnitResources(currentUnit.id);
-            await removeDownloadedUnitId(currentUnit.id);
-            setDownloadedUnitIds(prev => prev.filter(id => id !== currentUnit.id));
-            // Update current unit
-            setCurrentUnit({
-                id: lesson.unitId,
-                lastAccessed: new Date()
-            });
-        } else if (!currentUnit) {
-            // First time accessing a unit
-            setCurrentUnit({
-                id: lesson.unitId,
-                lastAccessed: new Date()
-            });
-        }
-
-        // Download resources for the new unit if not already downloaded
-        const shouldDownload = !downloadedUnitIds.includes(lesson.unitId);
-        console.log('[handleLessonPress] shouldDownload:', shouldDownload);
-        console.log('[handleLessonPress] downloadedUnitIds:', downloadedUnitIds);
+        // Download resources for the unit if not already downloaded. Earlier
+        // units stay cached; the media cache evicts what hasn't been used lately
+        // Units downloaded by older versions have media but no lesson content
+        const shouldDownload = !(await isUnitComplete(languageCode as string, lesson.unitId, lessonsRef.current));
         if (shouldDownload) {
-            try {   
-                await downloadUnitResources(lesson.unitId);
-                await addDownloadedUnitId(lesson.unitId);
-                setDownloadedUnitIds(prev => [...prev, lesson.unitId]);
-            } catch (error) {
-                console.error('[App] Error downloading resources for new unit:', error);
-                // Continue with navigation even if download fails
+            setPreparingUnitId(lesson.unitId);
+            // Paused, waiting for Wi-Fi or failed: the lesson still opens and streams what it needs
+            const outcome = await queueUnitDownload(
+                languageCode as string,
+                { id: lesson.unitId, name: lesson.unitName },
+                lessonsRef.current
+            );
+            setPreparingUnitId(null);
+            if (outcome === 'failed') {
+                Toast.show({
+                    type: 'error',
+                    text1: 'Some audio and images didn\'t download',
+                    text2: 'This unit needs the internet. You can retry from Downloads',
+                    position: 'bottom'
+                });
             }
         }
 
         // Rest of the existing handleLessonPress code...
         try {
-            const authData = await SecureStore.getItemAsync('auth');
-            if (!authData) {
-                throw new Error('No auth data found');
-            }
-            const { user } = JSON.parse(authData);
-
-            const progressResponse = await fetch(`${HOST_URL}/api/language-learners/${user.uid}/progress`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    lessonId: lesson.id,
-                    language: languageCode,
-                    status: 'started'
-                })
-            });
-
-            if (!progressResponse.ok) {
-                throw new Error('Failed to update progress');
+            if (!uid) {
+                throw new NotAuthenticatedError();
             }
+            const update: LessonProgressUpdate = {
+                lessonId: lesson.id,
+                language: languageCode as string,
+                status: 'started'
+            };
+            await queueMutation(uid, { kind: 'lessonProgress', payload: update });
 
-            const updatedProgress = await progressResponse.json();
-
-            setLearnerProgress(prev => {
-                const existingProgress = prev.find(p => p.lessonId === lesson.id);
-                if (existingProgress) {
-                    if (existingProgress.status === 'completed') {
-                        return prev;
-                    }
-                    return prev.map(p => p.lessonId === lesson.id ? updatedProgress : p);
-                }
-                return [...prev, updatedProgress];
-            });
+            setLearnerProgress(prev => mergePendingProgress(prev, [update], [lesson]));
         } catch (error) {
             console.error('[App] Error updating learner progress:', error);
         }
@@ -698,12 +426,24 @@ export default function LessonsScreen() {
                 lessonId: lesson.id,
                 lessonTitle: lesson.title,
                 languageCode: languageCode as string,
+                languageName: languageName as string,
                 unitName: lesson.unitName,
                 lessonNumber: lesson.lessonOrder,
+                ...(resume ? { resume: '1' } : {}),
             }
         });
     };
 
+    const handleResumeChoice = async (resume: boolean) => {
+        const lesson = resumeLesson;
+        setResumeLesson(null);
+        if (!lesson) return;
+        if (!resume) {
+            await clearLessonSession(lesson.id, languageCode as string);
+        }
+        await openLesson(lesson, resume);
+    };
+
     const getLessonProgress = (lessonId: number) => {
         return learnerProgress.find(p => p.lessonId === lessonId);
     };
@@ -744,9 +484,7 @@ export default function LessonsScreen() {
         const { icon, color, label } = LESSON_STATUS[status];
 
         // Check if this lesson is locked due to daily limit
-        const isDailyLimitLocked = learner?.subscription === 'free' && 
-            dailyLessonCount.date === getTodayString() && 
-            dailyLessonCount.count >= 3;
+        const isDailyLimitLocked = isDailyLimitReached;
 
         // Theme-aware colors
         const cardBg = locked
@@ -799,16 +537,7 @@ export default function LessonsScreen() {
         level: number;
     }) {
         const percent = total > 0 ? completed / total : 0;
-        const [dailyLimitInfo, setDailyLimitInfo] = useState<{ remainingLessons: number }>({ remainingLessons: -1 });
-        
-        // Check daily limit on component mount and when learner changes
-        useEffect(() => {
-            const checkLimit = async () => {
-                const result = await checkDailyLessonLimit();
-                setDailyLimitInfo({ remainingLessons: result.remainingLessons });
-            };
-            checkLimit();
-        }, [learner?.subscription, dailyLessonCount]);
+        const remainingLessons = dailyQuota?.remaining ?? -1;
         
         return (
             <View style={styles.progressCard}>
@@ -825,11 +554,11 @@ export default function LessonsScreen() {
                 <ThemedText style={styles.progressCardSubtext}>
                     {completed} of {total} levels completed
                 </ThemedText>
-                {learner?.subscription === 'free' && dailyLimitInfo.remainingLessons >= 0 && (
+                {remainingLessons >= 0 && (
                     <View style={styles.dailyLimitContainer}>
                         <Ionicons name="time-outline" size={16} color={colors.primary} />
                         <ThemedText style={styles.dailyLimitText}>
-                            {dailyLimitInfo.remainingLessons} free lessons remaining today
+                            {remainingLessons} free lessons remaining today
                         </ThemedText>
                         <ThemedText style={{ color: colors.textSecondary, fontSize: 13, textAlign: 'center', marginTop: 8, marginBottom: 4 }}>
                           Unlock unlimited lessons, advanced analytics, exclusive content, and more with Pro!
@@ -841,7 +570,7 @@ export default function LessonsScreen() {
                                     analytics.track('languages_upgrade_from_progress_card', {
                                         language_code: languageCode,
                                         language_name: languageName,
-                                        daily_lessons_remaining: dailyLimitInfo.remainingLessons,
+                                        daily_lessons_remaining: remainingLessons,
                                         trigger: 'progress_card'
                                     });
                                     setIsUpgradeLoading(true);
@@ -858,7 +587,7 @@ export default function LessonsScreen() {
 
     function UnitCard({ unit }: { unit: Unit }) {
         const isLocked = isUnitLocked(unit.id);
-        const isPremiumLocked = learner?.subscription === 'free' && unit.unitOrder > 2;
+        const isPremiumLocked = !features.allUnits && unit.unitOrder > 2;
 
         return (
             <View style={styles.unitCardWrapper}>
@@ -892,6 +621,11 @@ export default function LessonsScreen() {
 
     // Calculate overall progress above the return statement
     const allLessons = units.flatMap(u => u.lessons);
+    const preparingJob = downloads.jobs.find(job =>
+        job.languageCode === languageCode && job.unitId === preparingUnitId);
+    const downloadedUnitCount = downloads.units.filter(unit => unit.languageCode === languageCode).length;
+    // The file count is known once the unit's resource list is in
+    const preparedFraction = preparingJob && preparingJob.total > 0 ? preparingJob.completed / preparingJob.total : 0;
     const completedLessons = allLessons.filter(l => {
         const progress = getLessonProgress(l.id);
         return progress?.status === 'completed';
@@ -916,7 +650,7 @@ export default function LessonsScreen() {
                             Daily Limit Reached! 🕐
                         </ThemedText>
                         <ThemedText style={styles.dailyLimitModalDescription}>
-                            You've completed your 3 free lessons for today. Come back tomorrow for more learning, or upgrade to Premium for unlimited access!
+                            You've completed your {dailyQuota?.limit ?? ENTITLEMENT_CONFIG.tiers.free.dailyLessonLimit} free lessons for today. Come back tomorrow for more learning, or upgrade to Premium for unlimited access!
                         </ThemedText>
                         <View style={styles.dailyLimitModalButtons}>
                             <ThemedText style={{ color: colors.textSecondary, fontSize: 13, textAlign: 'center', marginBottom: 8, flex: 1 }}>
@@ -928,8 +662,8 @@ export default function LessonsScreen() {
                                     analytics.track('languages_daily_limit_dismissed', {
                                         language_code: languageCode,
                                         language_name: languageName,
-                                        daily_lessons_completed: dailyLessonCount.count,
-                                        user_subscription: learner?.subscription || 'free'
+                                        daily_lessons_completed: dailyQuota?.used ?? 0,
+                                        user_subscription: tier
                                     });
                                     setShowDailyLimitModal(false);
                                 }}
@@ -944,7 +678,7 @@ export default function LessonsScreen() {
                                     analytics.track('languages_upgrade_from_daily_limit', {
                                         language_code: languageCode,
                                         language_name: languageName,
-                                        daily_lessons_completed: dailyLessonCount.count,
+                                        daily_lessons_completed: dailyQuota?.used ?? 0,
                                         trigger: 'daily_limit_modal'
                                     });
                                     setShowDailyLimitModal(false);
@@ -960,16 +694,50 @@ export default function LessonsScreen() {
         );
     }
 
-    // Function to load downloaded unit IDs from AsyncStorage
-    const loadDownloadedUnitIds = useCallback(async () => {
-        const ids = await getDownloadedUnitIds();
-        setDownloadedUnitIds(ids);
-    }, []);
-
-    // Load downloaded unit IDs on component mount
-    useEffect(() => {
-        loadDownloadedUnitIds();
-    }, [loadDownloadedUnitIds]);
+    function ResumeLessonModal() {
+        return (
+            <Modal
+                visible={resumeLesson !== null}
+                transparent
+                animationType="fade"
+                onRequestClose={() => setResumeLesson(null)}
+            >
+                <View style={styles.modalOverlay}>
+                    <View style={styles.dailyLimitModalContainer}>
+                        <View style={styles.dailyLimitIconContainer}>
+                            <Ionicons name="play-forward" size={48} color={colors.buttonText} />
+                        </View>
+                        <ThemedText style={styles.dailyLimitModalTitle}>
+                            Welcome back!
+                        </ThemedText>
+                        <ThemedText style={styles.dailyLimitModalDescription}>
+                            You didn't finish {resumeLesson?.title ?? 'this lesson'} last time.
+                        </ThemedText>
+                        <View style={styles.dailyLimitModalButtons}>
+                            <Pressable
+                                style={[styles.dailyLimitButton, styles.dailyLimitButtonSecondary]}
+                                onPress={() => handleResumeChoice(false)}
+                                accessibilityRole="button"
+                            >
+                                <ThemedText style={styles.dailyLimitButtonTextSecondary}>
+                                    Start over
+                                </ThemedText>
+                            </Pressable>
+                            <Pressable
+                                style={[styles.dailyLimitButton, styles.dailyLimitButtonPrimary, { flex: 1, marginLeft: 12 }]}
+                                onPress={() => handleResumeChoice(true)}
+                                accessibilityRole="button"
+                            >
+                                <ThemedText style={styles.dailyLimitButtonTextPrimary}>
+                                    Resume where you left off
+                                </ThemedText>
+                            </Pressable>
+                        </View>
+                    </View>
+                </View>
+            </Modal>
+        );
+    }
 
     const styles = StyleSheet.create({
         container: {
@@ -1207,6 +975,29 @@ export default function LessonsScreen() {
             marginTop: 2,
             fontWeight: '500',
         },
+        practiceCard: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            backgroundColor: isDark ? colors.surface : '#fff',
+            borderRadius: 18,
+            padding: 16,
+            marginHorizontal: 16,
+            marginBottom: 8,
+            shadowColor: '#000',
+            shadowOffset: { width: 0, height: 2 },
+            shadowOpacity: 0.08,
+            shadowRadius: 8,
+            elevation: 2,
+        },
+        practiceCardTextContainer: {
+            flex: 1,
+            marginLeft: 12,
+        },
+        practiceCardTitle: {
+            fontSize: 17,
+            fontWeight: 'bold',
+            color: colors.text,
+        },
         unitCard: {
             flexDirection: 'row',
             alignItems: 'center',
@@ -1390,7 +1181,7 @@ export default function LessonsScreen() {
                     topPadding={0} // Let SafeAreaView handle the top padding
                 />
                 {/* Inline download progress UI instead of Modal */}
-                {downloadProgress !== null && (
+                {preparingUnitId !== null && (
                     <View style={styles.modalView}>
                         <View style={styles.downloadProgressContainer}>
                             <Image 
@@ -1402,14 +1193,14 @@ export default function LessonsScreen() {
                                     Getting things ready...
                                 </ThemedText>
                                 <ThemedText style={styles.downloadProgressCount}>
-                                    {Math.round((downloadProgress.completed / downloadProgress.total) * 100)}%
+                                    {Math.round(preparedFraction * 100)}%
                                 </ThemedText>
                             </View>
                             <View style={styles.progressBarContainer}>
                                 <View
                                     style={[
                                         styles.progressBar,
-                                        { width: `${(downloadProgress.completed / downloadProgress.total) * 100}%` }
+                                        { width: `${preparedFraction * 100}%` }
                                     ]}
                                 />
                             </View>
@@ -1437,6 +1228,42 @@ export default function LessonsScreen() {
                                     scrollEventThrottle={16}
                                 >
                                     <ProgressCard completed={completedLessons} total={allLessons.length} level={currentLevel} />
+                                    {dueWordCount > 0 && (
+                                        <Pressable
+                                            style={({ pressed }) => [styles.practiceCard, pressed && { opacity: 0.9 }]}
+                                            onPress={() => router.push({
+                                                pathname: '/practice',
+                                                params: { languageCode: languageCode as string, languageName: languageName as string }
+                                            })}
+                                            accessibilityRole="button"
+                                        >
+                                            <Ionicons name="refresh-circle" size={32} color={colors.primary} />
+                                            <View style={styles.practiceCardTextContainer}>
+                                                <ThemedText style={styles.practiceCardTitle}>Practice</ThemedText>
+                                                <ThemedText style={styles.progressCardSubtext}>
+                                                    {dueWordCount === 1 ? '1 word is due for review' : `${dueWordCount} words are due for review`}
+                                                </ThemedText>
+                                            </View>
+                                            <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+                                        </Pressable>
+                                    )}
+                                    <Pressable
+                                        style={({ pressed }) => [styles.practiceCard, pressed && { opacity: 0.9 }]}
+                                        onPress={() => router.push({
+                                            pathname: '/downloads',
+                                            params: { languageCode: languageCode as string, languageName: languageName as string }
+                                        })}
+                                        accessibilityRole="button"
+                                    >
+                                        <Ionicons name="cloud-download" size={32} color={colors.primary} />
+                                        <View style={styles.practiceCardTextContainer}>
+                                            <ThemedText style={styles.practiceCardTitle}>Downloads</ThemedText>
+                                            <ThemedText style={styles.progressCardSubtext}>
+                                                {downloadedUnitCount === 1 ? '1 unit saved for offline' : `${downloadedUnitCount} units saved for offline`}
+                                            </ThemedText>
+                                        </View>
+                                        <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+                                    </Pressable>
                                     {units.map((unit) => {
                                         const unitLocked = isUnitLocked(unit.id);
                                         // Calculate progress for this unit
@@ -1490,12 +1317,26 @@ export default function LessonsScreen() {
                     </>
                 )}
                 <DailyLimitModal />
+                <ResumeLessonModal />
+                <OutOfHeartsModal
+                    visible={showOutOfHearts}
+                    onPractice={() => {
+                        setShowOutOfHearts(false);
+                        router.push({
+                            pathname: '/practice',
+                            params: { languageCode: languageCode as string, languageName: languageName as string }
+                        });
+                    }}
+                    onClose={() => setShowOutOfHearts(false)}
+                />
                 {showPaywall && (
                     <Paywall
                         onSuccess={() => {
                             setShowPaywall(false);
                             setIsUpgradeLoading(false);
-                            // Optionally refresh data after upgrade
+                            // The Paywall has already refreshed entitlements; the quota may have changed with them
+                            invalidateDailyQuota();
+                            checkDailyLessonLimit();
                         }}
                         onClose={() => {
                             setShowPaywall(false);
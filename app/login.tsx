@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { StyleSheet, TouchableOpacity, TextInput, View, ScrollView, KeyboardAvoidingView, Platform } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -7,6 +7,9 @@ import { router } from 'expo-router';
 import Toast from 'react-native-toast-message';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
+import { GuestCredentials, getGuestCredentials } from '@/services/guestAccount';
+import { AccountLinkRequiredError, ensureLanguageLearner, isAppleSignInAvailable, SocialProvider } from '@/services/socialAuth';
+import { PhoneVerification, PhoneVerificationResult } from './components/PhoneVerification';
 import Constants from 'expo-constants';
 
 export default function Login() {
@@ -14,7 +17,18 @@ export default function Login() {
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
-  const { signIn } = useAuth();
+  const [isAppleAvailable, setIsAppleAvailable] = useState(false);
+  const [usePhoneCode, setUsePhoneCode] = useState(false);
+  // Kept on this device when a guest's session expires, so they can get back in
+  const [guestCredentials, setGuestCredentials] = useState<GuestCredentials | null>(null);
+  const { status, signIn, signInWithGoogle, signInWithApple } = useAuth();
+
+  useEffect(() => {
+    if (Platform.OS === 'ios') {
+      isAppleSignInAvailable().then(setIsAppleAvailable).catch(() => setIsAppleAvailable(false));
+    }
+    getGuestCredentials().then(setGuestCredentials);
+  }, []);
 
   const validateInput = (input: string): { isValid: boolean; email: string } => {
     // Check if input is a valid email
@@ -79,6 +93,62 @@ export default function Login() {
     }
   };
 
+  const handleGuestLogin = async () => {
+    if (!guestCredentials) return;
+    setIsLoading(true);
+    try {
+      await signIn(guestCredentials.email, guestCredentials.password);
+    } catch (error: any) {
+      console.error('Guest login error:', error.code, error.message);
+      Toast.show({
+        type: 'error',
+        text1: 'Login Failed',
+        text2: 'Could not sign in to your guest account. Please try again.',
+        position: 'bottom'
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Someone new to the app can sign in with a code straight away; they get a learner with default details
+  const handlePhoneVerified = async ({ user, isNewUser }: PhoneVerificationResult) => {
+    if (!isNewUser) return;
+    try {
+      await ensureLanguageLearner(user, null);
+    } catch (error) {
+      console.error('Error creating learner for phone sign-in:', error);
+    }
+  };
+
+  const handleSocialLogin = async (provider: SocialProvider) => {
+    setIsLoading(true);
+    try {
+      await (provider === 'google' ? signInWithGoogle() : signInWithApple());
+    } catch (error) {
+      if (error instanceof AccountLinkRequiredError) {
+        // Signing in with the password next links this provider to the existing account
+        setEmailOrPhone(error.email);
+        Toast.show({
+          type: 'info',
+          text1: 'Account already exists',
+          text2: error.message,
+          position: 'bottom'
+        });
+        return;
+      }
+      console.error('Social login error:', error);
+      Toast.show({
+        type: 'error',
+        text1: 'Login Failed',
+        text2: `Could not sign in with ${provider === 'google' ? 'Google' : 'Apple'}. Please try again.`,
+        position: 'bottom'
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <LinearGradient
@@ -101,51 +171,111 @@ export default function Login() {
               </View>
 
               <View style={styles.form}>
-                <TextInput
-                  style={styles.input}
-                  placeholder="Email or Phone Number"
-                  placeholderTextColor="#94A3B8"
-                  value={emailOrPhone}
-                  onChangeText={setEmailOrPhone}
-                  autoCapitalize="none"
-                  keyboardType="email-address"
-                  testID="email-input"
-                  maxLength={50}
-                />
-                <View style={styles.passwordContainer}>
-                  <TextInput
-                    style={[styles.input, styles.passwordInput]}
-                    placeholder="Password"
-                    placeholderTextColor="#94A3B8"
-                    value={password}
-                    onChangeText={setPassword}
-                    secureTextEntry={!showPassword}
-                    testID="password-input"
-                    maxLength={50}
-                  />
+                {status === 'expired' && (
+                  <View style={styles.sessionExpiredBanner} testID="session-expired-banner">
+                    <ThemedText style={styles.sessionExpiredText}>Your session has expired. Please sign in again.</ThemedText>
+                  </View>
+                )}
+                {usePhoneCode ? (
+                  <PhoneVerification onVerified={handlePhoneVerified} verifyLabel="Start Learning →" />
+                ) : (
+                  <>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="Email or Phone Number"
+                      placeholderTextColor="#94A3B8"
+                      value={emailOrPhone}
+                      onChangeText={setEmailOrPhone}
+                      autoCapitalize="none"
+                      keyboardType="email-address"
+                      testID="email-input"
+                      maxLength={50}
+                    />
+                    <View style={styles.passwordContainer}>
+                      <TextInput
+                        style={[styles.input, styles.passwordInput]}
+                        placeholder="Password"
+                        placeholderTextColor="#94A3B8"
+                        value={password}
+                        onChangeText={setPassword}
+                        secureTextEntry={!showPassword}
+                        testID="password-input"
+                        maxLength={50}
+                      />
+                      <TouchableOpacity
+                        style={styles.eyeIcon}
+                        onPress={() => setShowPassword(!showPassword)}
+                        testID="toggle-password-visibility"
+                      >
+                        <Ionicons
+                          name={showPassword ? "eye-off" : "eye"}
+                          size={24}
+                          color="#94A3B8"
+                        />
+                      </TouchableOpacity>
+                    </View>
+                    <TouchableOpacity
+                      style={[styles.button, isLoading && styles.buttonDisabled]}
+                      onPress={handleLogin}
+                      disabled={isLoading}
+                      testID="login-button"
+                    >
+                      <ThemedText style={styles.buttonText}>
+                        {isLoading ? 'Signing in...' : 'Start Learning →'}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  </>
+                )}
+
+                <TouchableOpacity
+                  style={[styles.linkButton, styles.phoneCodeToggle]}
+                  onPress={() => setUsePhoneCode(!usePhoneCode)}
+                  testID="toggle-phone-login-button"
+                >
+                  <ThemedText style={styles.linkText}>
+                    {usePhoneCode ? 'Sign in with email and password' : 'Sign in with an SMS code instead'}
+                  </ThemedText>
+                </TouchableOpacity>
+
+                {guestCredentials && (
                   <TouchableOpacity
-                    style={styles.eyeIcon}
-                    onPress={() => setShowPassword(!showPassword)}
-                    testID="toggle-password-visibility"
+                    style={[styles.linkButton, styles.guestLoginLink]}
+                    onPress={handleGuestLogin}
+                    disabled={isLoading}
+                    testID="guest-login-button"
                   >
-                    <Ionicons
-                      name={showPassword ? "eye-off" : "eye"}
-                      size={24}
-                      color="#94A3B8"
-                    />
+                    <ThemedText style={styles.linkText}>Continue as guest</ThemedText>
                   </TouchableOpacity>
+                )}
+
+                <View style={styles.dividerContainer}>
+                  <View style={styles.dividerLine} />
+                  <ThemedText style={styles.dividerText}>or</ThemedText>
+                  <View style={styles.dividerLine} />
                 </View>
+
                 <TouchableOpacity
-                  style={[styles.button, isLoading && styles.buttonDisabled]}
-                  onPress={handleLogin}
+                  style={[styles.socialButton, isLoading && styles.buttonDisabled]}
+                  onPress={() => handleSocialLogin('google')}
                   disabled={isLoading}
-                  testID="login-button"
+                  testID="google-login-button"
                 >
-                  <ThemedText style={styles.buttonText}>
-                    {isLoading ? 'Signing in...' : 'Start Learning →'}
-                  </ThemedText>
+                  <Ionicons name="logo-google" size={20} color="#1B1464" />
+                  <ThemedText style={styles.socialButtonText}>Continue with Google</ThemedText>
                 </TouchableOpacity>
 
+                {isAppleAvailable && (
+                  <TouchableOpacity
+                    style={[styles.socialButton, styles.appleButton, isLoading && styles.buttonDisabled]}
+                    onPress={() => handleSocialLogin('apple')}
+                    disabled={isLoading}
+                    testID="apple-login-button"
+                  >
+                    <Ionicons name="logo-apple" size={20} color="#FFFFFF" />
+                    <ThemedText style={[styles.socialButtonText, styles.appleButtonText]}>Continue with Apple</ThemedText>
+                  </TouchableOpacity>
+                )}
+
                 <View style={styles.registerContainer}>
                   <ThemedText style={styles.helperText}>
                     New to South African Languages? Join our community of language learners! 🌍
@@ -235,6 +365,16 @@ const styles = StyleSheet.create({
   form: {
     gap: 16,
   },
+  sessionExpiredBanner: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    padding: 12,
+    borderRadius: 12,
+  },
+  sessionExpiredText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    textAlign: 'center',
+  },
   input: {
     backgroundColor: 'rgba(255, 255, 255, 0.1)',
     padding: 16,
@@ -258,6 +398,40 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
+  dividerContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  dividerLine: {
+    flex: 1,
+    height: 1,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  dividerText: {
+    color: '#E2E8F0',
+    fontSize: 14,
+  },
+  socialButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderRadius: 28,
+  },
+  socialButtonText: {
+    color: '#1B1464',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  appleButton: {
+    backgroundColor: '#000000',
+  },
+  appleButtonText: {
+    color: '#FFFFFF',
+  },
   registerContainer: {
     marginTop: 32,
     alignItems: 'center',
@@ -291,6 +465,12 @@ const styles = StyleSheet.create({
   linkButton: {
     padding: 8,
   },
+  phoneCodeToggle: {
+    alignSelf: 'center',
+  },
+  guestLoginLink: {
+    alignSelf: 'center',
+  },
   linkText: {
     color: '#FFFFFF',
     fontSize: 16,
@@ -1,11 +1,12 @@
 import { HOST_URL } from '@/config/api';
 import { useAuth } from '@/contexts/AuthContext';
 import { analytics } from '@/services/analytics';
+import { authenticatedFetch } from '@/services/authenticatedFetch';
+import { generateGuestCredentials, saveGuestCredentials } from '@/services/guestAccount';
 import { Ionicons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { LinearGradient } from 'expo-linear-gradient';
 import { router } from 'expo-router';
-import * as SecureStore from 'expo-secure-store';
 import * as WebBrowser from 'expo-web-browser';
 import React, { useEffect, useState } from 'react';
 import { Image, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
@@ -212,20 +213,14 @@ async function createGuestAccount({ selectedAvatar, signUp }: GuestAccountParams
   try {
     //console.log(`[Guest Account] Attempt ${retryCount + 1}/${MAX_RETRIES} - Starting guest account creation`);
 
-    // Generate a 16-character UID
-    const guestUid = Array.from(crypto.getRandomValues(new Uint8Array(8)))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('')
-      .slice(0, 16);
-
-    const guestEmail = `${guestUid}@guest.com`;
-    const defaultPassword = 'password';
-
-    //console.log('[Guest Account] Generated credentials:', { guestEmail });
+    // Random credentials, kept only in SecureStore so the guest can later upgrade to a full account
+    const credentials = generateGuestCredentials();
+    const guestEmail = credentials.email;
 
     // Register the guest user
     //console.log('[Guest Account] Attempting to sign up with Firebase...');
-    const user = await signUp(guestEmail, defaultPassword);
+    const user = await signUp(guestEmail, credentials.password);
+    await saveGuestCredentials(credentials);
     //console.log('[Guest Account] Firebase signup successful:', { uid: user?.uid });
 
     // Create learner profile for guest
@@ -239,7 +234,7 @@ async function createGuestAccount({ selectedAvatar, signUp }: GuestAccountParams
 
     // Create new learner in database using the new API endpoint
     try {
-      const response = await fetch(`${HOST_URL}/public/learn/learner/create`, {
+      const response = await authenticatedFetch(`${HOST_URL}/public/learn/learner/create`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -284,10 +279,6 @@ async function createGuestAccount({ selectedAvatar, signUp }: GuestAccountParams
       isGuest: true
     }));
 
-    // Store auth token
-    //console.log('[Guest Account] Storing auth token...');
-    await SecureStore.setItemAsync('auth', JSON.stringify({ user }));
-
     //console.log('[Guest Account] Guest account creation completed successfully');
     return user;
   } catch (error: unknown) {
@@ -315,9 +306,8 @@ async function createGuestAccount({ selectedAvatar, signUp }: GuestAccountParams
 export default function OnboardingScreen() {
   const [step, setStep] = useState(0);
   const [selectedAvatar, setSelectedAvatar] = useState<string>('1');
-  const [registrationMethod, setRegistrationMethod] = useState<'email' | 'phone'>('email');
   const insets = useSafeAreaInsets();
-  const { signUp } = useAuth();
+  const { user, signUp } = useAuth();
 
   const [errors, setErrors] = useState({
     curriculum: ''
@@ -328,10 +318,9 @@ export default function OnboardingScreen() {
   useEffect(() => {
     async function checkAuthAndOnboarding() {
       try {
-        const authData = await SecureStore.getItemAsync('auth');
         const onboardingData = await AsyncStorage.getItem('onboardingData');
 
-        if (authData && onboardingData) {
+        if (user && onboardingData) {
           const parsedOnboarding = JSON.parse(onboardingData);
           if (parsedOnboarding.onboardingCompleted && !router.canGoBack()) {
             router.replace('/(tabs)');
@@ -603,6 +592,25 @@ export default function OnboardingScreen() {
                   Create Account
                 </ThemedText>
               </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.authButton, styles.phoneButton]}
+                onPress={() => {
+                  router.push({
+                    pathname: '/register',
+                    params: {
+                      curriculum: 'CAPS',
+                      avatar: selectedAvatar,
+                      method: 'phone',
+                    }
+                  });
+                }}
+                testID="create-phone-account-button"
+              >
+                <ThemedText style={styles.authButtonText}>
+                  Sign Up with Phone
+                </ThemedText>
+              </TouchableOpacity>
             </View>
           </View>
         );
@@ -0,0 +1,244 @@
+import { LessonHeader } from '@/components/LessonHeader';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useHearts } from '@/contexts/HeartsContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { buildPracticeSession, recordAnswer } from '@/services/reviewScheduler';
+import { Question } from '@/types/api';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, InteractionManager, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { FeedbackButton, FeedbackMessage } from './components/CheckContinueButton';
+import { QuestionView } from './components/QuestionView';
+import { FeedbackProvider, useFeedback } from './contexts/FeedbackContext';
+
+function PracticeContent() {
+    const { languageCode, languageName } = useLocalSearchParams();
+    const router = useRouter();
+    const { colors, isDark } = useTheme();
+    const [questions, setQuestions] = useState<Question[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+    const [correctCount, setCorrectCount] = useState(0);
+    const [isQuestionAnswered, setIsQuestionAnswered] = useState(false);
+    const { isChecked, isCorrect, questionId } = useFeedback();
+    const checkRef = useRef<() => void>(() => { });
+    const continueRef = useRef<() => void>(() => { });
+    const scrollViewRef = useRef<ScrollView>(null);
+    const answerRecordedRef = useRef(false);
+    const { isEnabled: heartsEnabled, isUnlimited, refillHearts } = useHearts();
+
+    const styles = StyleSheet.create({
+        container: {
+            flex: 1,
+        },
+        content: {
+            flex: 1,
+        },
+        scrollView: {
+            flex: 1,
+        },
+        progressContainer: {
+            padding: 16,
+            gap: 8,
+        },
+        progressBackground: {
+            height: 8,
+            backgroundColor: isDark ? colors.surfaceHigh : '#E5E7EB',
+            borderRadius: 4,
+            overflow: 'hidden',
+        },
+        progressFill: {
+            height: '100%',
+            backgroundColor: colors.primary,
+            borderRadius: 4,
+        },
+        questionContainer: {
+            padding: 16,
+            gap: 16,
+        },
+        feedbackContainer: {
+            padding: 16,
+            backgroundColor: isDark ? colors.surface : '#fff',
+            borderTopWidth: 1,
+            borderTopColor: isDark ? colors.border : '#E5E7EB',
+            zIndex: 10,
+            alignItems: 'center',
+            width: '100%',
+            flexDirection: 'column',
+            gap: 12,
+        },
+        summaryContainer: {
+            flex: 1,
+            justifyContent: 'center',
+            alignItems: 'center',
+            padding: 32,
+        },
+        summaryTitle: {
+            fontSize: 28,
+            fontWeight: 'bold',
+            color: colors.success,
+            marginBottom: 16,
+            textAlign: 'center',
+            lineHeight: 36,
+        },
+        summarySubtitle: {
+            fontSize: 18,
+            color: colors.text,
+            marginBottom: 32,
+            textAlign: 'center',
+        },
+        continueButton: {
+            backgroundColor: colors.primary,
+            paddingVertical: 16,
+            paddingHorizontal: 32,
+            borderRadius: 12,
+            alignItems: 'center',
+            justifyContent: 'center',
+        },
+        continueButtonPressed: {
+            opacity: 0.9,
+            transform: [{ scale: 0.98 }],
+        },
+        continueButtonText: {
+            fontSize: 18,
+            fontWeight: '600',
+            color: colors.buttonText,
+        },
+    });
+
+    useEffect(() => {
+        async function loadSession() {
+            try {
+                setQuestions(await buildPracticeSession(languageCode as string));
+            } catch (error) {
+                console.error('[Practice] Error building practice session:', error);
+            } finally {
+                setIsLoading(false);
+            }
+        }
+        loadSession();
+    }, [languageCode]);
+
+    // Every practice answer reschedules the words it covers
+    useEffect(() => {
+        if (!isChecked) {
+            answerRecordedRef.current = false;
+            return;
+        }
+        if (!answerRecordedRef.current && questionId && questions[currentQuestionIndex]) {
+            answerRecordedRef.current = true;
+            recordAnswer(languageCode as string, questions[currentQuestionIndex], isCorrect === true);
+            if (isCorrect) {
+                setCorrectCount(count => count + 1);
+            }
+        }
+    }, [isChecked, isCorrect, questionId, currentQuestionIndex, questions, languageCode]);
+
+    useEffect(() => {
+        InteractionManager.runAfterInteractions(() => {
+            scrollViewRef.current?.scrollTo({ y: 0, animated: true });
+        });
+    }, [currentQuestionIndex]);
+
+    const handleCheck = () => checkRef.current();
+    const handleContinue = () => {
+        continueRef.current?.();
+        setCurrentQuestionIndex(idx => idx + 1);
+        setIsQuestionAnswered(false);
+    };
+
+    const isFinished = questions.length > 0 && currentQuestionIndex >= questions.length;
+
+    // Finishing a review is how hearts are earned back
+    useEffect(() => {
+        if (isFinished) {
+            refillHearts();
+        }
+    }, [isFinished, refillHearts]);
+
+    const renderSummary = (title: string, subtitle: string) => (
+        <View style={styles.summaryContainer}>
+            <ThemedText style={styles.summaryTitle}>{title}</ThemedText>
+            <ThemedText style={styles.summarySubtitle}>{subtitle}</ThemedText>
+            <Pressable
+                style={({ pressed }) => [
+                    styles.continueButton,
+                    pressed && styles.continueButtonPressed
+                ]}
+                onPress={() => router.back()}
+                accessibilityRole="button"
+            >
+                <ThemedText style={styles.continueButtonText}>Back to Lessons</ThemedText>
+            </Pressable>
+        </View>
+    );
+
+    return (
+        <ThemedView style={styles.container}>
+            <LessonHeader
+                title="Practice"
+                subText={languageName as string}
+                showBackButton={true}
+                onBackPress={() => router.back()}
+                topPadding={0}
+            />
+            {isLoading ? (
+                <ActivityIndicator size="large" />
+            ) : questions.length === 0 ? (
+                renderSummary('All caught up! 🎯', 'No words are due for review right now. Come back after your next lesson.')
+            ) : isFinished ? (
+                renderSummary(
+                    '💪 Practice complete!',
+                    `You got ${correctCount} of ${questions.length} right. Words you missed will come back sooner.`
+                    + (heartsEnabled && !isUnlimited ? ' Your hearts are full again ❤️' : '')
+                )
+            ) : (
+                <ScrollView
+                    ref={scrollViewRef}
+                    style={styles.scrollView}
+                    contentContainerStyle={[styles.content, { paddingBottom: 100 }]}
+                >
+                    <View style={styles.progressContainer}>
+                        <View style={styles.progressBackground}>
+                            <View style={[styles.progressFill, { width: `${((currentQuestionIndex + 1) / questions.length) * 100}%` }]} />
+                        </View>
+                    </View>
+                    <View style={styles.questionContainer}>
+                        <QuestionView
+                            question={questions[currentQuestionIndex]}
+                            languageCode={languageCode as string}
+                            setOnCheck={fn => { checkRef.current = fn; }}
+                            setOnContinue={fn => { continueRef.current = fn; }}
+                            setIsQuestionAnswered={setIsQuestionAnswered}
+                            onSkip={handleContinue}
+                            lessonId={null}
+                            isRetry={false}
+                        />
+                    </View>
+                </ScrollView>
+            )}
+            {!isLoading && !isFinished && questions.length > 0 && (
+                <SafeAreaView edges={['bottom']} style={styles.feedbackContainer}>
+                    <FeedbackMessage onContinue={handleContinue} />
+                    <FeedbackButton
+                        isDisabled={!isQuestionAnswered}
+                        onCheck={handleCheck}
+                        onContinue={handleContinue}
+                    />
+                </SafeAreaView>
+            )}
+        </ThemedView>
+    );
+}
+
+export default function PracticeScreen() {
+    return (
+        <SafeAreaView style={{ flex: 1 }} edges={['top', 'left', 'right']}>
+            <FeedbackProvider>
+                <PracticeContent />
+            </FeedbackProvider>
+        </SafeAreaView>
+    );
+}
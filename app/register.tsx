@@ -22,7 +22,10 @@ export default function RegisterScreen() {
                         <ThemedText style={styles.subtitle} testID="register-subtitle">Join thousands of students acing their exams! 🎯</ThemedText>
                     </View>
 
-                    <RegisterForm onboardingData={params as any} />
+                    <RegisterForm
+                        onboardingData={params as any}
+                        defaultMethod={params.method === 'phone' ? 'phone' : 'email'}
+                    />
                 </View>
             </LinearGradient>
         </SafeAreaView>
@@ -1,8 +1,10 @@
-import { HOST_URL } from '@/config/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePendingSyncCount } from '@/hooks/usePendingSyncCount';
+import { getLanguageLearner, getLearnerStreak, NotAuthenticatedError } from '@/services/languageApi';
+import { LanguageLearner, LearnerStreak } from '@/types/api';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { router } from 'expo-router';
-import * as SecureStore from 'expo-secure-store';
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { Image, ImageSourcePropType, StyleSheet, TouchableOpacity, useColorScheme, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { ThemedText } from './ThemedText';
@@ -20,22 +22,6 @@ const avatarImages: Record<string, ImageSourcePropType> = {
   'default': require('../assets/images/avatars/8.png'),
 };
 
-interface LearnerInfo {
-  name: string;
-  avatar?: string;
-  points?: number;
-  streak?: number;
-  school?: string;
-}
-
-interface StreakInfo {
-  calculatedFromProgress: boolean;
-  id: number;
-  lastActivityDate: string;
-  streak: number;
-  uid: string;
-}
-
 function getInitial(name?: string) {
   if (!name) return '';
   return name.trim().charAt(0).toUpperCase();
@@ -45,47 +31,47 @@ export function Header() {
   const insets = useSafeAreaInsets();
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
-  const [learnerInfo, setLearnerInfo] = useState<LearnerInfo | null>(null);
-  const [streakInfo, setStreakInfo] = useState<StreakInfo | null>(null);
+  const [learnerInfo, setLearnerInfo] = useState<LanguageLearner | null>(null);
+  const [streakInfo, setStreakInfo] = useState<LearnerStreak | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const { user } = useAuth();
+  const uid = user?.uid;
 
-  useEffect(() => {
-    async function fetchLearnerInfo() {
-      try {
-        const authData = await SecureStore.getItemAsync('auth');
-        if (!authData) {
-          setIsLoading(false);
-          return;
-        }
-        const { user } = JSON.parse(authData);
-        if (!user?.uid) {
-          setIsLoading(false);
-          return;
-        }
-        const [learnerResponse, streakResponse] = await Promise.all([
-          fetch(`${HOST_URL}/api/language-learners/uid/${user.uid}`),
-          fetch(`${HOST_URL}/api/language-learners/${user.uid}/streak`)
-        ]);
+  const pendingSyncCount = usePendingSyncCount();
+  const previousPendingSyncCount = useRef(pendingSyncCount);
 
-        if (!learnerResponse.ok || !streakResponse.ok) {
-          throw new Error('Failed to fetch learner info');
-        }
-
-        const [learnerData, streakData] = await Promise.all([
-          learnerResponse.json(),
-          streakResponse.json()
-        ]);
+  const fetchLearnerInfo = useCallback(async () => {
+    try {
+      if (!uid) {
+        throw new NotAuthenticatedError();
+      }
+      const [learnerData, streakData] = await Promise.all([
+        getLanguageLearner(uid),
+        getLearnerStreak(uid)
+      ]);
 
-        setLearnerInfo(learnerData);
-        setStreakInfo(streakData);
-      } catch (error) {
+      setLearnerInfo(learnerData);
+      setStreakInfo(streakData);
+    } catch (error) {
+      if (!(error instanceof NotAuthenticatedError)) {
         console.error('Error fetching learner info:', error);
-      } finally {
-        setIsLoading(false);
       }
+    } finally {
+      setIsLoading(false);
     }
+  }, [uid]);
+
+  useEffect(() => {
     fetchLearnerInfo();
-  }, []);
+  }, [fetchLearnerInfo]);
+
+  useEffect(() => {
+    // Points and streaks only change on the backend once the outbox drains
+    if (previousPendingSyncCount.current > 0 && pendingSyncCount === 0) {
+      fetchLearnerInfo();
+    }
+    previousPendingSyncCount.current = pendingSyncCount;
+  }, [pendingSyncCount, fetchLearnerInfo]);
 
   const avatarSource = learnerInfo?.avatar && avatarImages[learnerInfo.avatar]
     ? avatarImages[learnerInfo.avatar]
@@ -101,6 +87,14 @@ export function Header() {
           <ThemedText style={[styles.schoolText, { color: isDark ? '#9CA3AF' : '#64748B' }]}>
             Learn to speak Mzansi
           </ThemedText>
+          {pendingSyncCount > 0 && (
+            <View style={[styles.syncPill, { backgroundColor: isDark ? '#374151' : '#E0E7FF' }]}>
+              <MaterialCommunityIcons name="cloud-upload-outline" size={14} color={isDark ? '#A5B4FC' : '#4F46E5'} />
+              <ThemedText style={[styles.syncText, { color: isDark ? '#A5B4FC' : '#4F46E5' }]}>
+                {pendingSyncCount === 1 ? '1 update waiting to sync' : `${pendingSyncCount} updates waiting to sync`}
+              </ThemedText>
+            </View>
+          )}
         </View>
         <TouchableOpacity onPress={() => router.push('/profile')}>
           <View style={[styles.avatarCircle, { backgroundColor: isDark ? '#7C3AED' : '#8B5CF6' }]}>
@@ -161,6 +155,20 @@ const styles = StyleSheet.create({
     marginTop: 2,
     fontWeight: '500',
   },
+  syncPill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginTop: 6,
+  },
+  syncText: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
   avatarCircle: {
     width: 48,
     height: 48,
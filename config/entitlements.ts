@@ -0,0 +1,59 @@
+// What free and premium learners get. Every tier rule in the app is read from here.
+
+// daily_limit: free learners get a fixed number of lessons per day
+// hearts: free learners lose a heart per wrong answer and can't start a lesson with none left
+export type FreeTierModel = 'daily_limit' | 'hearts';
+
+/** Premium features the UI switches on or off. Read them through useEntitlements, not from here. */
+export interface TierFeatures {
+  unlimitedLessons: boolean;
+  /** Every unit is open; free learners stop part way into unit 3. */
+  allUnits: boolean;
+  offlineDownloads: boolean;
+}
+
+export interface TierRules {
+  /** Lessons per day, or null for unlimited. The backend enforces this; see services/lessonQuota.ts. */
+  dailyLessonLimit: number | null;
+  /** Hearts when full, or null for unlimited. */
+  maxHearts: number | null;
+  /** Minutes for one heart to come back. */
+  heartRegenMinutes: number;
+  features: TierFeatures;
+}
+
+export const ENTITLEMENT_CONFIG = {
+  freeTierModel: 'daily_limit' as FreeTierModel,
+  /** RevenueCat entitlement that makes a learner premium. */
+  premiumEntitlementId: 'premium',
+  tiers: {
+    free: {
+      dailyLessonLimit: 3,
+      maxHearts: 5,
+      heartRegenMinutes: 30,
+      features: {
+        unlimitedLessons: false,
+        allUnits: false,
+        offlineDownloads: false,
+      },
+    },
+    premium: {
+      dailyLessonLimit: null,
+      maxHearts: null,
+      heartRegenMinutes: 0,
+      features: {
+        unlimitedLessons: true,
+        allUnits: true,
+        offlineDownloads: true,
+      },
+    },
+  } satisfies Record<'free' | 'premium', TierRules>,
+};
+
+export function getTierRules(isPremium: boolean): TierRules {
+  return isPremium ? ENTITLEMENT_CONFIG.tiers.premium : ENTITLEMENT_CONFIG.tiers.free;
+}
+
+export function isHeartsModeEnabled(): boolean {
+  return ENTITLEMENT_CONFIG.freeTierModel === 'hearts';
+}
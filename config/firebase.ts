@@ -1,6 +1,7 @@
 console.log('[ENTRY] config/firebase.ts loaded');
 import { initializeApp, getApps, FirebaseApp } from 'firebase/app';
-import { getAuth, setPersistence } from 'firebase/auth';
+import { Auth, getAuth } from 'firebase/auth';
+import { getReactNativePersistence, initializeAuth } from 'firebase/auth/react-native';
 import { getFirestore } from 'firebase/firestore';
 import { getStorage } from 'firebase/storage';
 import AsyncStorage from '@react-native-async-storage/async-storage';
@@ -24,8 +25,16 @@ if (!getApps().length) {
 }
 console.log("Firebase App initialized:", app.name);
 
-// Initialize Auth with React Native persistence
-const auth = getAuth(app);
+// Initialize Auth with React Native persistence. getAuth's default persistence
+// uses the AsyncStorage that React Native no longer ships, so the signed-in
+// user would be forgotten on every launch
+let auth: Auth;
+try {
+  auth = initializeAuth(app, { persistence: getReactNativePersistence(AsyncStorage) });
+} catch {
+  // Already initialized, e.g. after a fast refresh
+  auth = getAuth(app);
+}
 
 // Initialize Firestore
 const db = getFirestore(app);
@@ -1,8 +1,21 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
 import * as SecureStore from 'expo-secure-store';
-import { createUserWithEmailAndPassword, signInWithEmailAndPassword, signOut as firebaseSignOut, onAuthStateChanged } from 'firebase/auth';
+import { createUserWithEmailAndPassword, getAdditionalUserInfo, signInWithCredential, signInWithEmailAndPassword, signOut as firebaseSignOut, linkWithCredential, onAuthStateChanged, User } from 'firebase/auth';
 import { auth } from '@/config/firebase';
 import { useRouter, useSegments } from 'expo-router';
+import { setUnauthorizedHandler } from '@/services/authenticatedFetch';
+import { upgradeGuestAccount } from '@/services/guestAccount';
+import { phoneCredential } from '@/services/phoneAuth';
+import { getPurchaseService } from '@/services/purchaseService';
+import { clearUserData, flushUserData, SESSION_KEY, SessionEndReason, startUserSession } from '@/services/session';
+import {
+  AccountLinkRequiredError,
+  ensureLanguageLearner,
+  getAppleCredential,
+  getGoogleCredential,
+  signOutOfProviders,
+  SocialCredential,
+} from '@/services/socialAuth';
 
 export interface AuthUser {
   uid: string;
@@ -12,71 +25,107 @@ export interface AuthUser {
   isPremium?: boolean;
 }
 
+export interface PhoneSignInResult {
+  user: AuthUser;
+  isNewUser: boolean;
+}
+
+/**
+ * restoring: waiting for Firebase to say whether anyone is signed in.
+ * expired: someone was signed in on this device but Firebase no longer has
+ * them (or the backend refused their token); they need to sign in again.
+ */
+export type SessionStatus = 'restoring' | 'signedIn' | 'signedOut' | 'expired';
+
 interface AuthContextType {
   user: AuthUser | null;
+  status: SessionStatus;
+  /** True while the session is restoring. */
   isLoading: boolean;
   signIn: (email: string, password: string) => Promise<AuthUser>;
   signUp: (email: string, password: string) => Promise<AuthUser>;
+  /** Resolves to null if the learner closes the provider's sheet. Throws AccountLinkRequiredError for an email that signs in another way. */
+  signInWithGoogle: () => Promise<AuthUser | null>;
+  signInWithApple: () => Promise<AuthUser | null>;
+  /**
+   * Confirms the texted code (see services/phoneAuth.ts). `onSignedIn` is where the
+   * caller creates the learner when isNewUser; leaving the login screen waits for it.
+   */
+  signInWithPhone: (
+    verificationId: string,
+    code: string,
+    onSignedIn?: (result: PhoneSignInResult) => Promise<void> | void
+  ) => Promise<PhoneSignInResult>;
   signOut: () => Promise<void>;
+  /** Gives a guest their own email and password, keeping the same account. */
+  upgradeAccount: (email: string, password: string) => Promise<AuthUser>;
 }
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
+  status: 'restoring',
   isLoading: true,
   signIn: async () => { throw new Error('AuthContext not initialized'); },
   signUp: async () => { throw new Error('AuthContext not initialized'); },
+  signInWithGoogle: async () => { throw new Error('AuthContext not initialized'); },
+  signInWithApple: async () => { throw new Error('AuthContext not initialized'); },
+  signInWithPhone: async () => { throw new Error('AuthContext not initialized'); },
   signOut: async () => { throw new Error('AuthContext not initialized'); },
+  upgradeAccount: async () => { throw new Error('AuthContext not initialized'); },
 });
 
 
+function toAuthUser(firebaseUser: User): AuthUser {
+  return {
+    uid: firebaseUser.uid,
+    email: firebaseUser.email,
+    displayName: firebaseUser.displayName,
+    photoURL: firebaseUser.photoURL,
+  };
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<AuthUser | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const [status, setStatus] = useState<SessionStatus>('restoring');
+  const isLoading = status === 'restoring';
+  // Set while a sign-in is still setting up the learner, so nothing is shown that needs them yet
+  const [isFinishingSignIn, setIsFinishingSignIn] = useState(false);
   const segments = useSegments();
   const router = useRouter();
+  // A provider turned away because its email already had an account, linked on the next sign-in to that account
+  const pendingLinkRef = useRef<{ email: string; social: SocialCredential } | null>(null);
 
+  // Firebase is the only source of truth for who is signed in. The SecureStore
+  // copy just records that someone was, so a session Firebase has dropped is
+  // reported as expired rather than kept around
   useEffect(() => {
     let isMounted = true;
 
-    // Attempt to restore from SecureStore first
-    async function restoreFromSecureStore() {
-      try {
-        const storedAuth = await SecureStore.getItemAsync('auth');
-        if (storedAuth && !user && isMounted) {
-          const { user: storedUser } = JSON.parse(storedAuth);
-          setUser(storedUser);
-        }
-      } catch (error) {
-        console.error('Error restoring auth from SecureStore:', error);
-      }
-    }
-
-    // Then set up Firebase auth listener
     const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
       if (!isMounted) return;
 
       if (firebaseUser) {
-        const userData: AuthUser = {
-          uid: firebaseUser.uid,
-          email: firebaseUser.email,
-          displayName: firebaseUser.displayName,
-          photoURL: firebaseUser.photoURL,
-        };
-        // Store in SecureStore as backup
-        await SecureStore.setItemAsync('auth', JSON.stringify({ user: userData }));
+        const userData = toAuthUser(firebaseUser);
+        await SecureStore.setItemAsync(SESSION_KEY, JSON.stringify({ user: userData }));
+        await startUserSession(userData.uid);
         setUser(userData);
-      } else {
-        // Only clear auth if we're sure there's no user
-        const storedAuth = await SecureStore.getItemAsync('auth');
-        if (!storedAuth) {
-          setUser(null);
-          await SecureStore.deleteItemAsync('auth');
-        }
+        setStatus('signedIn');
+        return;
       }
-      setIsLoading(false);
-    });
 
-    restoreFromSecureStore();
+      let hadSession = false;
+      try {
+        hadSession = !!(await SecureStore.getItemAsync(SESSION_KEY));
+      } catch (error) {
+        console.error('[Auth] Error reading stored session:', error);
+      }
+      if (hadSession) {
+        await clearUserData('expired');
+      }
+      if (!isMounted) return;
+      setUser(null);
+      setStatus(current => (hadSession || current === 'expired' ? 'expired' : 'signedOut'));
+    });
 
     return () => {
       isMounted = false;
@@ -85,7 +134,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   }, []);
 
   useEffect(() => {
-    if (isLoading) return;
+    if (isLoading || isFinishingSignIn) return;
 
     const inAuthGroup = segments[0] === '(auth)';
     const inLoginScreen = segments.join('/') === 'login';
@@ -101,38 +150,114 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     } else if (!user && inTabsGroup) {
       router.replace('/login');
     }
-  }, [user, isLoading, segments]);
+  }, [user, isLoading, isFinishingSignIn, segments]);
 
-  const signOut = async () => {
+  const endSession = async (nextStatus: SessionEndReason) => {
+    // An expired session's token would be refused, so there's no point trying to upload
+    if (nextStatus === 'signedOut') {
+      await flushUserData();
+    }
+    // Cleared before Firebase signs out, so the auth listener doesn't take this for an expired session
+    await clearUserData(nextStatus);
     await firebaseSignOut(auth);
-    await SecureStore.deleteItemAsync('auth');
+    await signOutOfProviders();
+    try {
+      // The store keeps its user across restarts, so the next learner would otherwise see this one's purchases
+      await getPurchaseService().resetUser();
+    } catch (error) {
+      console.error('[Auth] Error resetting store user:', error);
+    }
     setUser(null);
+    setStatus(nextStatus);
+  };
+
+  const signOut = () => endSession('signedOut');
+
+  // The backend refused even a fresh token: the session is no longer valid
+  useEffect(() => {
+    setUnauthorizedHandler(async () => {
+      await endSession('expired');
+      router.replace('/login');
+    });
+    return () => setUnauthorizedHandler(null);
+  }, []);
+
+  const linkPendingCredential = async (firebaseUser: User) => {
+    const pending = pendingLinkRef.current;
+    if (!pending || pending.email.toLowerCase() !== firebaseUser.email?.toLowerCase()) return;
+    pendingLinkRef.current = null;
+    try {
+      await linkWithCredential(firebaseUser, pending.social.credential);
+    } catch (error) {
+      console.error('[Auth] Error linking sign-in provider:', error);
+    }
   };
 
   const signIn = async (email: string, password: string): Promise<AuthUser> => {
     const { user: firebaseUser } = await signInWithEmailAndPassword(auth, email, password);
-    const userData: AuthUser = {
-      uid: firebaseUser.uid,
-      email: firebaseUser.email,
-      displayName: firebaseUser.displayName,
-      photoURL: firebaseUser.photoURL,
-    };
-    return userData;
+    await linkPendingCredential(firebaseUser);
+    return toAuthUser(firebaseUser);
   };
 
   const signUp = async (email: string, password: string): Promise<AuthUser> => {
     const { user: firebaseUser } = await createUserWithEmailAndPassword(auth, email, password);
-    const userData: AuthUser = {
-      uid: firebaseUser.uid,
-      email: firebaseUser.email,
-      displayName: firebaseUser.displayName,
-      photoURL: firebaseUser.photoURL,
-    };
+    return toAuthUser(firebaseUser);
+  };
+
+  const signInWithSocial = async (getCredential: () => Promise<SocialCredential | null>): Promise<AuthUser | null> => {
+    const social = await getCredential();
+    if (!social) return null;
+
+    try {
+      const { user: firebaseUser } = await signInWithCredential(auth, social.credential);
+      await linkPendingCredential(firebaseUser);
+      // First sign-in with a provider creates the learner; linked accounts already have one
+      try {
+        await ensureLanguageLearner(firebaseUser, social.displayName);
+      } catch (error) {
+        // The learner is signed in either way; the record is checked again on the next sign-in
+        console.error('[Auth] Error creating learner:', error);
+      }
+      return toAuthUser(firebaseUser);
+    } catch (error) {
+      const { code, customData } = error as { code?: string; customData?: { email?: string } };
+      if (code === 'auth/account-exists-with-different-credential' && customData?.email) {
+        pendingLinkRef.current = { email: customData.email, social };
+        throw new AccountLinkRequiredError(customData.email, social.provider);
+      }
+      throw error;
+    }
+  };
+
+  const signInWithGoogle = () => signInWithSocial(getGoogleCredential);
+  const signInWithApple = () => signInWithSocial(getAppleCredential);
+
+  const signInWithPhone = async (
+    verificationId: string,
+    code: string,
+    onSignedIn?: (result: PhoneSignInResult) => Promise<void> | void
+  ): Promise<PhoneSignInResult> => {
+    setIsFinishingSignIn(true);
+    try {
+      const credential = await signInWithCredential(auth, phoneCredential(verificationId, code));
+      const result = { user: toAuthUser(credential.user), isNewUser: getAdditionalUserInfo(credential)?.isNewUser ?? false };
+      await onSignedIn?.(result);
+      return result;
+    } finally {
+      setIsFinishingSignIn(false);
+    }
+  };
+
+  const upgradeAccount = async (email: string, password: string): Promise<AuthUser> => {
+    const userData = toAuthUser(await upgradeGuestAccount(email, password));
+    // Changing the email doesn't fire onAuthStateChanged, so the stored copy is updated here
+    await SecureStore.setItemAsync(SESSION_KEY, JSON.stringify({ user: userData }));
+    setUser(userData);
     return userData;
   };
 
   return (
-    <AuthContext.Provider value={{ user, isLoading, signIn, signUp, signOut }}>
+    <AuthContext.Provider value={{ user, status, isLoading, signIn, signUp, signInWithGoogle, signInWithApple, signInWithPhone, signOut, upgradeAccount }}>
       {children}
     </AuthContext.Provider>
   );
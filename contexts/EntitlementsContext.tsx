@@ -0,0 +1,87 @@
+import { ENTITLEMENT_CONFIG, getTierRules, TierFeatures, TierRules } from '@/config/entitlements';
+import { getLanguageLearner } from '@/services/languageApi';
+import { SubscriptionTier } from '@/types/api';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { useRevenueCat } from './RevenueCatContext';
+
+interface EntitlementsContextType {
+    /** Premium if either the backend or RevenueCat says so. */
+    isPremium: boolean;
+    tier: SubscriptionTier;
+    rules: TierRules;
+    features: TierFeatures;
+    /** True until the backend subscription has been fetched for the current learner. */
+    isLoading: boolean;
+    /** Re-reads both sources; call after a purchase or restore. */
+    refresh: () => Promise<void>;
+}
+
+const EntitlementsContext = createContext<EntitlementsContextType | undefined>(undefined);
+
+/**
+ * Merges the backend's subscription with RevenueCat's active entitlements.
+ * A purchase shows up in RevenueCat first and reaches the backend through a
+ * webhook, so either source saying premium is enough.
+ */
+export function EntitlementsProvider({ children }: { children: React.ReactNode }) {
+    const { user } = useAuth();
+    const { customerInfo, refreshCustomerInfo } = useRevenueCat();
+    const [backendTier, setBackendTier] = useState<SubscriptionTier | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const fetchBackendTier = useCallback(async () => {
+        if (!user?.uid) {
+            setBackendTier(null);
+            setIsLoading(false);
+            return;
+        }
+        try {
+            const learner = await getLanguageLearner(user.uid);
+            setBackendTier(learner.subscription || 'free');
+        } catch (error) {
+            // Keep the last known tier rather than dropping a premium learner to free
+            console.error('[Entitlements] Error fetching subscription:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [user?.uid]);
+
+    useEffect(() => {
+        setIsLoading(true);
+        fetchBackendTier();
+    }, [fetchBackendTier]);
+
+    const refresh = useCallback(async () => {
+        await Promise.all([refreshCustomerInfo(), fetchBackendTier()]);
+    }, [refreshCustomerInfo, fetchBackendTier]);
+
+    // Customer info left over from another learner on this device doesn't count
+    const isOwnCustomerInfo = !!user?.uid && customerInfo?.originalAppUserId === user.uid;
+    const hasStoreEntitlement = isOwnCustomerInfo && !!customerInfo?.entitlements.active[ENTITLEMENT_CONFIG.premiumEntitlementId];
+    const isPremium = hasStoreEntitlement || backendTier === 'premium';
+    const rules = getTierRules(isPremium);
+
+    return (
+        <EntitlementsContext.Provider
+            value={{
+                isPremium,
+                tier: isPremium ? 'premium' : 'free',
+                rules,
+                features: rules.features,
+                isLoading,
+                refresh,
+            }}
+        >
+            {children}
+        </EntitlementsContext.Provider>
+    );
+}
+
+export function useEntitlements() {
+    const context = useContext(EntitlementsContext);
+    if (context === undefined) {
+        throw new Error('useEntitlements must be used within an EntitlementsProvider');
+    }
+    return context;
+}
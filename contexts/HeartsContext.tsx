@@ -0,0 +1,87 @@
+import { isHeartsModeEnabled, TierRules } from '@/config/entitlements';
+import { getHeartsStatus, HeartsStatus, loseHeart as loseStoredHeart, refillHearts as refillStoredHearts } from '@/services/hearts';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { useEntitlements } from './EntitlementsContext';
+
+interface HeartsContextType {
+    /** False when the free tier uses the daily lesson limit instead of hearts. */
+    isEnabled: boolean;
+    isUnlimited: boolean;
+    hearts: number;
+    maxHearts: number;
+    nextHeartAt: Date | null;
+    /** True when a lesson may be started: hearts are off, unlimited, or at least one is left. */
+    hasHearts: boolean;
+    loseHeart: () => Promise<void>;
+    refillHearts: () => Promise<void>;
+}
+
+const HeartsContext = createContext<HeartsContextType | undefined>(undefined);
+
+export function HeartsProvider({ children }: { children: React.ReactNode }) {
+    const { rules } = useEntitlements();
+    const { user } = useAuth();
+    const isEnabled = isHeartsModeEnabled();
+    const isUnlimited = rules.maxHearts === null;
+    // The tier objects come straight from the config, so this is stable between renders
+    const limitedRules = isEnabled && !isUnlimited ? (rules as TierRules & { maxHearts: number }) : null;
+    const [status, setStatus] = useState<HeartsStatus | null>(null);
+
+    const refresh = useCallback(async () => {
+        if (limitedRules) {
+            setStatus(await getHeartsStatus(limitedRules));
+        }
+    }, [limitedRules]);
+
+    // Hearts are cleared on sign-out, so they're read again for each learner
+    useEffect(() => {
+        refresh();
+    }, [refresh, user?.uid]);
+
+    // Pick up the next regenerated heart when it's due
+    useEffect(() => {
+        if (!status?.nextHeartAt) return;
+        const timer = setTimeout(refresh, Math.max(0, status.nextHeartAt.getTime() - Date.now()) + 1000);
+        return () => clearTimeout(timer);
+    }, [status?.nextHeartAt, refresh]);
+
+    const loseHeart = useCallback(async () => {
+        if (limitedRules) {
+            setStatus(await loseStoredHeart(limitedRules));
+        }
+    }, [limitedRules]);
+
+    const refillHearts = useCallback(async () => {
+        if (limitedRules) {
+            setStatus(await refillStoredHearts(limitedRules));
+        }
+    }, [limitedRules]);
+
+    const hearts = status?.hearts ?? rules.maxHearts ?? 0;
+
+    return (
+        <HeartsContext.Provider
+            value={{
+                isEnabled,
+                isUnlimited,
+                hearts,
+                maxHearts: rules.maxHearts ?? 0,
+                nextHeartAt: status?.nextHeartAt ?? null,
+                hasHearts: !limitedRules || hearts > 0,
+                loseHeart,
+                refillHearts,
+            }}
+        >
+            {children}
+        </HeartsContext.Provider>
+    );
+}
+
+export function useHearts() {
+    const context = useContext(HeartsContext);
+    if (context === undefined) {
+        throw new Error('useHearts must be used within a HeartsProvider');
+    }
+    return context;
+}
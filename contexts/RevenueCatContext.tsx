@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { CustomerInfo, PurchasesOffering } from 'react-native-purchases';
-import { PurchasePackage, revenueCatService } from '../services/revenueCat';
+import { getPurchaseService, PurchasePackage } from '../services/purchaseService';
+import { useAuth } from './AuthContext';
 
 interface RevenueCatContextType {
     customerInfo: CustomerInfo | null;
@@ -11,6 +12,8 @@ interface RevenueCatContextType {
     restorePurchases: () => Promise<void>;
     identifyUser: (userId: string) => Promise<void>;
     resetUser: () => Promise<void>;
+    /** Re-reads customer info, e.g. after a purchase made outside this context (the RevenueCat paywall). */
+    refreshCustomerInfo: () => Promise<CustomerInfo | null>;
 }
 
 const RevenueCatContext = createContext<RevenueCatContextType | undefined>(undefined);
@@ -20,21 +23,33 @@ export function RevenueCatProvider({ children }: { children: React.ReactNode })
     const [offerings, setOfferings] = useState<PurchasesOffering | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<Error | null>(null);
+    const [isInitialized, setIsInitialized] = useState(false);
+    const { user } = useAuth();
 
     useEffect(() => {
         initializeRevenueCat();
     }, []);
 
+    // Purchases belong to the signed-in learner; sign-out resets the store user (see AuthContext)
+    useEffect(() => {
+        if (!isInitialized) return;
+        if (user?.uid) {
+            identifyUser(user.uid).catch(err => console.warn('RevenueCat identify failed:', err));
+        } else {
+            refreshCustomerInfo();
+        }
+    }, [user?.uid, isInitialized]);
+
     async function initializeRevenueCat() {
         try {
             setIsLoading(true);
             setError(null);
             
-            await revenueCatService.initialize();
+            await getPurchaseService().initialize();
             
             const [customerInfo, offerings] = await Promise.all([
-                revenueCatService.getCustomerInfo(),
-                revenueCatService.getOfferings(),
+                getPurchaseService().getCustomerInfo(),
+                getPurchaseService().getOfferings(),
             ]);
             
             setCustomerInfo(customerInfo);
@@ -67,6 +82,7 @@ export function RevenueCatProvider({ children }: { children: React.ReactNode })
             }
         } finally {
             setIsLoading(false);
+            setIsInitialized(true);
         }
     }
 
@@ -74,7 +90,7 @@ export function RevenueCatProvider({ children }: { children: React.ReactNode })
         try {
             setIsLoading(true);
             setError(null);
-            const updatedCustomerInfo = await revenueCatService.purchasePackage(packageToPurchase);
+            const updatedCustomerInfo = await getPurchaseService().purchasePackage(packageToPurchase);
             setCustomerInfo(updatedCustomerInfo);
         } catch (err) {
             const error = err instanceof Error ? err : new Error('Failed to purchase package');
@@ -89,7 +105,7 @@ export function RevenueCatProvider({ children }: { children: React.ReactNode })
         try {
             setIsLoading(true);
             setError(null);
-            const updatedCustomerInfo = await revenueCatService.restorePurchases();
+            const updatedCustomerInfo = await getPurchaseService().restorePurchases();
             setCustomerInfo(updatedCustomerInfo);
         } catch (err) {
             const error = err instanceof Error ? err : new Error('Failed to restore purchases');
@@ -104,8 +120,8 @@ export function RevenueCatProvider({ children }: { children: React.ReactNode })
         try {
             setIsLoading(true);
             setError(null);
-            await revenueCatService.identifyUser(userId);
-            const updatedCustomerInfo = await revenueCatService.getCustomerInfo();
+            await getPurchaseService().identifyUser(userId);
+            const updatedCustomerInfo = await getPurchaseService().getCustomerInfo();
             setCustomerInfo(updatedCustomerInfo);
         } catch (err) {
             const error = err instanceof Error ? err : new Error('Failed to identify user');
@@ -120,8 +136,8 @@ export function RevenueCatProvider({ children }: { children: React.ReactNode })
         try {
             setIsLoading(true);
             setError(null);
-            await revenueCatService.resetUser();
-            const updatedCustomerInfo = await revenueCatService.getCustomerInfo();
+            await getPurchaseService().resetUser();
+            const updatedCustomerInfo = await getPurchaseService().getCustomerInfo();
             setCustomerInfo(updatedCustomerInfo);
         } catch (err) {
             const error = err instanceof Error ? err : new Error('Failed to reset user');
@@ -132,6 +148,17 @@ export function RevenueCatProvider({ children }: { children: React.ReactNode })
         }
     }
 
+    async function refreshCustomerInfo() {
+        try {
+            const updatedCustomerInfo = await getPurchaseService().getCustomerInfo();
+            setCustomerInfo(updatedCustomerInfo);
+            return updatedCustomerInfo;
+        } catch (err) {
+            console.warn('RevenueCat customer info refresh failed:', err);
+            return null;
+        }
+    }
+
     const value = {
         customerInfo,
         offerings,
@@ -141,6 +168,7 @@ export function RevenueCatProvider({ children }: { children: React.ReactNode })
         restorePurchases,
         identifyUser,
         resetUser,
+        refreshCustomerInfo,
     };
 
     return (
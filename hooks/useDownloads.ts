@@ -0,0 +1,13 @@
+import { DownloadsSnapshot, subscribeToDownloads } from '@/services/unitDownloads';
+import { useEffect, useState } from 'react';
+
+const EMPTY: DownloadsSnapshot = { units: [], jobs: [], isPaused: false, settings: { wifiOnly: false } };
+
+/** Downloaded units, the download queue and download settings, kept up to date. */
+export function useDownloads() {
+  const [downloads, setDownloads] = useState<DownloadsSnapshot>(EMPTY);
+
+  useEffect(() => subscribeToDownloads(setDownloads), []);
+
+  return downloads;
+}
@@ -0,0 +1,11 @@
+import { subscribeToOutbox } from '@/services/progressOutbox';
+import { useEffect, useState } from 'react';
+
+/** Number of progress and points mutations still waiting to reach the backend. */
+export function usePendingSyncCount() {
+  const [pendingCount, setPendingCount] = useState(0);
+
+  useEffect(() => subscribeToOutbox(setPendingCount), []);
+
+  return pendingCount;
+}
@@ -0,0 +1,53 @@
+import { useAudioSettings } from '@/app/contexts/AudioSettingsContext';
+import { resolveMediaUri } from '@/services/mediaCache';
+import { Audio } from 'expo-av';
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Plays a single word's audio file at the learner's chosen speed, e.g. when a
+ * word in a sentence is tapped. Starting another word stops the last one.
+ */
+export function useWordAudio() {
+  const { playbackRate } = useAudioSettings();
+  const soundRef = useRef<Audio.Sound | null>(null);
+  // Bumped by every tap, so a sound that finishes loading after a later tap (or unmount) is dropped
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    return () => {
+      requestRef.current += 1;
+      soundRef.current?.unloadAsync().catch(() => {});
+      soundRef.current = null;
+    };
+  }, []);
+
+  return useCallback(async (audioFile: string) => {
+    const request = ++requestRef.current;
+    try {
+      const previous = soundRef.current;
+      soundRef.current = null;
+      await previous?.unloadAsync();
+
+      const uri = await resolveMediaUri('audio', audioFile);
+      const { sound } = await Audio.Sound.createAsync(
+        { uri },
+        { shouldPlay: true, rate: playbackRate, shouldCorrectPitch: true }
+      );
+      if (request !== requestRef.current) {
+        await sound.unloadAsync();
+        return;
+      }
+      soundRef.current = sound;
+      sound.setOnPlaybackStatusUpdate(status => {
+        if (status.isLoaded && status.didJustFinish) {
+          sound.unloadAsync().catch(() => {});
+          if (soundRef.current === sound) {
+            soundRef.current = null;
+          }
+        }
+      });
+    } catch (error) {
+      console.error('Error playing word audio:', audioFile, error);
+    }
+  }, [playbackRate]);
+}
@@ -0,0 +1,11 @@
+// Native modules with no JS fallback, swapped for the mocks their packages ship for Jest
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () => require('@react-native-community/netinfo/jest/netinfo-mock'));
+// Icon fonts count as loaded, so @expo/vector-icons renders without asking the native font module
+jest.mock('expo-font', () => ({
+  ...jest.requireActual('expo-font'),
+  isLoaded: () => true,
+  loadAsync: jest.fn(async () => {}),
+}));
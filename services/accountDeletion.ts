@@ -0,0 +1,188 @@
+import { auth } from '@/config/firebase';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import * as Notifications from 'expo-notifications';
+import * as SecureStore from 'expo-secure-store';
+import { deleteUser, EmailAuthProvider, reauthenticateWithCredential, User } from 'firebase/auth';
+import { clearGuestCredentials, isGuestEmail, reauthenticateGuest } from './guestAccount';
+import { deleteLanguageLearner } from './languageApi';
+import { clearMediaCache } from './mediaCache';
+import { phoneCredential, sendVerificationCode } from './phoneAuth';
+import { getPurchaseService } from './purchaseService';
+import { getAppleCredential, getGoogleCredential } from './socialAuth';
+import { forgetAllDownloads } from './unitDownloads';
+
+// Firebase refuses to delete a user who signed in longer ago than this
+const RECENT_LOGIN_MS = 5 * 60 * 1000;
+const SECURE_STORE_KEYS = ['auth'];
+const CONTENT_DIRECTORY = 'content';
+
+/** The clean-up steps after the backend has deleted the learner. Each can fail on its own. */
+export type AccountCleanupStep = 'firebase' | 'purchases' | 'push_token' | 'media' | 'local_storage';
+
+export interface AccountDeletionResult {
+  /** Steps that didn't complete. The backend data is gone even when this isn't empty. */
+  failedSteps: AccountCleanupStep[];
+}
+
+/** How a learner proves it's them again: whichever way they sign in. */
+export type ReauthenticationMethod = 'password' | 'google' | 'apple' | 'phone' | 'guest';
+
+export interface PhoneReauthentication {
+  /** From sendVerificationCode in services/phoneAuth.ts. */
+  verificationId: string;
+  code: string;
+}
+
+export interface DeleteAccountOptions {
+  password?: string;
+  phoneVerification?: PhoneReauthentication;
+}
+
+const REAUTHENTICATION_MESSAGES: Record<ReauthenticationMethod, string> = {
+  password: 'Please enter your password again to delete your account',
+  google: 'Please sign in with Google again to delete your account',
+  apple: 'Please sign in with Apple again to delete your account',
+  phone: 'Please enter the code we text you to delete your account',
+  guest: 'Please sign in again to delete your account',
+};
+
+// Checked in order, so an email account with Google linked keeps the password prompt
+const PROVIDER_METHODS: [string, ReauthenticationMethod][] = [
+  ['password', 'password'],
+  ['google.com', 'google'],
+  ['apple.com', 'apple'],
+  ['phone', 'phone'],
+];
+
+export class ReauthenticationRequiredError extends Error {
+  readonly method: ReauthenticationMethod;
+
+  constructor(method: ReauthenticationMethod, message = REAUTHENTICATION_MESSAGES[method]) {
+    super(message);
+    this.name = 'ReauthenticationRequiredError';
+    this.method = method;
+  }
+}
+
+export function getReauthenticationMethod(user: User): ReauthenticationMethod {
+  // Guests sign in with a password too, but it's on the device rather than in their head
+  if (isGuestEmail(user.email)) {
+    return 'guest';
+  }
+  const providerIds = user.providerData.map(provider => provider.providerId);
+  return PROVIDER_METHODS.find(([providerId]) => providerIds.includes(providerId))?.[1] ?? 'password';
+}
+
+function isRecentLogin(user: User): boolean {
+  const lastSignIn = user.metadata.lastSignInTime;
+  return !!lastSignIn && Date.now() - new Date(lastSignIn).getTime() < RECENT_LOGIN_MS;
+}
+
+// Google and Apple show their sheet again; null means the learner closed it
+async function reauthenticateWithProvider(user: User, method: 'google' | 'apple'): Promise<boolean> {
+  const social = method === 'google' ? await getGoogleCredential() : await getAppleCredential();
+  if (!social) {
+    return false;
+  }
+  await reauthenticateWithCredential(user, social.credential);
+  return true;
+}
+
+// Asked for before anything is deleted, so the backend data never goes while the Firebase user stays
+async function ensureRecentLogin(user: User, options: DeleteAccountOptions) {
+  const method = getReauthenticationMethod(user);
+  if (options.password && user.email) {
+    try {
+      await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, options.password));
+      return;
+    } catch (error) {
+      console.error('[AccountDeletion] Re-authentication failed:', error);
+      throw new ReauthenticationRequiredError(method, 'That password is not correct');
+    }
+  }
+  if (options.phoneVerification) {
+    const { verificationId, code } = options.phoneVerification;
+    try {
+      await reauthenticateWithCredential(user, phoneCredential(verificationId, code));
+      return;
+    } catch (error) {
+      console.error('[AccountDeletion] Phone re-authentication failed:', error);
+      throw new ReauthenticationRequiredError(method, 'That code is not right. Check the SMS and try again');
+    }
+  }
+  if (isRecentLogin(user)) {
+    return;
+  }
+  try {
+    if (method === 'guest') {
+      await reauthenticateGuest(user);
+      return;
+    }
+    if ((method === 'google' || method === 'apple') && await reauthenticateWithProvider(user, method)) {
+      return;
+    }
+  } catch (error) {
+    console.error(`[AccountDeletion] Re-authentication with ${method} failed:`, error);
+  }
+  throw new ReauthenticationRequiredError(method);
+}
+
+/** Texts a code to the signed-in learner's number, for deleteAccount's phoneVerification. Returns the verification id. */
+export async function sendReauthenticationCode(): Promise<string> {
+  const phoneNumber = auth.currentUser?.phoneNumber;
+  if (!phoneNumber) {
+    throw new ReauthenticationRequiredError('phone', 'This account has no phone number');
+  }
+  return sendVerificationCode(phoneNumber);
+}
+
+async function deleteMedia() {
+  await forgetAllDownloads();
+  await clearMediaCache();
+  await FileSystem.deleteAsync(`${FileSystem.documentDirectory}${CONTENT_DIRECTORY}`, { idempotent: true });
+}
+
+async function clearLocalStorage() {
+  await AsyncStorage.clear();
+  for (const key of SECURE_STORE_KEYS) {
+    await SecureStore.deleteItemAsync(key);
+  }
+  await clearGuestCredentials();
+}
+
+/**
+ * Deletes the signed-in learner's account: the backend record first, then the
+ * Firebase user, then everything this device holds for them. Throws (having
+ * deleted nothing) when re-authentication is needed or the backend refuses;
+ * after that, every step is attempted and the ones that failed are reported.
+ * The caller signs out afterwards.
+ */
+export async function deleteAccount(options: DeleteAccountOptions = {}): Promise<AccountDeletionResult> {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new ReauthenticationRequiredError('password', 'Please sign in again to delete your account');
+  }
+
+  await ensureRecentLogin(user, options);
+  await deleteLanguageLearner(user.uid);
+
+  const steps: [AccountCleanupStep, () => Promise<unknown>][] = [
+    ['firebase', () => deleteUser(user)],
+    ['purchases', () => getPurchaseService().resetUser()],
+    ['push_token', () => Notifications.unregisterForNotificationsAsync()],
+    ['media', deleteMedia],
+    ['local_storage', clearLocalStorage],
+  ];
+
+  const failedSteps: AccountCleanupStep[] = [];
+  for (const [step, run] of steps) {
+    try {
+      await run();
+    } catch (error) {
+      console.error(`[AccountDeletion] Step "${step}" failed:`, error);
+      failedSteps.push(step);
+    }
+  }
+  return { failedSteps };
+}
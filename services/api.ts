@@ -1,4 +1,5 @@
 import { API_BASE_URL, HOST_URL } from '@/config/api';
+import { authenticatedFetch } from './authenticatedFetch';
 
 
 export interface MySubjectsResponse {
@@ -19,7 +20,7 @@ function ensureHttps(url: string): string {
 }
 
 export async function fetchMySubjects(uid: string): Promise<MySubjectsResponse> {
-  const response = await fetch(
+  const response = await authenticatedFetch(
     `${API_BASE_URL}/learner/subjects?uid=${uid}`
   );
 
@@ -53,7 +54,7 @@ export async function getLearner(uid: string): Promise<{
   avatar: string;
   follow_me_code: string;
 }> {
-  const response = await fetch(
+  const response = await authenticatedFetch(
     `${API_BASE_URL}/learner?uid=${uid}`
   );
 
@@ -78,7 +79,7 @@ export async function createLearner(uid: string, data: {
   email: string;
   avatar: string;
 }): Promise<{ status: string }> {
-  const response = await fetch(
+  const response = await authenticatedFetch(
     `${API_BASE_URL}/learner/create`,
     {
       method: 'POST',
@@ -121,7 +122,7 @@ interface GradesResponse {
 }
 
 export async function fetchGrades(): Promise<Grade[]> {
-  const response = await fetch(
+  const response = await authenticatedFetch(
     ensureHttps(`${API_BASE_URL}/grades`)
   );
 
@@ -135,7 +136,7 @@ export async function fetchGrades(): Promise<Grade[]> {
 
 
 export async function removeResults(uid: string, subjectName: string): Promise<void> {
-  const response = await fetch(
+  const response = await authenticatedFetch(
     ensureHttps(`${API_BASE_URL}/learner/remove-results?uid=${uid}&subject_name=${subjectName}`),
     {
       method: 'DELETE',
@@ -170,7 +171,7 @@ interface SubjectStats {
 
 export async function getSubjectStats(uid: string, subjectName: string): Promise<SubjectStats> {
   try {
-    const response = await fetch(
+    const response = await authenticatedFetch(
       ensureHttps(`${API_BASE_URL}/learner/subject-stats?uid=${uid}&subject_name=${subjectName}`),
       { method: 'GET' }
     );
@@ -196,7 +197,7 @@ interface QuestionStatusData {
 
 export async function setQuestionStatus(data: QuestionStatusData): Promise<void> {
   try {
-    const response = await fetch(
+    const response = await authenticatedFetch(
       ensureHttps(`${API_BASE_URL}/question/set-status`),
       {
         method: 'POST',
@@ -220,7 +221,7 @@ export async function setQuestionStatus(data: QuestionStatusData): Promise<void>
 }
 
 export async function updatePushToken(uid: string, pushToken: string): Promise<void> {
-  const response = await fetch(
+  const response = await authenticatedFetch(
     `${HOST_URL}/api/push-notifications/update-token`,
     {
       method: 'POST',
@@ -249,7 +250,7 @@ interface ReportMessageData {
 
 export async function reportMessage(data: ReportMessageData): Promise<void> {
   try {
-    const response = await fetch(
+    const response = await authenticatedFetch(
       ensureHttps(`${API_BASE_URL}/report/create`),
       {
         method: 'POST',
@@ -278,7 +279,7 @@ interface UploadFileResponse {
 }
 
 export async function uploadFile(formData: FormData): Promise<UploadFileResponse> {
-  const response = await fetch(`${API_BASE_URL}/chat/upload-file`, {
+  const response = await authenticatedFetch(`${API_BASE_URL}/chat/upload-file`, {
     method: 'POST',
     body: formData,
   });
@@ -303,7 +304,7 @@ export interface LearnerBadge {
 }
 
 export async function getLearnerBadges(uid: string): Promise<LearnerBadge[]> {
-  const response = await fetch(
+  const response = await authenticatedFetch(
     `${HOST_URL}/api/badges/learner/${uid}`
   );
 
@@ -323,7 +324,7 @@ export interface Badge {
 }
 
 export async function getAllBadges(): Promise<Badge[]> {
-  const response = await fetch(
+  const response = await authenticatedFetch(
     `${HOST_URL}/api/badges`
   );
 
@@ -351,7 +352,7 @@ export interface LearnerPerformanceResponse {
 
 export async function getLearnerPerformance(uid: string): Promise<LearnerPerformanceResponse> {
   try {
-      const response = await fetch(`${HOST_URL}/api/learner/${uid}/subject-performance`);
+      const response = await authenticatedFetch(`${HOST_URL}/api/learner/${uid}/subject-performance`);
       if (!response.ok) {
           throw new Error('Failed to fetch learner performance');
       }
@@ -376,7 +377,7 @@ export interface MessagesResponse {
 }
 
 export async function getMessages(): Promise<MessagesResponse> {
-  const response = await fetch(`${HOST_URL}/public/learn/messages`);
+  const response = await authenticatedFetch(`${HOST_URL}/public/learn/messages`);
   if (!response.ok) {
     throw new Error('Failed to fetch messages');
   }
@@ -384,7 +385,7 @@ export async function getMessages(): Promise<MessagesResponse> {
 }
 
 export async function updateVersion(uid: string, version: string, os: string): Promise<{ success: boolean; message: string }> {
-  const response = await fetch(
+  const response = await authenticatedFetch(
     `${API_BASE_URL}/learner/update-version`,
     {
       method: 'PUT',
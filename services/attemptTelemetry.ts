@@ -0,0 +1,135 @@
+import { AnswerAttempt } from '@/types/api';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { AppState } from 'react-native';
+import { ApiError, uploadAnswerAttempts } from './languageApi';
+
+const QUEUE_KEY = 'attemptQueue';
+// Uploaded once this many attempts are waiting, and whenever the app goes to the background
+const BATCH_SIZE = 20;
+// Attempts are only telemetry; past this the oldest are dropped rather than growing storage forever
+const MAX_QUEUED = 500;
+
+type QueuedAttempt = AnswerAttempt & { uid: string };
+
+let queue: QueuedAttempt[] | null = null;
+let loading: Promise<QueuedAttempt[]> | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+let flushing: Promise<void> | null = null;
+
+async function loadQueue(): Promise<QueuedAttempt[]> {
+  if (queue) {
+    return queue;
+  }
+  if (!loading) {
+    loading = AsyncStorage.getItem(QUEUE_KEY)
+      .then(stored => {
+        queue = stored ? JSON.parse(stored) : [];
+        return queue as QueuedAttempt[];
+      })
+      .catch(error => {
+        console.error('[Attempts] Error loading attempt queue:', error);
+        queue = [];
+        return queue;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+  return loading;
+}
+
+async function updateQueue(update: (current: QueuedAttempt[]) => QueuedAttempt[]): Promise<void> {
+  await loadQueue();
+  queue = update(queue as QueuedAttempt[]).slice(-MAX_QUEUED);
+  writeChain = writeChain
+    .then(() => AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue)))
+    .catch(error => console.error('[Attempts] Error saving attempt queue:', error));
+  return writeChain;
+}
+
+async function drain() {
+  while (true) {
+    const current = await loadQueue();
+    if (current.length === 0) {
+      return;
+    }
+
+    // Batches never mix learners, in case someone signed out with attempts still queued
+    const uid = current[0].uid;
+    const batch = current.filter(attempt => attempt.uid === uid).slice(0, BATCH_SIZE);
+    try {
+      await uploadAnswerAttempts(uid, batch.map(({ uid: _uid, ...attempt }) => attempt));
+    } catch (error) {
+      // A 4xx will be rejected the same way next time, so the batch is dropped. Auth
+      // errors aren't: the learner's session may have expired, and they'll sign in again
+      if (!(error instanceof ApiError && error.status >= 400 && error.status < 500 && ![401, 403].includes(error.status))) {
+        return;
+      }
+      console.error('[Attempts] Dropping rejected attempt batch:', error);
+    }
+
+    const sent = new Set(batch.map(attempt => attempt.id));
+    await updateQueue(attempts => attempts.filter(attempt => !sent.has(attempt.id)));
+  }
+}
+
+/** Uploads every queued attempt. Stops quietly at the first failure and tries again on the next flush. */
+export function flushAttempts(): Promise<void> {
+  if (!flushing) {
+    flushing = drain()
+      .catch(error => console.error('[Attempts] Error uploading attempts:', error))
+      .finally(() => {
+        flushing = null;
+      });
+  }
+  return flushing;
+}
+
+/** Queues an answer attempt for the signed-in learner and uploads once a full batch is waiting. */
+export async function recordAttempt(uid: string, attempt: Omit<AnswerAttempt, 'id' | 'answeredAt'>): Promise<void> {
+  try {
+    const queued: QueuedAttempt = {
+      ...attempt,
+      id: Crypto.randomUUID(),
+      answeredAt: new Date().toISOString(),
+      uid,
+    };
+    await updateQueue(current => [...current, queued]);
+    if ((queue?.length ?? 0) >= BATCH_SIZE) {
+      flushAttempts();
+    }
+  } catch (error) {
+    console.error('[Attempts] Error recording attempt:', error);
+  }
+}
+
+/**
+ * Drops every queued attempt (e.g. on sign-out once a last flush has been
+ * tried), or every one but the given learner's.
+ */
+export async function clearAttempts(keepUid?: string): Promise<void> {
+  const current = await loadQueue();
+  if (keepUid) {
+    return updateQueue(() => current.filter(attempt => attempt.uid === keepUid));
+  }
+  queue = [];
+  writeChain = writeChain
+    .then(() => AsyncStorage.removeItem(QUEUE_KEY))
+    .catch(error => console.error('[Attempts] Error clearing attempt queue:', error));
+  return writeChain;
+}
+
+/** Uploads leftovers on start-up and whenever the app is sent to the background. Returns a cleanup function. */
+export function startAttemptSync(): () => void {
+  const appStateSubscription = AppState.addEventListener('change', state => {
+    if (state === 'background') {
+      flushAttempts();
+    }
+  });
+  flushAttempts();
+
+  return () => {
+    appStateSubscription.remove();
+  };
+}
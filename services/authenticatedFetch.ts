@@ -0,0 +1,86 @@
+import { auth } from '@/config/firebase';
+import { onAuthStateChanged } from 'firebase/auth';
+
+type UnauthorizedHandler = () => Promise<void> | void;
+
+let authStateReady: Promise<void> | null = null;
+let unauthorizedHandler: UnauthorizedHandler | null = null;
+let isHandlingUnauthorized = false;
+
+// Firebase restores the signed-in user asynchronously at startup; requests made
+// before then would otherwise go out without a token and bounce with a 401
+function whenAuthStateReady(): Promise<void> {
+  if (!authStateReady) {
+    authStateReady = new Promise(resolve => {
+      const unsubscribe = onAuthStateChanged(auth, () => {
+        unsubscribe();
+        resolve();
+      });
+    });
+  }
+  return authStateReady;
+}
+
+/**
+ * The signed-in user's Firebase ID token, or null when nobody is signed in.
+ * Firebase caches the token and refreshes it shortly before it expires;
+ * `forceRefresh` fetches a new one regardless.
+ */
+export async function getIdToken(forceRefresh = false): Promise<string | null> {
+  await whenAuthStateReady();
+  const user = auth.currentUser;
+  return user ? user.getIdToken(forceRefresh) : null;
+}
+
+/** Called once when the backend still answers 401 after a token refresh. AuthProvider signs out and goes to /login. */
+export function setUnauthorizedHandler(handler: UnauthorizedHandler | null): void {
+  unauthorizedHandler = handler;
+}
+
+async function fetchWithToken(url: string, init: RequestInit, forceRefresh: boolean): Promise<Response> {
+  const token = await getIdToken(forceRefresh);
+  const headers = new Headers(init.headers);
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+  return fetch(url, { ...init, headers });
+}
+
+async function handleUnauthorized() {
+  // Several requests can fail together; only the first one signs out
+  if (isHandlingUnauthorized || !unauthorizedHandler) return;
+  isHandlingUnauthorized = true;
+  try {
+    await unauthorizedHandler();
+  } catch (error) {
+    console.error('[AuthenticatedFetch] Error handling 401:', error);
+  } finally {
+    isHandlingUnauthorized = false;
+  }
+}
+
+/**
+ * `fetch` for backend requests: sends the Firebase ID token as
+ * `Authorization: Bearer …`. A 401 is retried once with a freshly issued
+ * token (the backend may have seen a revoked or clock-skewed one); if it is
+ * still refused, the unauthorized handler runs and the 401 is returned to the
+ * caller as usual. A 401 with nobody signed in is just returned: there is no
+ * session to end.
+ */
+export async function authenticatedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  let response = await fetchWithToken(url, init, false);
+  if (response.status !== 401) {
+    return response;
+  }
+
+  // Only a signed-in user has a token worth refreshing, or a session to end
+  if (!auth.currentUser) {
+    return response;
+  }
+
+  response = await fetchWithToken(url, init, true);
+  if (response.status === 401) {
+    await handleUnauthorized();
+  }
+  return response;
+}
@@ -0,0 +1,240 @@
+import { ENTITLEMENT_CONFIG } from '@/config/entitlements';
+import type { CustomerInfo, PurchasesOffering } from 'react-native-purchases';
+import { PaywallOutcome, PurchasePackage, PurchaseService } from './purchaseService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ANONYMOUS_USER = '$RCAnonymousID:fake';
+
+export type FakePurchaseOutcome = 'success' | 'cancel' | 'failure';
+
+export interface FakeProduct {
+  identifier: string;
+  title: string;
+  price: number;
+  priceString: string;
+  /** How long one purchase lasts, or null for a lifetime purchase. */
+  periodDays: number | null;
+}
+
+export interface FakePurchaseStoreOptions {
+  products?: FakeProduct[];
+  entitlementId?: string;
+  /** The store's clock starts here and only moves with advanceTime. */
+  startAt?: Date;
+}
+
+/**
+ * A PurchaseService that keeps everything in memory and behaves the same on
+ * every run. Purchases succeed unless told otherwise with setNextPurchaseOutcome;
+ * time only passes when advanceTime is called, so expiry can be tested.
+ */
+export interface FakePurchaseStore extends PurchaseService {
+  /** Applies to the next purchase or paywall only, then falls back to 'success'. */
+  setNextPurchaseOutcome(outcome: FakePurchaseOutcome): void;
+  advanceTime(ms: number): void;
+  now(): Date;
+}
+
+interface FakeTransaction {
+  productIdentifier: string;
+  purchasedAt: Date;
+  expiresAt: Date | null;
+}
+
+export const DEFAULT_FAKE_PRODUCTS: FakeProduct[] = [
+  { identifier: 'premium_monthly', title: 'Premium (monthly)', price: 4.99, priceString: '$4.99', periodDays: 30 },
+  { identifier: 'premium_yearly', title: 'Premium (yearly)', price: 39.99, priceString: '$39.99', periodDays: 365 },
+];
+
+class CancelledPurchaseError extends Error {
+  userCancelled = true;
+
+  constructor() {
+    super('Purchase was cancelled');
+    this.name = 'CancelledPurchaseError';
+  }
+}
+
+export function createFakePurchaseStore(options: FakePurchaseStoreOptions = {}): FakePurchaseStore {
+  const products = options.products ?? DEFAULT_FAKE_PRODUCTS;
+  const entitlementId = options.entitlementId ?? ENTITLEMENT_CONFIG.premiumEntitlementId;
+  let clock = (options.startAt ?? new Date('2025-01-01T00:00:00Z')).getTime();
+  let nextOutcome: FakePurchaseOutcome = 'success';
+  let currentUser = ANONYMOUS_USER;
+  // What the device's store account has bought, whoever was signed in at the time
+  const storeTransactions: FakeTransaction[] = [];
+  // Which of those each app user has been given
+  const userTransactions = new Map<string, FakeTransaction[]>();
+
+  const now = () => new Date(clock);
+
+  const takeOutcome = () => {
+    const outcome = nextOutcome;
+    nextOutcome = 'success';
+    return outcome;
+  };
+
+  const transactionsFor = (userId: string) => userTransactions.get(userId) ?? [];
+
+  const isActive = (transaction: FakeTransaction) =>
+    transaction.expiresAt === null || transaction.expiresAt.getTime() > clock;
+
+  const buildOffering = (): PurchasesOffering => {
+    const availablePackages = products.map(product => ({
+      identifier: `$rc_${product.identifier}`,
+      packageType: 'CUSTOM',
+      offeringIdentifier: 'default',
+      presentedOfferingContext: { offeringIdentifier: 'default', placementIdentifier: null, targetingContext: null },
+      product: {
+        identifier: product.identifier,
+        title: product.title,
+        description: product.title,
+        price: product.price,
+        priceString: product.priceString,
+        currencyCode: 'USD',
+      },
+    }));
+    return {
+      identifier: 'default',
+      serverDescription: 'Fake store offering',
+      metadata: {},
+      availablePackages,
+      lifetime: null,
+      annual: null,
+      sixMonth: null,
+      threeMonth: null,
+      twoMonth: null,
+      monthly: null,
+      weekly: null,
+    } as unknown as PurchasesOffering;
+  };
+
+  const buildCustomerInfo = (): CustomerInfo => {
+    const transactions = transactionsFor(currentUser);
+    const active = transactions.filter(isActive);
+    const latest = [...transactions].sort((a, b) => b.purchasedAt.getTime() - a.purchasedAt.getTime())[0];
+    const activeLatest = active.sort((a, b) => b.purchasedAt.getTime() - a.purchasedAt.getTime())[0];
+    const toIso = (date: Date | null) => (date ? date.toISOString() : null);
+
+    const entitlementFor = (transaction: FakeTransaction) => ({
+      identifier: entitlementId,
+      isActive: isActive(transaction),
+      willRenew: false,
+      periodType: 'NORMAL',
+      latestPurchaseDate: transaction.purchasedAt.toISOString(),
+      originalPurchaseDate: transaction.purchasedAt.toISOString(),
+      expirationDate: toIso(transaction.expiresAt),
+      store: 'TEST_STORE',
+      productIdentifier: transaction.productIdentifier,
+      isSandbox: true,
+      unsubscribeDetectedAt: null,
+      billingIssueDetectedAt: null,
+    });
+
+    return {
+      entitlements: {
+        all: latest ? { [entitlementId]: entitlementFor(activeLatest ?? latest) } : {},
+        active: activeLatest ? { [entitlementId]: entitlementFor(activeLatest) } : {},
+      },
+      activeSubscriptions: active.filter(t => t.expiresAt !== null).map(t => t.productIdentifier),
+      allPurchasedProductIdentifiers: [...new Set(transactions.map(t => t.productIdentifier))],
+      latestExpirationDate: toIso(latest?.expiresAt ?? null),
+      allExpirationDates: Object.fromEntries(transactions.map(t => [t.productIdentifier, toIso(t.expiresAt)])),
+      allPurchaseDates: Object.fromEntries(transactions.map(t => [t.productIdentifier, t.purchasedAt.toISOString()])),
+      firstSeen: now().toISOString(),
+      originalAppUserId: currentUser,
+      requestDate: now().toISOString(),
+      originalApplicationVersion: null,
+      originalPurchaseDate: null,
+      managementURL: null,
+      nonSubscriptionTransactions: [],
+      subscriptionsByProductIdentifier: {},
+    } as unknown as CustomerInfo;
+  };
+
+  const buy = (productIdentifier: string) => {
+    const product = products.find(p => p.identifier === productIdentifier);
+    if (!product) {
+      throw new Error(`Unknown product: ${productIdentifier}`);
+    }
+    const transaction: FakeTransaction = {
+      productIdentifier,
+      purchasedAt: now(),
+      expiresAt: product.periodDays === null ? null : new Date(clock + product.periodDays * DAY_MS),
+    };
+    storeTransactions.push(transaction);
+    userTransactions.set(currentUser, [...transactionsFor(currentUser), transaction]);
+  };
+
+  const store: FakePurchaseStore = {
+    async initialize() { },
+
+    async getOfferings() {
+      return products.length > 0 ? buildOffering() : null;
+    },
+
+    async purchasePackage(packageToPurchase: PurchasePackage) {
+      const outcome = takeOutcome();
+      if (outcome === 'cancel') {
+        throw new CancelledPurchaseError();
+      }
+      if (outcome === 'failure') {
+        throw new Error('Purchase failed');
+      }
+      buy(packageToPurchase.product.identifier);
+      return buildCustomerInfo();
+    },
+
+    async restorePurchases() {
+      // Like the real stores: whatever the device bought moves to whoever is signed in now
+      for (const [userId, transactions] of userTransactions) {
+        if (userId !== currentUser) {
+          userTransactions.set(userId, transactions.filter(t => !storeTransactions.includes(t)));
+        }
+      }
+      userTransactions.set(currentUser, [...storeTransactions]);
+      return buildCustomerInfo();
+    },
+
+    async getCustomerInfo() {
+      return buildCustomerInfo();
+    },
+
+    async identifyUser(userId: string) {
+      currentUser = userId;
+    },
+
+    async resetUser() {
+      currentUser = ANONYMOUS_USER;
+    },
+
+    async presentPaywall(offering?: PurchasesOffering | null): Promise<PaywallOutcome> {
+      const paywallOffering = offering ?? (await store.getOfferings());
+      if (!paywallOffering || paywallOffering.availablePackages.length === 0) {
+        throw new Error('No offerings available');
+      }
+      const outcome = takeOutcome();
+      if (outcome === 'cancel') {
+        return 'cancelled';
+      }
+      if (outcome === 'failure') {
+        return 'error';
+      }
+      // The paywall "buys" the first package on offer
+      buy(paywallOffering.availablePackages[0].product.identifier);
+      return 'purchased';
+    },
+
+    setNextPurchaseOutcome(outcome: FakePurchaseOutcome) {
+      nextOutcome = outcome;
+    },
+
+    advanceTime(ms: number) {
+      clock += ms;
+    },
+
+    now,
+  };
+
+  return store;
+}
@@ -0,0 +1,99 @@
+import { auth } from '@/config/firebase';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import { EmailAuthProvider, reauthenticateWithCredential, updateEmail, updatePassword, User } from 'firebase/auth';
+import { queueMutation } from './progressOutbox';
+
+const CREDENTIALS_KEY = 'guestCredentials';
+const GUEST_EMAIL_DOMAIN = '@guest.com';
+// Guests created before credentials were randomised all share this password
+const LEGACY_GUEST_PASSWORD = 'password';
+
+export interface GuestCredentials {
+  email: string;
+  password: string;
+}
+
+function randomHex(byteCount: number): string {
+  return Array.from(Crypto.getRandomBytes(byteCount))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/** Fresh random credentials for a guest. They never leave the device except to Firebase. */
+export function generateGuestCredentials(): GuestCredentials {
+  return {
+    email: `${randomHex(8)}${GUEST_EMAIL_DOMAIN}`,
+    password: randomHex(24),
+  };
+}
+
+export function isGuestEmail(email: string | null | undefined): boolean {
+  return !!email && email.endsWith(GUEST_EMAIL_DOMAIN);
+}
+
+export async function saveGuestCredentials(credentials: GuestCredentials): Promise<void> {
+  await SecureStore.setItemAsync(CREDENTIALS_KEY, JSON.stringify(credentials));
+}
+
+export async function getGuestCredentials(): Promise<GuestCredentials | null> {
+  try {
+    const stored = await SecureStore.getItemAsync(CREDENTIALS_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('[GuestAccount] Error reading guest credentials:', error);
+    return null;
+  }
+}
+
+export async function clearGuestCredentials(): Promise<void> {
+  await SecureStore.deleteItemAsync(CREDENTIALS_KEY);
+}
+
+/** Signs the guest in again with their stored (or legacy) password so Firebase allows sensitive changes. */
+export async function reauthenticateGuest(user: User): Promise<void> {
+  if (!user.email) {
+    throw new Error('Guest account has no email');
+  }
+  const stored = await getGuestCredentials();
+  const password = stored?.email === user.email ? stored.password : LEGACY_GUEST_PASSWORD;
+  await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, password));
+}
+
+/**
+ * Turns the signed-in guest into a full account with the learner's own email
+ * and password. The Firebase user (and so the uid) stays the same, so points,
+ * streak, progress and subscription all carry over; the backend learner's
+ * email is updated to match.
+ */
+export async function upgradeGuestAccount(email: string, password: string): Promise<User> {
+  const user = auth.currentUser;
+  if (!user || !isGuestEmail(user.email)) {
+    throw new Error('Only guest accounts can be upgraded');
+  }
+
+  await reauthenticateGuest(user);
+  // The guest already signs in with email and password, so the credential is
+  // swapped in place rather than linked as a second provider. The password is
+  // changed and saved first: if the email change then fails, the stored
+  // credentials still sign the guest in and the upgrade can be tried again
+  await updatePassword(user, password);
+  await saveGuestCredentials({ email: user.email as string, password });
+  await updateEmail(user, email);
+
+  // Firebase is the source of truth for sign-in; the outbox keeps trying until the backend copy matches
+  await queueMutation(user.uid, { kind: 'learnerEmail', payload: { email } });
+
+  await clearGuestCredentials();
+  try {
+    const onboardingData = await AsyncStorage.getItem('onboardingData');
+    if (onboardingData) {
+      await AsyncStorage.setItem('onboardingData', JSON.stringify({ ...JSON.parse(onboardingData), isGuest: false }));
+    }
+  } catch (error) {
+    console.error('[GuestAccount] Error updating onboarding data:', error);
+  }
+
+  return user;
+}
@@ -0,0 +1,98 @@
+import { TierRules } from '@/config/entitlements';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const STORAGE_KEY = 'hearts';
+
+interface StoredHearts {
+  count: number;
+  /** When the next heart started coming back. Only meaningful below max. */
+  regenStartedAt: string;
+}
+
+export interface HeartsStatus {
+  hearts: number;
+  maxHearts: number;
+  /** When the next heart comes back, or null when full. */
+  nextHeartAt: Date | null;
+}
+
+type LimitedRules = TierRules & { maxHearts: number };
+
+let writeChain: Promise<unknown> = Promise.resolve();
+
+async function readHearts(rules: LimitedRules): Promise<StoredHearts> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error('[Hearts] Error reading hearts:', error);
+  }
+  return { count: rules.maxHearts, regenStartedAt: new Date().toISOString() };
+}
+
+// Adds every heart that has come back since regenStartedAt, carrying over the partial one
+function regenerate(stored: StoredHearts, rules: LimitedRules, now: number): StoredHearts {
+  if (stored.count >= rules.maxHearts) {
+    return { count: rules.maxHearts, regenStartedAt: new Date(now).toISOString() };
+  }
+  const regenMs = rules.heartRegenMinutes * 60 * 1000;
+  const startedAt = new Date(stored.regenStartedAt).getTime();
+  const regained = regenMs > 0 ? Math.floor((now - startedAt) / regenMs) : rules.maxHearts;
+  const count = Math.min(rules.maxHearts, stored.count + regained);
+  return {
+    count,
+    regenStartedAt: new Date(count >= rules.maxHearts ? now : startedAt + regained * regenMs).toISOString(),
+  };
+}
+
+function toStatus(stored: StoredHearts, rules: LimitedRules): HeartsStatus {
+  const regenMs = rules.heartRegenMinutes * 60 * 1000;
+  return {
+    hearts: stored.count,
+    maxHearts: rules.maxHearts,
+    nextHeartAt: stored.count < rules.maxHearts
+      ? new Date(new Date(stored.regenStartedAt).getTime() + regenMs)
+      : null,
+  };
+}
+
+// Changes are chained so a wrong answer and a refill can't overwrite each other
+function updateHearts(rules: LimitedRules, update: (current: StoredHearts) => StoredHearts): Promise<HeartsStatus> {
+  const result = writeChain.then(async () => {
+    const now = Date.now();
+    const next = update(regenerate(await readHearts(rules), rules, now));
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error('[Hearts] Error saving hearts:', error);
+    }
+    return toStatus(next, rules);
+  });
+  writeChain = result.catch(() => undefined);
+  return result;
+}
+
+export function getHeartsStatus(rules: LimitedRules): Promise<HeartsStatus> {
+  return updateHearts(rules, current => current);
+}
+
+/** Takes one heart. A full set starts regenerating from now. */
+export function loseHeart(rules: LimitedRules): Promise<HeartsStatus> {
+  return updateHearts(rules, current => ({
+    count: Math.max(0, current.count - 1),
+    regenStartedAt: current.count >= rules.maxHearts ? new Date().toISOString() : current.regenStartedAt,
+  }));
+}
+
+export function refillHearts(rules: LimitedRules): Promise<HeartsStatus> {
+  return updateHearts(rules, () => ({ count: rules.maxHearts, regenStartedAt: new Date().toISOString() }));
+}
+
+/** Forgets the stored hearts, e.g. on sign-out. The next learner starts with a full set. */
+export function clearHearts(): Promise<void> {
+  const result = writeChain.then(() => AsyncStorage.removeItem(STORAGE_KEY));
+  writeChain = result.catch(() => undefined);
+  return result;
+}
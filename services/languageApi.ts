@@ -0,0 +1,179 @@
+import { HOST_URL } from '@/config/api';
+import {
+  AnswerAttempt,
+  DailyLessonQuota,
+  LanguageLearner,
+  LearnerEmailUpdate,
+  LearnerStreak,
+  Lesson,
+  LessonProgress,
+  LessonProgressUpdate,
+  PointsIncrement,
+  Question,
+  ScoreboardResponse,
+  UnitResources,
+} from '@/types/api';
+import { Language } from '@/types/language';
+import { authenticatedFetch } from './authenticatedFetch';
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly path: string;
+
+  constructor(message: string, status: number, path: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.path = path;
+  }
+}
+
+export class NotAuthenticatedError extends Error {
+  constructor(message = 'No auth data found') {
+    super(message);
+    this.name = 'NotAuthenticatedError';
+  }
+}
+
+async function request<T>(path: string, init: RequestInit, errorMessage: string): Promise<T> {
+  const response = await authenticatedFetch(`${HOST_URL}${path}`, init);
+  if (!response.ok) {
+    throw new ApiError(errorMessage, response.status, path);
+  }
+  // Some endpoints (e.g. question reports) answer with an empty body
+  const text = await response.text();
+  return text ? JSON.parse(text) : (undefined as T);
+}
+
+function get<T>(path: string, errorMessage: string): Promise<T> {
+  return request<T>(path, { method: 'GET' }, errorMessage);
+}
+
+export interface MutationOptions {
+  /** Sent as `Idempotency-Key` so the backend can drop replays of the same mutation. */
+  idempotencyKey?: string;
+}
+
+function send<T>(
+  method: 'POST' | 'PUT' | 'DELETE',
+  path: string,
+  body: unknown,
+  errorMessage: string,
+  options: MutationOptions = {}
+): Promise<T> {
+  return request<T>(
+    path,
+    {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    },
+    errorMessage
+  );
+}
+
+export function getWordAudioUrl(fileName: string): string {
+  return `${HOST_URL}/api/word/audio/get/${fileName}`;
+}
+
+export function getWordImageUrl(fileName: string): string {
+  return `${HOST_URL}/api/word/image/get/${fileName}`;
+}
+
+export function getLanguages(): Promise<Language[]> {
+  return get('/api/languages', 'Failed to fetch languages');
+}
+
+export function getLanguageLearner(uid: string): Promise<LanguageLearner> {
+  return get(`/api/language-learners/uid/${uid}`, 'Failed to fetch learner data');
+}
+
+export function getLearnerStreak(uid: string): Promise<LearnerStreak> {
+  return get(`/api/language-learners/${uid}/streak`, 'Failed to fetch learner streak');
+}
+
+export function updateLearnerName(uid: string, name: string): Promise<LanguageLearner> {
+  return send('PUT', `/api/language-learners/${uid}/name`, { name }, 'Failed to update profile');
+}
+
+export function updateLearnerEmail(uid: string, update: LearnerEmailUpdate, options?: MutationOptions): Promise<LanguageLearner> {
+  return send('PUT', `/api/language-learners/${uid}/email`, update, 'Failed to update email', options);
+}
+
+/** Permanently removes the learner and everything the backend holds for them (progress, points, push tokens). */
+export function deleteLanguageLearner(uid: string): Promise<unknown> {
+  return send('DELETE', `/api/language-learners/${uid}`, undefined, 'Failed to delete account');
+}
+
+/** `date` is the learner's local YYYY-MM-DD and `timeZone` an IANA zone, so the backend's day matches theirs. */
+export function getDailyLessonQuota(uid: string, date: string, timeZone: string): Promise<DailyLessonQuota> {
+  const query = `date=${date}&timeZone=${encodeURIComponent(timeZone)}`;
+  return get(`/api/language-learners/${uid}/daily-quota?${query}`, 'Failed to fetch daily lesson quota');
+}
+
+export function getScoreboard(uid: string): Promise<ScoreboardResponse> {
+  return get(`/api/language-learners/scoreboard/${uid}`, 'Failed to fetch scoreboard');
+}
+
+/**
+ * Returns the learner's lesson progress for a language. A learner who has not
+ * started the language yet gets a 404 from the backend, which maps to [].
+ */
+export async function getLearnerProgress(uid: string, languageCode: string): Promise<LessonProgress[]> {
+  try {
+    return await get(`/api/language-learners/${uid}/progress/${languageCode}`, 'Failed to fetch progress');
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+export function updateLessonProgress(
+  uid: string,
+  update: LessonProgressUpdate,
+  options?: MutationOptions
+): Promise<LessonProgress> {
+  return send('POST', `/api/language-learners/${uid}/progress`, update, 'Failed to update lesson progress', options);
+}
+
+export function incrementPoints(uid: string, increment: PointsIncrement, options?: MutationOptions): Promise<unknown> {
+  return send('POST', `/api/language-learners/${uid}/increment-points`, increment, 'Failed to increment points', options);
+}
+
+export function uploadAnswerAttempts(uid: string, attempts: AnswerAttempt[]): Promise<unknown> {
+  return send('POST', `/api/language-learners/${uid}/attempts`, { attempts }, 'Failed to upload answer attempts');
+}
+
+export function getLessons(languageCode: string): Promise<Lesson[]> {
+  return get(`/api/lessons?language=${languageCode}`, 'Failed to fetch lessons');
+}
+
+export function getLessonQuestions(lessonId: number | string, languageCode: string): Promise<Question[]> {
+  return get(`/api/language-questions/lesson/${lessonId}/language/${languageCode}`, 'Failed to fetch lesson questions');
+}
+
+export function reportQuestion(questionId: number | string): Promise<unknown> {
+  return send('POST', `/api/language-questions/${questionId}/report`, undefined, 'Failed to report question');
+}
+
+export function getUnitResources(unitId: number, languageCode: string): Promise<UnitResources> {
+  return get(`/api/unit-resources/${unitId}/${languageCode}`, 'Failed to fetch resource list');
+}
+
+export interface SpeechTranscript {
+  transcript: string;
+}
+
+/** Uploads a recording of the learner and returns what the backend heard. */
+export function transcribeSpeech(audioUri: string, languageCode: string): Promise<SpeechTranscript> {
+  const body = new FormData();
+  body.append('language', languageCode);
+  // React Native's FormData takes a file descriptor object in place of a Blob
+  body.append('audio', { uri: audioUri, name: 'speech.m4a', type: 'audio/m4a' } as any);
+  return request('/api/speech/transcribe', { method: 'POST', body }, 'Failed to transcribe speech');
+}
@@ -0,0 +1,151 @@
+import { Lesson, Question } from '@/types/api';
+import NetInfo from '@react-native-community/netinfo';
+import * as FileSystem from 'expo-file-system';
+import { getLessonQuestions, getLessons } from './languageApi';
+
+/**
+ * Bump whenever the shape of Lesson or Question changes. Stored content from an
+ * older version is ignored, so the app never renders a payload it can't read.
+ */
+const CONTENT_SCHEMA_VERSION = 1;
+
+interface StoredContent<T> {
+  schemaVersion: number;
+  savedAt: string;
+  data: T;
+}
+
+function languageDir(languageCode: string): string {
+  return `${FileSystem.documentDirectory}content/${languageCode}/`;
+}
+
+function lessonsPath(languageCode: string): string {
+  return `${languageDir(languageCode)}lessons.json`;
+}
+
+function questionsPath(languageCode: string, lessonId: number | string): string {
+  return `${languageDir(languageCode)}questions/${lessonId}.json`;
+}
+
+async function readContent<T>(path: string): Promise<T | null> {
+  try {
+    const info = await FileSystem.getInfoAsync(path);
+    if (!info.exists) {
+      return null;
+    }
+    const stored: StoredContent<T> = JSON.parse(await FileSystem.readAsStringAsync(path));
+    if (stored.schemaVersion !== CONTENT_SCHEMA_VERSION) {
+      console.warn(`[ContentStore] Ignoring ${path}, saved with schema version ${stored.schemaVersion}`);
+      return null;
+    }
+    return stored.data;
+  } catch (error) {
+    console.error(`[ContentStore] Error reading ${path}:`, error);
+    return null;
+  }
+}
+
+async function writeContent<T>(path: string, data: T): Promise<void> {
+  const stored: StoredContent<T> = {
+    schemaVersion: CONTENT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    data,
+  };
+  await FileSystem.makeDirectoryAsync(path.substring(0, path.lastIndexOf('/')), { intermediates: true });
+  await FileSystem.writeAsStringAsync(path, JSON.stringify(stored));
+}
+
+async function isOffline(): Promise<boolean> {
+  const state = await NetInfo.fetch();
+  return state.isConnected === false || state.isInternetReachable === false;
+}
+
+/**
+ * Saves the lesson list and every lesson's questions for a unit, so the unit
+ * can be played without a connection.
+ */
+export async function downloadUnitContent(languageCode: string, unitId: number, lessons: Lesson[]): Promise<void> {
+  const unitLessons = lessons.filter(lesson => lesson.unitId === unitId);
+  const questionSets = await Promise.all(
+    unitLessons.map(lesson => getLessonQuestions(lesson.id, languageCode))
+  );
+
+  await writeContent(lessonsPath(languageCode), lessons);
+  await Promise.all(
+    unitLessons.map((lesson, index) => writeContent(questionsPath(languageCode, lesson.id), questionSets[index]))
+  );
+}
+
+/** True when every lesson in the unit has questions saved for offline use. */
+export async function hasUnitContent(languageCode: string, unitId: number, lessons: Lesson[]): Promise<boolean> {
+  const unitLessons = lessons.filter(lesson => lesson.unitId === unitId);
+  const stored = await Promise.all(
+    unitLessons.map(lesson => readContent<Question[]>(questionsPath(languageCode, lesson.id)))
+  );
+  return stored.every(questions => questions !== null);
+}
+
+export async function deleteUnitContent(languageCode: string, lessonIds: number[]): Promise<void> {
+  await Promise.all(
+    lessonIds.map(lessonId => FileSystem.deleteAsync(questionsPath(languageCode, lessonId), { idempotent: true }))
+  );
+}
+
+/** Bytes on disk for the saved questions of the given lessons. */
+export async function getUnitContentSize(languageCode: string, lessonIds: number[]): Promise<number> {
+  const infos = await Promise.all(
+    lessonIds.map(lessonId => FileSystem.getInfoAsync(questionsPath(languageCode, lessonId)))
+  );
+  return infos.reduce((sum, info) => sum + (info.exists ? info.size : 0), 0);
+}
+
+/**
+ * Fetches the lesson list, falling back to the downloaded copy when offline or
+ * when the request fails. A successful fetch refreshes any downloaded copy.
+ */
+export async function loadLessons(languageCode: string): Promise<Lesson[]> {
+  if (!(await isOffline())) {
+    try {
+      const lessons = await getLessons(languageCode);
+      if (await readContent(lessonsPath(languageCode))) {
+        await writeContent(lessonsPath(languageCode), lessons);
+      }
+      return lessons;
+    } catch (error) {
+      console.error('[ContentStore] Error fetching lessons, trying downloaded copy:', error);
+    }
+  }
+
+  const stored = await readContent<Lesson[]>(lessonsPath(languageCode));
+  if (!stored) {
+    throw new Error('Failed to fetch lessons');
+  }
+  return stored;
+}
+
+/**
+ * Fetches a lesson's questions, falling back to the downloaded copy when
+ * offline or when the request fails. A successful fetch refreshes any
+ * downloaded copy.
+ */
+export async function loadLessonQuestions(lessonId: number | string, languageCode: string): Promise<Question[]> {
+  const path = questionsPath(languageCode, lessonId);
+
+  if (!(await isOffline())) {
+    try {
+      const questions = await getLessonQuestions(lessonId, languageCode);
+      if (await readContent(path)) {
+        await writeContent(path, questions);
+      }
+      return questions;
+    } catch (error) {
+      console.error('[ContentStore] Error fetching lesson questions, trying downloaded copy:', error);
+    }
+  }
+
+  const stored = await readContent<Question[]>(path);
+  if (!stored) {
+    throw new Error('Failed to fetch lesson questions');
+  }
+  return stored;
+}
@@ -0,0 +1,115 @@
+import { ENTITLEMENT_CONFIG } from '@/config/entitlements';
+import { DailyLessonQuota } from '@/types/api';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getDailyLessonQuota } from './languageApi';
+import { getPendingCompletionCount } from './progressOutbox';
+
+const CACHE_KEY = 'dailyLessonQuota';
+// The backend is asked again after this; in between the cached answer is used
+const CACHE_TTL_MS = 60 * 1000;
+
+interface CachedQuota {
+  uid: string;
+  quota: DailyLessonQuota;
+  fetchedAt: number;
+}
+
+let cached: CachedQuota | null = null;
+
+/** The learner's local calendar day as YYYY-MM-DD (not the UTC day). */
+export function localDateString(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+function startOfLocalDay(date: Date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+async function readCache(uid: string): Promise<CachedQuota | null> {
+  if (!cached) {
+    try {
+      const stored = await AsyncStorage.getItem(CACHE_KEY);
+      cached = stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('[LessonQuota] Error reading cached quota:', error);
+    }
+  }
+  // A cached answer only counts for the learner it was given for
+  return cached && cached.uid === uid ? cached : null;
+}
+
+function isForToday(entry: CachedQuota): boolean {
+  return entry.quota.date === localDateString();
+}
+
+// Offline on a day the backend hasn't answered for yet: the last known limit starts
+// afresh, or the free tier's if there is none, rather than letting lessons through
+function startOfDayQuota(previous: CachedQuota | null): DailyLessonQuota {
+  const limit = previous ? previous.quota.limit : ENTITLEMENT_CONFIG.tiers.free.dailyLessonLimit;
+  return { date: localDateString(), limit, used: 0, remaining: limit };
+}
+
+async function writeCache(entry: CachedQuota) {
+  cached = entry;
+  try {
+    await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(entry));
+  } catch (error) {
+    console.error('[LessonQuota] Error caching quota:', error);
+  }
+}
+
+// Completions still in the outbox haven't been counted by the backend yet
+async function withPendingCompletions(uid: string, quota: DailyLessonQuota): Promise<DailyLessonQuota> {
+  const pending = await getPendingCompletionCount(uid, startOfLocalDay());
+  if (pending === 0 || quota.limit === null) {
+    return quota;
+  }
+  const used = quota.used + pending;
+  return { ...quota, used, remaining: Math.max(0, quota.limit - used) };
+}
+
+/**
+ * Today's lesson allowance for the signed-in learner (`uid` from useAuth). The backend's count is
+ * authoritative; it is cached briefly and, when the backend can't be reached,
+ * the last answer for today is used. With no answer for today yet, the last
+ * known limit is applied to today's pending completions.
+ */
+export async function getDailyQuota(uid: string, options: { refresh?: boolean } = {}): Promise<DailyLessonQuota> {
+  const previous = await readCache(uid);
+  const existing = previous && isForToday(previous) ? previous : null;
+
+  if (!existing || options.refresh || Date.now() - existing.fetchedAt > CACHE_TTL_MS) {
+    try {
+      const quota = await getDailyLessonQuota(uid, localDateString(), localTimeZone());
+      await writeCache({ uid, quota, fetchedAt: Date.now() });
+      return withPendingCompletions(uid, quota);
+    } catch (error) {
+      console.error('[LessonQuota] Error fetching daily quota:', error);
+    }
+  }
+
+  return withPendingCompletions(uid, existing ? existing.quota : startOfDayQuota(previous));
+}
+
+export function isQuotaExhausted(quota: DailyLessonQuota | null): boolean {
+  return quota !== null && quota.remaining !== null && quota.remaining <= 0;
+}
+
+/** Forces the next getDailyQuota to ask the backend, e.g. after a lesson is completed. */
+export function invalidateDailyQuota() {
+  if (cached) {
+    cached = { ...cached, fetchedAt: 0 };
+  }
+}
+
+/** Forgets the cached allowance, e.g. on sign-out. */
+export async function clearDailyQuotaCache(): Promise<void> {
+  cached = null;
+  await AsyncStorage.removeItem(CACHE_KEY);
+}
@@ -0,0 +1,90 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Sessions older than this are dropped instead of offered for resume
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const KEY_PREFIX = 'lessonSession:';
+
+/**
+ * Where a learner is in a lesson, checkpointed after every answered question
+ * so the lesson can be resumed if the app is closed part way through.
+ * Questions are stored by id and looked up again in the lesson's question list.
+ */
+export interface LessonSession {
+  lessonId: string;
+  languageCode: string;
+  currentQuestionIndex: number;
+  incorrectQuestionIds: number[];
+  correctStreak: number;
+  isRetryingIncorrect: boolean;
+  // The questions being retried, in order, while isRetryingIncorrect is set
+  retryQuestionIds: number[];
+  showReview: boolean;
+  savedAt: string;
+}
+
+function sessionKey(languageCode: string, lessonId: string | number) {
+  return `${KEY_PREFIX}${languageCode}:${lessonId}`;
+}
+
+function isExpired(session: LessonSession) {
+  return Date.now() - new Date(session.savedAt).getTime() > SESSION_TTL_MS;
+}
+
+export async function saveLessonSession(session: Omit<LessonSession, 'savedAt'>): Promise<void> {
+  try {
+    const stored: LessonSession = { ...session, savedAt: new Date().toISOString() };
+    await AsyncStorage.setItem(sessionKey(session.languageCode, session.lessonId), JSON.stringify(stored));
+  } catch (error) {
+    console.error('[LessonSession] Error saving session:', error);
+  }
+}
+
+/** Returns the saved session for a lesson, or null if there is none or it has expired. */
+export async function loadLessonSession(lessonId: string | number, languageCode: string): Promise<LessonSession | null> {
+  try {
+    const key = sessionKey(languageCode, lessonId);
+    const stored = await AsyncStorage.getItem(key);
+    if (!stored) {
+      return null;
+    }
+    const session: LessonSession = JSON.parse(stored);
+    if (isExpired(session)) {
+      await AsyncStorage.removeItem(key);
+      return null;
+    }
+    return session;
+  } catch (error) {
+    console.error('[LessonSession] Error loading session:', error);
+    return null;
+  }
+}
+
+export async function clearLessonSession(lessonId: string | number, languageCode: string): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(sessionKey(languageCode, lessonId));
+  } catch (error) {
+    console.error('[LessonSession] Error clearing session:', error);
+  }
+}
+
+/** Removes expired sessions for every lesson and language. */
+export async function pruneLessonSessions(): Promise<void> {
+  try {
+    const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(KEY_PREFIX));
+    const entries = await AsyncStorage.multiGet(keys);
+    const expired = entries
+      .filter(([, value]) => !value || isExpired(JSON.parse(value)))
+      .map(([key]) => key);
+    if (expired.length > 0) {
+      await AsyncStorage.multiRemove(expired);
+    }
+  } catch (error) {
+    console.error('[LessonSession] Error pruning sessions:', error);
+  }
+}
+
+/** Removes every saved session, expired or not, e.g. on sign-out. */
+export async function clearAllLessonSessions(): Promise<void> {
+  const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(KEY_PREFIX));
+  await AsyncStorage.multiRemove(keys);
+}
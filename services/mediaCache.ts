@@ -0,0 +1,465 @@
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import { getWordAudioUrl, getWordImageUrl } from './languageApi';
+
+export type MediaType = 'audio' | 'image';
+
+export interface MediaFile {
+  type: MediaType;
+  fileName: string;
+}
+
+/** Unpinned files are dropped least recently used first once the cache grows past this. */
+const MAX_CACHE_BYTES = 200 * 1024 * 1024;
+const MANIFEST_VERSION = 1;
+// Touches (reads) are saved in batches; new and removed files are saved straight away
+const TOUCH_SAVE_DELAY_MS = 2 * 1000;
+// Where media lived before the cache; files found there are moved in on first use
+const LEGACY_DIRECTORIES: Record<MediaType, string> = { audio: 'audio', image: 'image' };
+
+interface ManifestEntry {
+  /** MD5 of the file's bytes, which is also its name on disk. */
+  hash: string;
+  extension: string;
+  size: number;
+  lastAccessedAt: number;
+}
+
+/** A paused download, picked up where it stopped the next time the file is asked for. */
+interface PartialDownload {
+  tempUri: string;
+  resumeData?: string;
+}
+
+interface Manifest {
+  version: number;
+  /** Keyed by `${type}/${fileName}`. Several keys can share one file when their bytes match. */
+  entries: Record<string, ManifestEntry>;
+  /** Keys each owner (e.g. a downloaded unit) needs kept. Pinned keys are never evicted. */
+  pins: Record<string, string[]>;
+  partials: Record<string, PartialDownload>;
+}
+
+export class MediaIntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaIntegrityError';
+  }
+}
+
+/** Thrown by a download that pauseMediaDownloads stopped. Asking for the file again resumes it. */
+export class MediaDownloadPausedError extends Error {
+  constructor(message = 'Download paused') {
+    super(message);
+    this.name = 'MediaDownloadPausedError';
+  }
+}
+
+let manifest: Manifest | null = null;
+let loading: Promise<Manifest> | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+let touchSaveTimer: ReturnType<typeof setTimeout> | null = null;
+const inFlight = new Map<string, Promise<string>>();
+const activeDownloads = new Map<string, FileSystem.DownloadResumable>();
+// Who asked for each request in flight; null when it has no owner or several owners share it
+const requestOwners = new Map<string, string | null>();
+
+function cacheDir(): string {
+  return `${FileSystem.documentDirectory}media/`;
+}
+
+function manifestPath(): string {
+  return `${cacheDir()}manifest.json`;
+}
+
+function filePath(entry: Pick<ManifestEntry, 'hash' | 'extension'>): string {
+  return `${cacheDir()}${entry.hash}${entry.extension}`;
+}
+
+function cacheKey(type: MediaType, fileName: string): string {
+  return `${type}/${fileName}`;
+}
+
+// Kept so players can still tell the format from the name
+function extensionOf(fileName: string): string {
+  const match = /\.[A-Za-z0-9]+$/.exec(fileName);
+  return match ? match[0].toLowerCase() : '';
+}
+
+function remoteUrl(type: MediaType, fileName: string): string {
+  return type === 'audio' ? getWordAudioUrl(fileName) : getWordImageUrl(fileName);
+}
+
+function emptyManifest(): Manifest {
+  return { version: MANIFEST_VERSION, entries: {}, pins: {}, partials: {} };
+}
+
+async function loadManifest(): Promise<Manifest> {
+  if (manifest) {
+    return manifest;
+  }
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const info = await FileSystem.getInfoAsync(manifestPath());
+        if (info.exists) {
+          const stored: Manifest = JSON.parse(await FileSystem.readAsStringAsync(manifestPath()));
+          if (stored.version === MANIFEST_VERSION) {
+            return { ...emptyManifest(), ...stored };
+          }
+        }
+      } catch (error) {
+        console.error('[MediaCache] Error reading manifest:', error);
+      }
+      return emptyManifest();
+    })()
+      .then(loaded => {
+        manifest = loaded;
+        return loaded;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+  return loading;
+}
+
+function saveManifest(): Promise<void> {
+  if (touchSaveTimer) {
+    clearTimeout(touchSaveTimer);
+    touchSaveTimer = null;
+  }
+  // Writes are chained so an older snapshot can never land after a newer one
+  writeChain = writeChain
+    .then(async () => {
+      if (!manifest) return;
+      await FileSystem.makeDirectoryAsync(cacheDir(), { intermediates: true });
+      await FileSystem.writeAsStringAsync(manifestPath(), JSON.stringify(manifest));
+    })
+    .catch(error => console.error('[MediaCache] Error saving manifest:', error));
+  return writeChain;
+}
+
+function scheduleTouchSave() {
+  if (touchSaveTimer) return;
+  touchSaveTimer = setTimeout(() => {
+    touchSaveTimer = null;
+    saveManifest();
+  }, TOUCH_SAVE_DELAY_MS);
+}
+
+function totalSize(current: Manifest): number {
+  // Shared files are counted once
+  const sizes = new Map<string, number>();
+  Object.values(current.entries).forEach(entry => sizes.set(entry.hash, entry.size));
+  return Array.from(sizes.values()).reduce((sum, size) => sum + size, 0);
+}
+
+// Drops the entry and, if nothing else points at its file, the file too
+async function removeEntry(current: Manifest, key: string) {
+  const entry = current.entries[key];
+  if (!entry) return;
+  delete current.entries[key];
+  const isShared = Object.values(current.entries).some(other => other.hash === entry.hash);
+  if (!isShared) {
+    await FileSystem.deleteAsync(filePath(entry), { idempotent: true });
+  }
+}
+
+function pinnedKeys(current: Manifest): Set<string> {
+  return new Set(Object.values(current.pins).flat());
+}
+
+async function evictToBudget(current: Manifest, keep: string) {
+  const pinned = pinnedKeys(current);
+  const byAge = Object.keys(current.entries)
+    .filter(key => key !== keep && !pinned.has(key))
+    .sort((a, b) => current.entries[a].lastAccessedAt - current.entries[b].lastAccessedAt);
+  for (const key of byAge) {
+    if (totalSize(current) <= MAX_CACHE_BYTES) {
+      break;
+    }
+    await removeEntry(current, key);
+  }
+}
+
+// Moves a downloaded or legacy file to its content-addressed name and records it
+async function addFile(key: string, tempUri: string, hash: string, extension: string, size: number): Promise<string> {
+  const current = await loadManifest();
+  const entry: ManifestEntry = { hash, extension, size, lastAccessedAt: Date.now() };
+  const destination = filePath(entry);
+
+  const existing = await FileSystem.getInfoAsync(destination);
+  if (existing.exists) {
+    // Same bytes are already cached under another name
+    await FileSystem.deleteAsync(tempUri, { idempotent: true });
+  } else {
+    await FileSystem.moveAsync({ from: tempUri, to: destination });
+  }
+
+  current.entries[key] = entry;
+  await evictToBudget(current, key);
+  await saveManifest();
+  return destination;
+}
+
+function headerValue(headers: Record<string, string>, name: string): string | undefined {
+  const match = Object.keys(headers).find(header => header.toLowerCase() === name);
+  return match ? headers[match] : undefined;
+}
+
+function base64ToHex(base64: string): string | null {
+  try {
+    return Array.from(atob(base64), char => char.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+  } catch {
+    return null;
+  }
+}
+
+// A resumed download answers 206 with only the rest of the file; its total size is in Content-Range
+function expectedSize(result: FileSystem.FileSystemDownloadResult): number | null {
+  const header = result.status === 206
+    ? headerValue(result.headers, 'content-range')?.split('/')[1]
+    : headerValue(result.headers, 'content-length');
+  return header && header !== '*' ? Number(header) : null;
+}
+
+/**
+ * Rejects a download that was cut short or corrupted, including one pieced
+ * together from a pause and a resume: the size has to match what the server
+ * said, and the MD5 has to match Content-MD5 or an MD5-style ETag when the
+ * server sends one.
+ */
+function verifyDownload(result: FileSystem.FileSystemDownloadResult, size: number) {
+  if (result.status !== 200 && result.status !== 206) {
+    throw new MediaIntegrityError(`Download failed with status ${result.status}`);
+  }
+  const expected = expectedSize(result);
+  if (expected !== null && expected !== size) {
+    throw new MediaIntegrityError(`Expected ${expected} bytes but got ${size}`);
+  }
+
+  // Content-MD5 on a 206 covers only the part that was sent
+  const contentMd5 = result.status === 200 ? headerValue(result.headers, 'content-md5') : undefined;
+  const etag = headerValue(result.headers, 'etag')?.replace(/^W\//, '').replace(/"/g, '');
+  const expectedMd5 = contentMd5 ? base64ToHex(contentMd5) : etag && /^[0-9a-f]{32}$/i.test(etag) ? etag : null;
+  if (expectedMd5 && result.md5 && expectedMd5.toLowerCase() !== result.md5.toLowerCase()) {
+    throw new MediaIntegrityError('Checksum does not match');
+  }
+}
+
+async function download(type: MediaType, fileName: string): Promise<string> {
+  const key = cacheKey(type, fileName);
+  const current = await loadManifest();
+  const partial = current.partials[key];
+  const tempUri = partial?.tempUri ?? `${cacheDir()}${Crypto.randomUUID()}.part`;
+  await FileSystem.makeDirectoryAsync(cacheDir(), { intermediates: true });
+
+  const resumable = FileSystem.createDownloadResumable(
+    remoteUrl(type, fileName),
+    tempUri,
+    { md5: true },
+    undefined,
+    partial?.resumeData
+  );
+  activeDownloads.set(key, resumable);
+
+  try {
+    const result = partial?.resumeData ? await resumable.resumeAsync() : await resumable.downloadAsync();
+    if (!result) {
+      // pauseMediaDownloads has saved where it got to
+      throw new MediaDownloadPausedError();
+    }
+    if (partial) {
+      delete current.partials[key];
+    }
+    const info = await FileSystem.getInfoAsync(tempUri);
+    const size = info.exists ? info.size : 0;
+    verifyDownload(result, size);
+    if (!result.md5) {
+      throw new MediaIntegrityError('Download returned no checksum');
+    }
+    return await addFile(key, tempUri, result.md5, extensionOf(fileName), size);
+  } catch (error) {
+    if (!(error instanceof MediaDownloadPausedError)) {
+      delete current.partials[key];
+      await FileSystem.deleteAsync(tempUri, { idempotent: true });
+      await saveManifest();
+    }
+    throw error;
+  } finally {
+    activeDownloads.delete(key);
+  }
+}
+
+// Media saved by versions before the cache is moved in rather than downloaded again
+async function adoptLegacyFile(type: MediaType, fileName: string): Promise<string | null> {
+  const legacyUri = `${FileSystem.documentDirectory}${LEGACY_DIRECTORIES[type]}/${fileName}`;
+  try {
+    const info = await FileSystem.getInfoAsync(legacyUri, { md5: true });
+    if (!info.exists || !info.md5 || info.size === 0) {
+      return null;
+    }
+    await FileSystem.makeDirectoryAsync(cacheDir(), { intermediates: true });
+    return await addFile(cacheKey(type, fileName), legacyUri, info.md5, extensionOf(fileName), info.size);
+  } catch (error) {
+    console.error(`[MediaCache] Error adopting ${legacyUri}:`, error);
+    return null;
+  }
+}
+
+/**
+ * The local URI of a cached file, or null when it isn't cached. Counts as a
+ * use for eviction. Never downloads.
+ */
+export async function getCachedMediaUri(type: MediaType, fileName: string): Promise<string | null> {
+  const current = await loadManifest();
+  const key = cacheKey(type, fileName);
+  const entry = current.entries[key];
+  if (!entry) {
+    return adoptLegacyFile(type, fileName);
+  }
+
+  const uri = filePath(entry);
+  const info = await FileSystem.getInfoAsync(uri);
+  if (!info.exists) {
+    // Deleted behind the cache's back, e.g. by the OS
+    delete current.entries[key];
+    await saveManifest();
+    return null;
+  }
+
+  entry.lastAccessedAt = Date.now();
+  scheduleTouchSave();
+  return uri;
+}
+
+/**
+ * The local URI of a media file, downloading it first on a miss. Concurrent
+ * requests for the same file share one download. Throws if the download
+ * fails or doesn't verify. A download with an owner can be paused with
+ * pauseMediaDownloads(owner), unless a request from someone else shares it.
+ */
+export function resolveMediaUri(type: MediaType, fileName: string, owner?: string): Promise<string> {
+  const key = cacheKey(type, fileName);
+  const pending = inFlight.get(key);
+  if (pending) {
+    if (requestOwners.get(key) !== owner) {
+      requestOwners.set(key, null);
+    }
+    return pending;
+  }
+
+  const request = (async () => {
+    const cached = await getCachedMediaUri(type, fileName);
+    return cached ?? download(type, fileName);
+  })().finally(() => {
+    inFlight.delete(key);
+    requestOwners.delete(key);
+  });
+  inFlight.set(key, request);
+  requestOwners.set(key, owner ?? null);
+  return request;
+}
+
+/**
+ * Pauses the owner's downloads in progress, or every download when no owner
+ * is given. Each one's resume data is saved, so asking for the file again
+ * (even after a restart) carries on from there.
+ */
+export async function pauseMediaDownloads(owner?: string): Promise<void> {
+  const current = await loadManifest();
+  const downloads = Array.from(activeDownloads.entries())
+    .filter(([key]) => owner === undefined || requestOwners.get(key) === owner);
+  downloads.forEach(([key]) => activeDownloads.delete(key));
+  for (const [key, resumable] of downloads) {
+    try {
+      const state = await resumable.pauseAsync();
+      current.partials[key] = { tempUri: state.fileUri, resumeData: state.resumeData };
+    } catch (error) {
+      console.error(`[MediaCache] Error pausing download of ${key}:`, error);
+    }
+  }
+  await saveManifest();
+}
+
+/** Keeps the files from being evicted until unpinMedia is called for the same owner. Replaces the owner's earlier pins. */
+export async function pinMedia(owner: string, files: MediaFile[]): Promise<void> {
+  const current = await loadManifest();
+  current.pins[owner] = files.map(({ type, fileName }) => cacheKey(type, fileName));
+  await saveManifest();
+}
+
+/** Lets the owner's files be evicted again, and deletes straight away those no other owner pins. */
+export async function unpinMedia(owner: string): Promise<void> {
+  const current = await loadManifest();
+  const keys = current.pins[owner] ?? [];
+  delete current.pins[owner];
+  const stillPinned = pinnedKeys(current);
+  for (const key of keys) {
+    if (!stillPinned.has(key)) {
+      await removeEntry(current, key);
+    }
+  }
+  await saveManifest();
+}
+
+/**
+ * The files that aren't cached intact: never downloaded, gone from disk, or a
+ * different size than when they were verified. Broken entries are dropped so
+ * the next request downloads them again. Doesn't count as a use.
+ */
+export async function findMissingMedia(files: MediaFile[]): Promise<MediaFile[]> {
+  const current = await loadManifest();
+  const missing: MediaFile[] = [];
+  let changed = false;
+  for (const file of files) {
+    const key = cacheKey(file.type, file.fileName);
+    const entry = current.entries[key];
+    if (!entry) {
+      missing.push(file);
+      continue;
+    }
+    const info = await FileSystem.getInfoAsync(filePath(entry));
+    if (!info.exists || info.size !== entry.size) {
+      await removeEntry(current, key);
+      changed = true;
+      missing.push(file);
+    }
+  }
+  if (changed) {
+    await saveManifest();
+  }
+  return missing;
+}
+
+/** Bytes on disk for the given files (or for the whole cache), counting files shared by several names once. */
+export async function getMediaSize(files?: MediaFile[]): Promise<number> {
+  const current = await loadManifest();
+  if (!files) {
+    return totalSize(current);
+  }
+  const entries: Record<string, ManifestEntry> = {};
+  files.forEach(({ type, fileName }) => {
+    const key = cacheKey(type, fileName);
+    if (current.entries[key]) {
+      entries[key] = current.entries[key];
+    }
+  });
+  return totalSize({ ...current, entries });
+}
+
+/** Deletes every cached file, pinned or not, plus media left in the pre-cache directories. */
+export async function clearMediaCache(): Promise<void> {
+  if (touchSaveTimer) {
+    clearTimeout(touchSaveTimer);
+    touchSaveTimer = null;
+  }
+  await pauseMediaDownloads();
+  await writeChain;
+  manifest = emptyManifest();
+  await FileSystem.deleteAsync(cacheDir(), { idempotent: true });
+  for (const directory of Object.values(LEGACY_DIRECTORIES)) {
+    await FileSystem.deleteAsync(`${FileSystem.documentDirectory}${directory}`, { idempotent: true });
+  }
+}
@@ -0,0 +1,55 @@
+import nativeAuth from '@react-native-firebase/auth';
+import { AuthCredential, PhoneAuthProvider } from 'firebase/auth';
+
+const COUNTRY_CODE = '+27';
+// South African mobile numbers: 0 (or +27) then 6, 7 or 8 and eight more digits
+const LOCAL_MOBILE = /^[678]\d{8}$/;
+// Each resend waits twice as long as the one before, up to the cap
+const FIRST_RESEND_DELAY_SECONDS = 30;
+const MAX_RESEND_DELAY_SECONDS = 5 * 60;
+
+/**
+ * Turns what a learner typed ("082 123 4567", "27821234567", "+27 82…") into
+ * E.164 (+27821234567). Returns null for anything that isn't a South African
+ * mobile number.
+ */
+export function toSouthAfricanE164(input: string): string | null {
+  let digits = input.replace(/[\s\-()]/g, '');
+  if (digits.startsWith(COUNTRY_CODE)) {
+    digits = digits.slice(COUNTRY_CODE.length);
+  } else if (digits.startsWith('27') && digits.length === 11) {
+    digits = digits.slice(2);
+  } else if (digits.startsWith('0')) {
+    digits = digits.slice(1);
+  }
+  return LOCAL_MOBILE.test(digits) ? `${COUNTRY_CODE}${digits}` : null;
+}
+
+/** +27821234567 as "+27 82 123 4567". */
+export function formatSouthAfricanNumber(e164: string): string {
+  const local = e164.slice(COUNTRY_CODE.length);
+  return `${COUNTRY_CODE} ${local.slice(0, 2)} ${local.slice(2, 5)} ${local.slice(5)}`;
+}
+
+/** How long to wait before the next code may be sent, given how many have been sent already. */
+export function resendDelaySeconds(codesSent: number): number {
+  return Math.min(FIRST_RESEND_DELAY_SECONDS * 2 ** Math.max(0, codesSent - 1), MAX_RESEND_DELAY_SECONDS);
+}
+
+/**
+ * Texts a one-time code to the number and returns the verification id to
+ * confirm it with. The native SDK does the sending because it can prove the
+ * request comes from the app (Play Integrity / APNs) without a web reCAPTCHA.
+ */
+export async function sendVerificationCode(e164: string, forceResend = false): Promise<string> {
+  const confirmation = await nativeAuth().signInWithPhoneNumber(e164, forceResend);
+  if (!confirmation.verificationId) {
+    throw new Error('Failed to send verification code');
+  }
+  return confirmation.verificationId;
+}
+
+/** The credential the web SDK signs in with; the app's auth state lives there. */
+export function phoneCredential(verificationId: string, code: string): AuthCredential {
+  return PhoneAuthProvider.credential(verificationId, code);
+}
@@ -0,0 +1,280 @@
+import { LearnerEmailUpdate, LessonProgressUpdate, PointsIncrement } from '@/types/api';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import * as Crypto from 'expo-crypto';
+import { AppState } from 'react-native';
+import { ApiError, incrementPoints, updateLearnerEmail, updateLessonProgress } from './languageApi';
+
+const OUTBOX_KEY = 'progressOutbox';
+const RETRY_DELAY_MS = 30 * 1000;
+
+export type OutboxMutation =
+  | { kind: 'lessonProgress'; payload: LessonProgressUpdate }
+  | { kind: 'points'; payload: PointsIncrement }
+  | { kind: 'learnerEmail'; payload: LearnerEmailUpdate };
+
+export type OutboxEntry = OutboxMutation & {
+  /** Doubles as the Idempotency-Key, so a replay after a lost response is not applied twice. */
+  id: string;
+  uid: string;
+  createdAt: string;
+};
+
+type OutboxListener = (pendingCount: number) => void;
+
+let entries: OutboxEntry[] | null = null;
+let loading: Promise<OutboxEntry[]> | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+let flushing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<OutboxListener>();
+
+async function loadEntries(): Promise<OutboxEntry[]> {
+  if (entries) {
+    return entries;
+  }
+  if (!loading) {
+    loading = AsyncStorage.getItem(OUTBOX_KEY)
+      .then(stored => {
+        entries = stored ? JSON.parse(stored) : [];
+        return entries as OutboxEntry[];
+      })
+      .catch(error => {
+        console.error('[Outbox] Error loading outbox:', error);
+        entries = [];
+        return entries;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+  return loading;
+}
+
+function setEntries(next: OutboxEntry[]): Promise<void> {
+  entries = next;
+  listeners.forEach(listener => listener(next.length));
+  // Writes are chained so an older snapshot can never land after a newer one
+  writeChain = writeChain
+    .then(() => AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(entries)))
+    .catch(error => console.error('[Outbox] Error saving outbox:', error));
+  return writeChain;
+}
+
+// Applies the change to the current entries after loading, so two callers
+// queueing at the same time can't overwrite each other's entry
+async function updateEntries(update: (current: OutboxEntry[]) => OutboxEntry[]): Promise<void> {
+  await loadEntries();
+  return setEntries(update(entries as OutboxEntry[]));
+}
+
+function send(entry: OutboxEntry): Promise<unknown> {
+  const options = { idempotencyKey: entry.id };
+  switch (entry.kind) {
+    case 'lessonProgress':
+      return updateLessonProgress(entry.uid, entry.payload, options);
+    case 'points':
+      return incrementPoints(entry.uid, entry.payload, options);
+    case 'learnerEmail':
+      return updateLearnerEmail(entry.uid, entry.payload, options);
+  }
+}
+
+// A 409 means the backend has already seen this idempotency key
+function isAlreadyApplied(error: unknown): boolean {
+  return error instanceof ApiError && error.status === 409;
+}
+
+/**
+ * Any other 4xx (bar auth, timeouts and rate limiting) will fail the same way
+ * on every replay, so the entry is dropped instead of blocking everything
+ * queued behind it.
+ */
+function isRejected(error: unknown): boolean {
+  return (
+    error instanceof ApiError &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    ![401, 403, 408, 429].includes(error.status)
+  );
+}
+
+function scheduleRetry() {
+  if (retryTimer) {
+    return;
+  }
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, RETRY_DELAY_MS);
+}
+
+async function drain() {
+  while (true) {
+    const [next] = await loadEntries();
+    if (!next) {
+      return;
+    }
+
+    try {
+      await send(next);
+    } catch (error) {
+      if (isAlreadyApplied(error)) {
+        // Fall through and remove it like a success
+      } else if (isRejected(error)) {
+        console.error(`[Outbox] Dropping ${next.kind} mutation ${next.id}:`, error);
+      } else {
+        // Most likely offline; keep the entry at the head so order is preserved
+        scheduleRetry();
+        return;
+      }
+    }
+
+    await updateEntries(current => current.filter(entry => entry.id !== next.id));
+  }
+}
+
+/**
+ * Replays queued mutations in the order they were queued. Stops at the first
+ * entry that can't be delivered and tries again later. Calls made while a
+ * flush is already running share it.
+ */
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = drain()
+      .catch(error => console.error('[Outbox] Error flushing outbox:', error))
+      .finally(() => {
+        flushing = null;
+      });
+  }
+  return flushing;
+}
+
+export interface QueueMutationOptions {
+  /**
+   * Identifies one attempt at a lesson. The entry id of a lesson mutation is
+   * then derived from the uid, lesson and kind, so queueing the same mutation
+   * twice for an attempt (a remounted screen, say) is deduplicated here and by
+   * the backend.
+   */
+  attemptId?: string;
+}
+
+function entryId(uid: string, mutation: OutboxMutation, attemptId?: string): string {
+  return attemptId && mutation.kind !== 'learnerEmail'
+    ? `${uid}:${mutation.payload.lessonId}:${mutation.kind}:${attemptId}`
+    : Crypto.randomUUID();
+}
+
+/**
+ * Persists a progress, points or learner email mutation and tries to deliver it straight away.
+ * Resolves once the mutation is safely stored, not when the backend has it.
+ * If an entry with the same id is still pending, that entry is returned instead.
+ */
+export async function queueMutation(
+  uid: string,
+  mutation: OutboxMutation,
+  options: QueueMutationOptions = {}
+): Promise<OutboxEntry> {
+  const entry = {
+    ...mutation,
+    id: entryId(uid, mutation, options.attemptId),
+    uid,
+    createdAt: new Date().toISOString(),
+  } as OutboxEntry;
+
+  let queued = entry;
+  await updateEntries(current => {
+    const pending = current.find(existing => existing.id === entry.id);
+    if (pending) {
+      queued = pending;
+      return current;
+    }
+    return [...current, entry];
+  });
+  flushOutbox();
+  return queued;
+}
+
+/** Lesson progress updates for a language that haven't reached the backend yet. */
+export async function getPendingProgressUpdates(uid: string, languageCode: string): Promise<LessonProgressUpdate[]> {
+  const pending = await loadEntries();
+  return pending.flatMap(entry =>
+    entry.kind === 'lessonProgress' && entry.uid === uid && entry.payload.language === languageCode
+      ? [entry.payload]
+      : []
+  );
+}
+
+/** Lesson completions queued since `since` that haven't reached the backend yet. */
+export async function getPendingCompletionCount(uid: string, since: Date): Promise<number> {
+  const pending = await loadEntries();
+  return pending.filter(entry =>
+    entry.kind === 'lessonProgress' &&
+    entry.uid === uid &&
+    entry.payload.status === 'completed' &&
+    new Date(entry.createdAt) >= since
+  ).length;
+}
+
+/**
+ * Drops every queued mutation, delivered or not, or every one but the given
+ * learner's. Used on sign-out, after a last flush has had its chance, and
+ * when a different learner signs in.
+ */
+export async function clearOutbox(keepUid?: string): Promise<void> {
+  const current = await loadEntries();
+  if (keepUid) {
+    return setEntries(current.filter(entry => entry.uid === keepUid));
+  }
+  entries = [];
+  listeners.forEach(listener => listener(0));
+  writeChain = writeChain
+    .then(() => AsyncStorage.removeItem(OUTBOX_KEY))
+    .catch(error => console.error('[Outbox] Error clearing outbox:', error));
+  return writeChain;
+}
+
+/**
+ * Calls the listener with the number of queued mutations now and on every
+ * change. Returns an unsubscribe function.
+ */
+export function subscribeToOutbox(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  loadEntries().then(current => {
+    if (listeners.has(listener)) {
+      listener(current.length);
+    }
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Flushes the outbox on start-up, whenever the device comes back online and
+ * whenever the app returns to the foreground. Returns a cleanup function.
+ */
+export function startOutboxSync(): () => void {
+  const netInfoUnsubscribe = NetInfo.addEventListener(state => {
+    if (state.isConnected && state.isInternetReachable !== false) {
+      flushOutbox();
+    }
+  });
+  const appStateSubscription = AppState.addEventListener('change', nextState => {
+    if (nextState === 'active') {
+      flushOutbox();
+    }
+  });
+
+  flushOutbox();
+
+  return () => {
+    netInfoUnsubscribe();
+    appStateSubscription.remove();
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+}
@@ -0,0 +1,46 @@
+import type { CustomerInfo, PurchasesOffering, PurchasesPackage, PurchasesStoreProduct } from 'react-native-purchases';
+
+export interface PurchasePackage extends PurchasesPackage {
+  identifier: string;
+  offeringIdentifier: string;
+  product: PurchasesStoreProduct;
+}
+
+export type PaywallOutcome = 'purchased' | 'restored' | 'cancelled' | 'error';
+
+/**
+ * Everything the app needs from the store. Screens and contexts only see this
+ * interface, so the RevenueCat SDK can be swapped for the in-memory fake in
+ * services/fakePurchaseStore.ts.
+ */
+export interface PurchaseService {
+  initialize(): Promise<void>;
+  /** The current offering, or null if the store has none. */
+  getOfferings(): Promise<PurchasesOffering | null>;
+  /** Rejects with an error whose `userCancelled` is true when the learner backs out; see isPurchaseCancelled. */
+  purchasePackage(packageToPurchase: PurchasePackage): Promise<CustomerInfo>;
+  restorePurchases(): Promise<CustomerInfo>;
+  getCustomerInfo(): Promise<CustomerInfo>;
+  identifyUser(userId: string): Promise<void>;
+  resetUser(): Promise<void>;
+  /** Shows the store's paywall for an offering (the current one by default) and reports how it ended. */
+  presentPaywall(offering?: PurchasesOffering | null): Promise<PaywallOutcome>;
+}
+
+export function isPurchaseCancelled(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { userCancelled?: boolean }).userCancelled === true;
+}
+
+let service: PurchaseService | null = null;
+
+/** Registered once at start-up (app/_layout.tsx); tests register the fake store instead. */
+export function setPurchaseService(next: PurchaseService) {
+  service = next;
+}
+
+export function getPurchaseService(): PurchaseService {
+  if (!service) {
+    throw new Error('No purchase service registered');
+  }
+  return service;
+}
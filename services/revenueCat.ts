@@ -1,6 +1,7 @@
 import { Platform } from 'react-native';
-import Purchases, { CustomerInfo, PurchasesOffering, PurchasesPackage, PurchasesStoreProduct } from 'react-native-purchases';
-import RevenueCatUI from 'react-native-purchases-ui';
+import Purchases, { CustomerInfo, PurchasesOffering } from 'react-native-purchases';
+import RevenueCatUI, { PAYWALL_RESULT } from 'react-native-purchases-ui';
+import { PaywallOutcome, PurchasePackage, PurchaseService } from './purchaseService';
 
 // Replace these with your actual API keys from RevenueCat dashboard
 const REVENUECAT_API_KEYS = {
@@ -13,13 +14,7 @@ interface RevenueCatConfig {
     appUserID?: string;
 }
 
-export interface PurchasePackage extends PurchasesPackage {
-    identifier: string;
-    offeringIdentifier: string;
-    product: PurchasesStoreProduct;
-}
-
-class RevenueCatService {
+class RevenueCatService implements PurchaseService {
     private static instance: RevenueCatService;
     private isInitialized = false;
     private initializationPromise: Promise<void> | null = null;
@@ -151,28 +146,27 @@ class RevenueCatService {
         }
     }
 
-    async showOfferings(): Promise<PurchasesOffering | null> {
+    async presentPaywall(offering?: PurchasesOffering | null): Promise<PaywallOutcome> {
         await this.ensureInitialized();
         try {
-            const offerings = await Purchases.getOfferings();
-            return offerings.current;
-        } catch (error) {
-            console.error('Failed to show offerings:', error);
-            throw error;
-        }
-    }
-
-    async showPaywall(): Promise<void> {
-        await this.ensureInitialized();
-        try {
-            const offerings = await Purchases.getOfferings();
-            if (!offerings.current) {
+            const paywallOffering = offering || (await Purchases.getOfferings()).current;
+            if (!paywallOffering) {
                 throw new Error('No offerings available');
             }
-            await RevenueCatUI.presentPaywall({
-                offering: offerings.current,
+            const result = await RevenueCatUI.presentPaywall({
+                offering: paywallOffering,
                 displayCloseButton: true,
             });
+            switch (result) {
+                case PAYWALL_RESULT.PURCHASED:
+                    return 'purchased';
+                case PAYWALL_RESULT.RESTORED:
+                    return 'restored';
+                case PAYWALL_RESULT.ERROR:
+                    return 'error';
+                default:
+                    return 'cancelled';
+            }
         } catch (error) {
             console.error('Failed to show paywall:', error);
             throw error;
@@ -0,0 +1,221 @@
+import { Question } from '@/types/api';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EASINESS = 2.5;
+const MIN_EASINESS = 1.3;
+// Only the most recent questions per word are kept to drill it with
+const MAX_QUESTIONS_PER_WORD = 3;
+const DEFAULT_SESSION_SIZE = 10;
+
+/** SM-2 review state for a single word. */
+export interface ReviewItem {
+  wordId: number;
+  easiness: number;
+  /** Days until the next review after a correct answer. 0 while the word is being relearned. */
+  interval: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: string;
+  lastReviewedAt: string;
+  questionIds: number[];
+}
+
+interface ReviewSchedule {
+  items: Record<number, ReviewItem>;
+  questions: Record<number, Question>;
+}
+
+const KEY_PREFIX = 'reviewSchedule:';
+
+function scheduleKey(languageCode: string): string {
+  return `${KEY_PREFIX}${languageCode}`;
+}
+
+async function loadSchedule(languageCode: string): Promise<ReviewSchedule> {
+  try {
+    const stored = await AsyncStorage.getItem(scheduleKey(languageCode));
+    return stored ? JSON.parse(stored) : { items: {}, questions: {} };
+  } catch (error) {
+    console.error('[Review] Error loading review schedule:', error);
+    return { items: {}, questions: {} };
+  }
+}
+
+function saveSchedule(languageCode: string, schedule: ReviewSchedule): Promise<void> {
+  return AsyncStorage.setItem(scheduleKey(languageCode), JSON.stringify(schedule));
+}
+
+/**
+ * The words a question actually tests. Distractors (e.g. the other pictures in
+ * select_image) are left out so a wrong pick doesn't count against them.
+ */
+export function getTestedWordIds(question: Question): number[] {
+  const words = question.words || [];
+  const byId = (id: string | number | undefined) => words.find(w => w.id === Number(id))?.id;
+  let ids: (number | undefined)[];
+
+  switch (question.type) {
+    case 'select_image':
+      ids = question.correctOption !== null ? [byId(question.options[question.correctOption])] : [];
+      break;
+    case 'tap_what_you_hear':
+    case 'translate':
+    case 'speak_sentence':
+      ids = (question.sentenceWords || []).map(byId);
+      break;
+    case 'type_what_you_hear':
+      ids = question.options.map(byId);
+      break;
+    case 'fill_in_blank':
+    case 'type_missing_word': {
+      const blankIndex = question.blankIndex ?? 0;
+      ids = [byId(question.sentenceWords?.[blankIndex] ?? question.options[blankIndex])];
+      break;
+    }
+    case 'complete_translation':
+      ids = [words[question.blankIndex ?? 0]?.id];
+      break;
+    default:
+      ids = words.map(w => w.id);
+  }
+
+  return [...new Set(ids.filter((id): id is number => id !== undefined))];
+}
+
+/**
+ * SM-2 with two grades: a correct answer is quality 4 and a wrong one quality 1.
+ * A wrong answer makes the word due again straight away rather than tomorrow,
+ * so it can be drilled in the next practice session.
+ */
+function review(item: ReviewItem, isCorrect: boolean, now: Date): ReviewItem {
+  const quality = isCorrect ? 4 : 1;
+  const easiness = Math.max(
+    MIN_EASINESS,
+    item.easiness + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let { interval, repetitions, lapses } = item;
+  if (isCorrect) {
+    repetitions += 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(interval * easiness);
+  } else {
+    repetitions = 0;
+    interval = 0;
+    lapses += 1;
+  }
+
+  return {
+    ...item,
+    easiness,
+    interval,
+    repetitions,
+    lapses,
+    dueAt: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString(),
+  };
+}
+
+function pruneQuestions(schedule: ReviewSchedule): ReviewSchedule {
+  const referenced = new Set(Object.values(schedule.items).flatMap(item => item.questionIds));
+  const questions: Record<number, Question> = {};
+  referenced.forEach(id => {
+    if (schedule.questions[id]) {
+      questions[id] = schedule.questions[id];
+    }
+  });
+  return { ...schedule, questions };
+}
+
+let writeChain: Promise<void> = Promise.resolve();
+
+/**
+ * Records an answer for every word the question tests and reschedules them.
+ * The question is kept so practice sessions can show it again.
+ */
+export function recordAnswer(languageCode: string, question: Question, isCorrect: boolean): Promise<void> {
+  // Answers are applied one at a time so quick successive checks can't overwrite each other
+  writeChain = writeChain.then(async () => {
+    const wordIds = getTestedWordIds(question);
+    if (wordIds.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+    const schedule = await loadSchedule(languageCode);
+    wordIds.forEach(wordId => {
+      const existing: ReviewItem = schedule.items[wordId] ?? {
+        wordId,
+        easiness: DEFAULT_EASINESS,
+        interval: 0,
+        repetitions: 0,
+        lapses: 0,
+        dueAt: now.toISOString(),
+        lastReviewedAt: now.toISOString(),
+        questionIds: [],
+      };
+      schedule.items[wordId] = {
+        ...review(existing, isCorrect, now),
+        questionIds: [question.id, ...existing.questionIds.filter(id => id !== question.id)]
+          .slice(0, MAX_QUESTIONS_PER_WORD),
+      };
+    });
+    schedule.questions[question.id] = question;
+
+    await saveSchedule(languageCode, pruneQuestions(schedule));
+  }).catch(error => {
+    console.error('[Review] Error recording answer:', error);
+  });
+  return writeChain;
+}
+
+/** Forgets the schedules for every language, e.g. on sign-out. Waits for answers still being recorded. */
+export function clearReviewSchedules(): Promise<void> {
+  const result = writeChain.then(async () => {
+    const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(KEY_PREFIX));
+    await AsyncStorage.multiRemove(keys);
+  });
+  writeChain = result.catch(() => undefined);
+  return result;
+}
+
+function getDueItems(schedule: ReviewSchedule, now: Date): ReviewItem[] {
+  return Object.values(schedule.items)
+    .filter(item => new Date(item.dueAt).getTime() <= now.getTime())
+    .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+}
+
+export async function getDueWordCount(languageCode: string): Promise<number> {
+  const schedule = await loadSchedule(languageCode);
+  return getDueItems(schedule, new Date()).length;
+}
+
+/**
+ * Picks questions that drill the most overdue words first. A question that
+ * covers several due words is only used once.
+ */
+export async function buildPracticeSession(
+  languageCode: string,
+  size: number = DEFAULT_SESSION_SIZE
+): Promise<Question[]> {
+  const schedule = await loadSchedule(languageCode);
+  const covered = new Set<number>();
+  const session: Question[] = [];
+
+  for (const item of getDueItems(schedule, new Date())) {
+    if (session.length >= size) {
+      break;
+    }
+    if (covered.has(item.wordId)) {
+      continue;
+    }
+    const question = item.questionIds.map(id => schedule.questions[id]).find(Boolean);
+    if (!question || session.some(q => q.id === question.id)) {
+      continue;
+    }
+    session.push(question);
+    getTestedWordIds(question).forEach(id => covered.add(id));
+  }
+
+  return session;
+}
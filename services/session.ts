@@ -0,0 +1,82 @@
+import { auth } from '@/config/firebase';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { clearAttempts, flushAttempts } from './attemptTelemetry';
+import { clearGuestCredentials, getGuestCredentials } from './guestAccount';
+import { clearHearts } from './hearts';
+import { clearDailyQuotaCache } from './lessonQuota';
+import { clearAllLessonSessions } from './lessonSession';
+import { clearOutbox, flushOutbox } from './progressOutbox';
+import { clearReviewSchedules } from './reviewScheduler';
+import { clearSpeakingPause } from './speakingPause';
+
+/** SecureStore key holding `{ user }` for the signed-in learner. Only AuthProvider writes it. */
+export const SESSION_KEY = 'auth';
+const ONBOARDING_KEY = 'onboardingData';
+// Offline, the last uploads before sign-out are given up on after this
+const FLUSH_TIMEOUT_MS = 5 * 1000;
+
+/** signedOut: the learner chose to sign out. expired: Firebase or the backend ended the session. */
+export type SessionEndReason = 'signedOut' | 'expired';
+
+/** Gives queued progress and answer attempts a last chance to upload while the learner's token is still valid. */
+export async function flushUserData(): Promise<void> {
+  await Promise.race([
+    Promise.all([flushOutbox(), flushAttempts()]),
+    new Promise(resolve => setTimeout(resolve, FLUSH_TIMEOUT_MS)),
+  ]);
+}
+
+/**
+ * Called whenever a learner is signed in. Queued progress and answer attempts
+ * kept from an expired session are replayed if they're this learner's, and
+ * dropped if they belong to someone else.
+ */
+export async function startUserSession(uid: string): Promise<void> {
+  await Promise.all([clearOutbox(uid), clearAttempts(uid)]);
+  flushOutbox();
+  flushAttempts();
+}
+
+// A guest's password lives only on this device, so it goes only when that guest signs out
+async function clearSignedOutGuestCredentials() {
+  const stored = await getGuestCredentials();
+  if (stored && stored.email === auth.currentUser?.email) {
+    await clearGuestCredentials();
+  }
+}
+
+/**
+ * Removes everything this device keeps for the signed-in learner, on disk and
+ * in memory, so the next learner starts clean. Device settings (sound,
+ * downloaded units, the push token) are kept. Every step is attempted even if
+ * an earlier one fails.
+ */
+export async function clearUserData(reason: SessionEndReason): Promise<void> {
+  const steps: [string, () => Promise<unknown>][] = [
+    ['session', () => SecureStore.deleteItemAsync(SESSION_KEY)],
+    ['onboarding data', () => AsyncStorage.removeItem(ONBOARDING_KEY)],
+    ['hearts', clearHearts],
+    ['lesson quota', clearDailyQuotaCache],
+    ['lesson sessions', clearAllLessonSessions],
+    ['review schedules', clearReviewSchedules],
+    ['speaking pause', clearSpeakingPause],
+  ];
+  // An expired session's queued progress and attempts wait for the same learner to sign in
+  // again, and a guest keeps the credentials they need to do that
+  if (reason === 'signedOut') {
+    steps.push(
+      ['guest credentials', clearSignedOutGuestCredentials],
+      ['outbox', () => clearOutbox()],
+      ['answer attempts', () => clearAttempts()]
+    );
+  }
+
+  for (const [name, run] of steps) {
+    try {
+      await run();
+    } catch (error) {
+      console.error(`[Session] Error clearing ${name}:`, error);
+    }
+  }
+}
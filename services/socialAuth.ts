@@ -0,0 +1,146 @@
+import { GOOGLE_CLIENT_ID, GOOGLE_IOS_CLIENT_ID } from '@/config/oauth';
+import { GoogleSignin, isCancelledResponse } from '@react-native-google-signin/google-signin';
+import * as AppleAuthentication from 'expo-apple-authentication';
+import * as Crypto from 'expo-crypto';
+import { AuthCredential, GoogleAuthProvider, OAuthProvider, User } from 'firebase/auth';
+import { createLearner } from './api';
+import { ApiError, getLanguageLearner } from './languageApi';
+
+export type SocialProvider = 'google' | 'apple';
+
+export interface SocialCredential {
+  provider: SocialProvider;
+  credential: AuthCredential;
+  /** The name the provider shared, if any. Apple only sends it on the very first sign-in. */
+  displayName: string | null;
+}
+
+/**
+ * Thrown when the email already belongs to an account that signs in another
+ * way. Signing in that way next links the pending provider to it, so the
+ * learner keeps one account and one learner record.
+ */
+export class AccountLinkRequiredError extends Error {
+  readonly email: string;
+  readonly provider: SocialProvider;
+
+  constructor(email: string, provider: SocialProvider) {
+    super(`An account with ${email} already exists. Sign in to it to add ${provider === 'google' ? 'Google' : 'Apple'}.`);
+    this.name = 'AccountLinkRequiredError';
+    this.email = email;
+    this.provider = provider;
+  }
+}
+
+let isGoogleConfigured = false;
+
+function configureGoogleSignIn() {
+  if (isGoogleConfigured) return;
+  GoogleSignin.configure({
+    // Firebase needs an ID token issued for the web client
+    webClientId: GOOGLE_CLIENT_ID,
+    iosClientId: GOOGLE_IOS_CLIENT_ID,
+  });
+  isGoogleConfigured = true;
+}
+
+/** Runs the Google sign-in sheet. Returns null if the learner backs out. */
+export async function getGoogleCredential(): Promise<SocialCredential | null> {
+  configureGoogleSignIn();
+  await GoogleSignin.hasPlayServices({ showPlayServicesUpdateDialog: true });
+  const response = await GoogleSignin.signIn();
+  if (isCancelledResponse(response)) {
+    return null;
+  }
+  const { idToken, user } = response.data;
+  if (!idToken) {
+    throw new Error('Google sign-in returned no ID token');
+  }
+  return {
+    provider: 'google',
+    credential: GoogleAuthProvider.credential(idToken),
+    displayName: user.name,
+  };
+}
+
+export function isAppleSignInAvailable(): Promise<boolean> {
+  return AppleAuthentication.isAvailableAsync();
+}
+
+/** Runs the Sign in with Apple sheet. Returns null if the learner backs out. */
+export async function getAppleCredential(): Promise<SocialCredential | null> {
+  // Apple gets the hashed nonce and Firebase the raw one, so a stolen token can't be replayed
+  const rawNonce = Array.from(Crypto.getRandomBytes(16))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+  const hashedNonce = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, rawNonce);
+
+  try {
+    const appleCredential = await AppleAuthentication.signInAsync({
+      requestedScopes: [
+        AppleAuthentication.AppleAuthenticationScope.FULL_NAME,
+        AppleAuthentication.AppleAuthenticationScope.EMAIL,
+      ],
+      nonce: hashedNonce,
+    });
+    if (!appleCredential.identityToken) {
+      throw new Error('Apple sign-in returned no identity token');
+    }
+    const name = [appleCredential.fullName?.givenName, appleCredential.fullName?.familyName]
+      .filter(Boolean)
+      .join(' ');
+    return {
+      provider: 'apple',
+      credential: new OAuthProvider('apple.com').credential({ idToken: appleCredential.identityToken, rawNonce }),
+      displayName: name || null,
+    };
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ERR_REQUEST_CANCELED') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Creates the backend learner the first time someone signs in with a provider
+ * (or with a phone code from the login screen).
+ * A learner that already exists (a returning learner, or an account the
+ * provider was linked to) is left alone.
+ */
+export async function ensureLanguageLearner(
+  user: Pick<User, 'uid' | 'email'> & { displayName?: string | null },
+  displayName: string | null
+): Promise<void> {
+  try {
+    await getLanguageLearner(user.uid);
+    return;
+  } catch (error) {
+    if (!(error instanceof ApiError && error.status === 404)) {
+      throw error;
+    }
+  }
+
+  await createLearner(user.uid, {
+    name: displayName || user.displayName || 'Learner',
+    grade: 12,
+    school: 'Default School',
+    school_address: 'Default Address',
+    school_latitude: 0,
+    school_longitude: 0,
+    terms: '1,2,4',
+    curriculum: 'CAPS',
+    email: user.email || '',
+    avatar: '1.png',
+  });
+}
+
+/** Forgets the Google account too, so the next Google sign-in can pick a different one. */
+export async function signOutOfProviders(): Promise<void> {
+  if (!isGoogleConfigured) return;
+  try {
+    await GoogleSignin.signOut();
+  } catch (error) {
+    console.error('[SocialAuth] Error signing out of Google:', error);
+  }
+}
@@ -0,0 +1,27 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// When the learner taps "Can't speak now", speaking questions are skipped until this time
+const STORAGE_KEY = 'speakingPausedUntil';
+const PAUSE_MS = 15 * 60 * 1000;
+
+export async function pauseSpeakingQuestions(): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, String(Date.now() + PAUSE_MS));
+  } catch (error) {
+    console.error('[SpeakingPause] Error saving pause:', error);
+  }
+}
+
+export async function isSpeakingPaused(): Promise<boolean> {
+  try {
+    const pausedUntil = await AsyncStorage.getItem(STORAGE_KEY);
+    return pausedUntil !== null && Number(pausedUntil) > Date.now();
+  } catch (error) {
+    console.error('[SpeakingPause] Error reading pause:', error);
+    return false;
+  }
+}
+
+export async function clearSpeakingPause(): Promise<void> {
+  await AsyncStorage.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,40 @@
+import { transcribeSpeech } from '@/services/languageApi';
+
+/**
+ * Turns a recording into text. speak_sentence questions only see this interface,
+ * so the backend recognizer can be swapped for an on-device one or a stub.
+ */
+export interface SpeechRecognizer {
+  transcribe(audioUri: string, languageCode: string): Promise<string>;
+}
+
+export const apiSpeechRecognizer: SpeechRecognizer = {
+  async transcribe(audioUri, languageCode) {
+    const { transcript } = await transcribeSpeech(audioUri, languageCode);
+    return transcript;
+  },
+};
+
+/**
+ * A recognizer that never leaves the device and "hears" whatever it is told to.
+ * For tests and for working on speaking questions without the backend.
+ */
+export function createStubRecognizer(
+  transcript: string | ((audioUri: string, languageCode: string) => string)
+): SpeechRecognizer {
+  return {
+    async transcribe(audioUri, languageCode) {
+      return typeof transcript === 'function' ? transcript(audioUri, languageCode) : transcript;
+    },
+  };
+}
+
+let recognizer: SpeechRecognizer = apiSpeechRecognizer;
+
+export function setSpeechRecognizer(next: SpeechRecognizer) {
+  recognizer = next;
+}
+
+export function getSpeechRecognizer(): SpeechRecognizer {
+  return recognizer;
+}
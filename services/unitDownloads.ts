@@ -0,0 +1,559 @@
+import { Lesson } from '@/types/api';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState, NetInfoStateType } from '@react-native-community/netinfo';
+import { getUnitResources } from './languageApi';
+import { deleteUnitContent, downloadUnitContent, getUnitContentSize, hasUnitContent } from './lessonContentStore';
+import {
+  findMissingMedia,
+  getMediaSize,
+  MediaDownloadPausedError,
+  MediaFile,
+  pauseMediaDownloads,
+  pinMedia,
+  resolveMediaUri,
+  unpinMedia,
+} from './mediaCache';
+
+const DOWNLOADS_KEY = 'unitDownloads';
+const SETTINGS_KEY = 'downloadSettings';
+// Versions before the download manager kept bare unit ids, without a language
+const LEGACY_DOWNLOADS_KEY = 'downloadedUnitIds';
+// Files downloaded side by side within a unit; more than this crowds out a slow connection
+const FILE_CONCURRENCY = 3;
+const MAX_FILE_ATTEMPTS = 4;
+// Doubled after each failed attempt: 1s, 2s, 4s
+const RETRY_BASE_DELAY_MS = 1000;
+
+/** A unit whose questions and media are saved so it can be played offline. */
+export interface DownloadedUnit {
+  languageCode: string;
+  unitId: number;
+  unitName: string;
+  lessonIds: number[];
+  files: MediaFile[];
+  downloadedAt: string;
+}
+
+export type UnitDownloadStatus = 'queued' | 'downloading' | 'paused' | 'waitingForWifi' | 'failed';
+
+/** A unit waiting for, or in the middle of, its download. */
+export interface UnitDownloadJob {
+  languageCode: string;
+  unitId: number;
+  unitName: string;
+  status: UnitDownloadStatus;
+  completed: number;
+  /** Files that still failed after every retry on the last pass. */
+  failed: number;
+  /** 0 until the unit's resource list has been fetched. */
+  total: number;
+}
+
+/** How a queueUnitDownload call ended. Paused and waiting jobs stay queued and carry on later. */
+export type UnitDownloadOutcome = 'downloaded' | 'paused' | 'waitingForWifi' | 'failed';
+
+export interface DownloadSettings {
+  wifiOnly: boolean;
+}
+
+export interface DownloadsSnapshot {
+  units: DownloadedUnit[];
+  jobs: UnitDownloadJob[];
+  /** True after pauseDownloads until resumeDownloads. */
+  isPaused: boolean;
+  settings: DownloadSettings;
+}
+
+type DownloadsListener = (snapshot: DownloadsSnapshot) => void;
+
+interface QueuedJob extends UnitDownloadJob {
+  lessons: Lesson[];
+  files: MediaFile[] | null;
+  waiters: ((outcome: UnitDownloadOutcome) => void)[];
+}
+
+let units: DownloadedUnit[] | null = null;
+let settings: DownloadSettings = { wifiOnly: false };
+let loading: Promise<void> | null = null;
+let isPaused = false;
+let isOnWifi = true;
+let running: Promise<void> | null = null;
+const jobs: QueuedJob[] = [];
+const listeners = new Set<DownloadsListener>();
+
+function unitKey(languageCode: string, unitId: number): string {
+  return `unit:${languageCode}:${unitId}`;
+}
+
+function isWifi(state: NetInfoState): boolean {
+  return state.type === NetInfoStateType.wifi || state.type === NetInfoStateType.ethernet;
+}
+
+function load(): Promise<void> {
+  if (units) {
+    return Promise.resolve();
+  }
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const [storedUnits, storedSettings] = await Promise.all([
+          AsyncStorage.getItem(DOWNLOADS_KEY),
+          AsyncStorage.getItem(SETTINGS_KEY),
+          AsyncStorage.removeItem(LEGACY_DOWNLOADS_KEY),
+        ]);
+        units = storedUnits ? JSON.parse(storedUnits) : [];
+        settings = storedSettings ? { ...settings, ...JSON.parse(storedSettings) } : settings;
+      } catch (error) {
+        console.error('[Downloads] Error loading downloads:', error);
+        units = [];
+      }
+    })().finally(() => {
+      loading = null;
+    });
+  }
+  return loading;
+}
+
+function snapshot(): DownloadsSnapshot {
+  return {
+    units: [...(units ?? [])],
+    jobs: jobs.map(job => ({
+      languageCode: job.languageCode,
+      unitId: job.unitId,
+      unitName: job.unitName,
+      status: job.status,
+      completed: job.completed,
+      failed: job.failed,
+      total: job.total,
+    })),
+    isPaused,
+    settings: { ...settings },
+  };
+}
+
+function notify() {
+  const current = snapshot();
+  listeners.forEach(listener => listener(current));
+}
+
+async function saveUnits() {
+  try {
+    await AsyncStorage.setItem(DOWNLOADS_KEY, JSON.stringify(units));
+  } catch (error) {
+    console.error('[Downloads] Error saving downloads:', error);
+  }
+}
+
+function settle(job: QueuedJob, outcome: UnitDownloadOutcome) {
+  job.waiters.splice(0).forEach(resolve => resolve(outcome));
+}
+
+function canDownload(): boolean {
+  return !isPaused && (!settings.wifiOnly || isOnWifi);
+}
+
+// Marks every unfinished job as held back, telling anyone waiting on it why
+function holdJobs(status: 'paused' | 'waitingForWifi') {
+  jobs.forEach(job => {
+    if (job.status !== 'failed') {
+      job.status = status;
+      settle(job, status);
+    }
+  });
+  notify();
+}
+
+// False once the job has been held back, put behind a unit the learner tapped, or taken off the queue
+function canContinue(job: QueuedJob): boolean {
+  return canDownload() && job.status === 'downloading' && jobs.includes(job);
+}
+
+function unitLessonIds(job: QueuedJob): number[] {
+  return job.lessons.filter(lesson => lesson.unitId === job.unitId).map(lesson => lesson.id);
+}
+
+// Drops what a job taken off the queue mid-download had saved, so nothing stays pinned for it
+async function discardJob(job: QueuedJob) {
+  await unpinMedia(unitKey(job.languageCode, job.unitId));
+  await deleteUnitContent(job.languageCode, unitLessonIds(job));
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Pauses only the files the given jobs asked for; lessons streaming media keep theirs
+async function pauseJobFiles(targets: QueuedJob[]) {
+  for (const job of targets) {
+    await pauseMediaDownloads(unitKey(job.languageCode, job.unitId));
+  }
+}
+
+// Retries with exponential backoff. 'held' means a pause or the Wi-Fi-only setting stopped it
+async function downloadFile(job: QueuedJob, file: MediaFile): Promise<'downloaded' | 'failed' | 'held'> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await resolveMediaUri(file.type, file.fileName, unitKey(job.languageCode, job.unitId));
+      return 'downloaded';
+    } catch (error) {
+      if (error instanceof MediaDownloadPausedError) {
+        return 'held';
+      }
+      if (attempt === MAX_FILE_ATTEMPTS) {
+        console.error(`[Downloads] Giving up on ${file.type} ${file.fileName}:`, error);
+        return 'failed';
+      }
+    }
+    await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    if (!canContinue(job)) {
+      return 'held';
+    }
+  }
+}
+
+// Downloads the files a few at a time. Returns false if the pass was held back before the end
+async function downloadFiles(job: QueuedJob, files: MediaFile[]): Promise<boolean> {
+  let next = 0;
+  let held = false;
+  const worker = async () => {
+    while (!held && next < files.length) {
+      if (!canContinue(job)) {
+        held = true;
+        return;
+      }
+      const file = files[next];
+      next += 1;
+      const result = await downloadFile(job, file);
+      if (result === 'held') {
+        held = true;
+        return;
+      }
+      if (result === 'downloaded') {
+        job.completed += 1;
+      } else {
+        job.failed += 1;
+      }
+      notify();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(FILE_CONCURRENCY, files.length) }, worker));
+  return !held;
+}
+
+async function downloadJob(job: QueuedJob) {
+  job.status = 'downloading';
+  notify();
+
+  if (!job.files) {
+    const resources = await getUnitResources(job.unitId, job.languageCode);
+    // Lesson and question JSON first, so the unit plays offline even before all media is in
+    await downloadUnitContent(job.languageCode, job.unitId, job.lessons);
+    job.files = [
+      ...resources.audio.map(fileName => ({ type: 'audio' as const, fileName })),
+      ...resources.images.map(fileName => ({ type: 'image' as const, fileName })),
+    ];
+    job.total = job.files.length;
+    // Pinned up front so files fetched early aren't evicted before the last one arrives
+    await pinMedia(unitKey(job.languageCode, job.unitId), job.files);
+  }
+
+  // Files cached by an earlier pass, or by another unit, count as done straight away
+  const missing = await findMissingMedia(job.files);
+  job.completed = job.total - missing.length;
+  job.failed = 0;
+  notify();
+
+  const isFinished = await downloadFiles(job, missing);
+  if (!jobs.includes(job)) {
+    // Cancelled by deleteUnitDownload or forgetAllDownloads along the way
+    await discardJob(job);
+    return;
+  }
+  if (!isFinished) {
+    return;
+  }
+
+  // Only a unit with every file verified on disk counts as downloaded
+  const stillMissing = await findMissingMedia(job.files);
+  if (!jobs.includes(job)) {
+    await discardJob(job);
+    return;
+  }
+  if (stillMissing.length > 0) {
+    // Kept in the queue so the learner can see it and retry; files already in are kept
+    job.status = 'failed';
+    job.completed = job.total - stillMissing.length;
+    job.failed = stillMissing.length;
+    settle(job, 'failed');
+    notify();
+    return;
+  }
+
+  jobs.splice(jobs.indexOf(job), 1);
+  units = [
+    ...(units ?? []).filter(unit => !(unit.languageCode === job.languageCode && unit.unitId === job.unitId)),
+    {
+      languageCode: job.languageCode,
+      unitId: job.unitId,
+      unitName: job.unitName,
+      lessonIds: unitLessonIds(job),
+      files: job.files,
+      downloadedAt: new Date().toISOString(),
+    },
+  ];
+  await saveUnits();
+  settle(job, 'downloaded');
+  notify();
+}
+
+// Works through the queue one unit at a time until it's empty or downloading isn't allowed
+function run(): Promise<void> {
+  if (!running) {
+    running = (async () => {
+      while (canDownload()) {
+        const next = jobs.find(job => job.status !== 'failed');
+        if (!next) {
+          return;
+        }
+        try {
+          await downloadJob(next);
+        } catch (error) {
+          console.error(`[Downloads] Error downloading unit ${next.unitId}:`, error);
+          next.status = 'failed';
+          settle(next, 'failed');
+          notify();
+        }
+      }
+      holdJobs(isPaused ? 'paused' : 'waitingForWifi');
+    })().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+function enqueue(
+  languageCode: string,
+  unit: { id: number; name: string },
+  lessons: Lesson[],
+  placement: 'first' | 'last'
+): QueuedJob {
+  let job = jobs.find(queued => queued.languageCode === languageCode && queued.unitId === unit.id);
+  if (!job) {
+    job = {
+      languageCode,
+      unitId: unit.id,
+      unitName: unit.name,
+      status: 'queued',
+      completed: 0,
+      failed: 0,
+      total: 0,
+      lessons,
+      files: null,
+      waiters: [],
+    };
+  } else {
+    jobs.splice(jobs.indexOf(job), 1);
+    if (job.status === 'failed') {
+      job.status = 'queued';
+    }
+  }
+  if (placement === 'first') {
+    jobs.unshift(job);
+  } else {
+    jobs.push(job);
+  }
+  return job;
+}
+
+function startQueue() {
+  if (canDownload()) {
+    notify();
+    run();
+  } else {
+    holdJobs(isPaused ? 'paused' : 'waitingForWifi');
+  }
+}
+
+/**
+ * Downloads a unit's questions and media for offline use, ahead of anything
+ * else in the queue: a unit already downloading is paused and carries on
+ * afterwards. Resolves once the unit is downloaded, or as soon as it is held
+ * back by a pause or the Wi-Fi-only setting (it stays queued and carries on
+ * later).
+ */
+export async function queueUnitDownload(
+  languageCode: string,
+  unit: { id: number; name: string },
+  lessons: Lesson[]
+): Promise<UnitDownloadOutcome> {
+  await load();
+  const job = enqueue(languageCode, unit, lessons, 'first');
+  const outcome = new Promise<UnitDownloadOutcome>(resolve => job.waiters.push(resolve));
+  // Once its files stop, run moves on to the head of the queue, which is this unit
+  const preempted = jobs.filter(queued => queued !== job && queued.status === 'downloading');
+  preempted.forEach(queued => {
+    queued.status = 'queued';
+  });
+  startQueue();
+  await pauseJobFiles(preempted);
+  return outcome;
+}
+
+/** Queues every unit of a language that isn't downloaded yet, in course order. */
+export async function downloadAllUnits(languageCode: string, lessons: Lesson[]): Promise<void> {
+  await load();
+  const unitsInOrder = new Map<number, { id: number; name: string; order: number }>();
+  lessons.forEach(lesson => {
+    if (!unitsInOrder.has(lesson.unitId)) {
+      unitsInOrder.set(lesson.unitId, { id: lesson.unitId, name: lesson.unitName, order: lesson.unitOrder });
+    }
+  });
+
+  const missing = Array.from(unitsInOrder.values())
+    .filter(unit => !isUnitDownloadedSync(languageCode, unit.id))
+    .sort((a, b) => a.order - b.order);
+  missing.forEach(unit => enqueue(languageCode, unit, lessons, 'last'));
+  startQueue();
+}
+
+function isUnitDownloadedSync(languageCode: string, unitId: number): boolean {
+  return (units ?? []).some(unit => unit.languageCode === languageCode && unit.unitId === unitId);
+}
+
+/**
+ * True when the unit was downloaded and its questions and every media file
+ * are still on disk intact. A unit that fails this needs queueUnitDownload
+ * again, which only fetches what's missing.
+ */
+export async function isUnitComplete(languageCode: string, unitId: number, lessons: Lesson[]): Promise<boolean> {
+  await load();
+  const unit = (units ?? []).find(stored => stored.languageCode === languageCode && stored.unitId === unitId);
+  if (!unit || !(await hasUnitContent(languageCode, unitId, lessons))) {
+    return false;
+  }
+  return (await findMissingMedia(unit.files)).length === 0;
+}
+
+/** Tries a failed unit again, fetching only the files it's still missing. */
+export function retryUnitDownload(languageCode: string, unitId: number): void {
+  const job = jobs.find(queued => queued.languageCode === languageCode && queued.unitId === unitId);
+  if (job?.status === 'failed') {
+    job.status = 'queued';
+    job.failed = 0;
+    startQueue();
+  }
+}
+
+/** Pauses the queue and any file in flight. Nothing downloads until resumeDownloads. */
+export async function pauseDownloads(): Promise<void> {
+  isPaused = true;
+  holdJobs('paused');
+  await pauseJobFiles(jobs);
+}
+
+export function resumeDownloads(): void {
+  isPaused = false;
+  jobs.forEach(job => {
+    if (job.status === 'paused') {
+      job.status = 'queued';
+    }
+  });
+  notify();
+  run();
+}
+
+export async function setWifiOnly(wifiOnly: boolean): Promise<void> {
+  await load();
+  settings = { ...settings, wifiOnly };
+  try {
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('[Downloads] Error saving download settings:', error);
+  }
+  startQueue();
+  if (!canDownload()) {
+    await pauseJobFiles(jobs);
+  }
+}
+
+/** Removes a downloaded unit (or cancels its download) and frees the space only it was using. */
+export async function deleteUnitDownload(languageCode: string, unitId: number): Promise<void> {
+  await load();
+  const job = jobs.find(queued => queued.languageCode === languageCode && queued.unitId === unitId);
+  if (job) {
+    // A download in progress sees it's off the queue, stops and drops what it saved
+    jobs.splice(jobs.indexOf(job), 1);
+    settle(job, 'failed');
+    await pauseJobFiles([job]);
+  }
+
+  const unit = (units ?? []).find(stored => stored.languageCode === languageCode && stored.unitId === unitId);
+  units = (units ?? []).filter(stored => stored !== unit);
+  await saveUnits();
+  await unpinMedia(unitKey(languageCode, unitId));
+  if (unit) {
+    await deleteUnitContent(languageCode, unit.lessonIds);
+  }
+  notify();
+}
+
+/** Forgets every downloaded unit and drops the queue, e.g. after the media cache has been cleared. */
+export async function forgetAllDownloads(): Promise<void> {
+  await load();
+  await pauseJobFiles(jobs);
+  jobs.splice(0).forEach(job => settle(job, 'failed'));
+  const forgotten = units ?? [];
+  units = [];
+  await saveUnits();
+  for (const unit of forgotten) {
+    await unpinMedia(unitKey(unit.languageCode, unit.unitId));
+    await deleteUnitContent(unit.languageCode, unit.lessonIds);
+  }
+  notify();
+}
+
+/** Bytes on disk for a downloaded unit: its media plus its saved questions. */
+export async function getDownloadedUnitSize(unit: DownloadedUnit): Promise<number> {
+  const [mediaSize, contentSize] = await Promise.all([
+    getMediaSize(unit.files),
+    getUnitContentSize(unit.languageCode, unit.lessonIds),
+  ]);
+  return mediaSize + contentSize;
+}
+
+/**
+ * Calls the listener with the downloads and queue now and on every change.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToDownloads(listener: DownloadsListener): () => void {
+  listeners.add(listener);
+  load().then(() => {
+    if (listeners.has(listener)) {
+      listener(snapshot());
+    }
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Holds queued downloads while off Wi-Fi (when the learner asked for
+ * Wi-Fi only) and carries on when Wi-Fi comes back. Returns a cleanup function.
+ */
+export function startDownloadSync(): () => void {
+  return NetInfo.addEventListener(state => {
+    const wasOnWifi = isOnWifi;
+    isOnWifi = isWifi(state);
+    if (!settings.wifiOnly || wasOnWifi === isOnWifi || jobs.length === 0) {
+      return;
+    }
+    if (isOnWifi) {
+      run();
+    } else {
+      holdJobs('waitingForWifi');
+      pauseJobFiles(jobs);
+    }
+  });
+}
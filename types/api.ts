@@ -1 +1,147 @@
- 
\ No newline at end of file
+export type SubscriptionTier = 'free' | 'premium';
+
+export interface LanguageLearner {
+  id: number;
+  uid: string;
+  name: string;
+  created: string;
+  lastSeen: string;
+  email: string;
+  points: number;
+  streak: number;
+  streakLastUpdated: string;
+  avatar: string;
+  expoPushToken: string;
+  followMeCode: string;
+  version: string;
+  os: string;
+  reminders: boolean;
+  subscription: SubscriptionTier;
+}
+
+/**
+ * Free learners' lesson allowance for one day, as counted by the backend from
+ * completed lessons. `date` is the learner's local day the count applies to.
+ */
+export interface DailyLessonQuota {
+  date: string;
+  /** null when the learner has no daily limit (premium). */
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+}
+
+export interface LearnerStreak {
+  calculatedFromProgress: boolean;
+  id: number;
+  lastActivityDate: string;
+  streak: number;
+  uid: string;
+}
+
+export type ScoreboardLearner = Pick<LanguageLearner, 'id' | 'uid' | 'name' | 'points' | 'avatar' | 'subscription'> & {
+  position?: number;
+};
+
+export interface ScoreboardResponse {
+  topLearners: ScoreboardLearner[];
+  currentLearner: ScoreboardLearner;
+}
+
+export type LessonStatus = 'started' | 'completed' | 'not_started';
+
+export interface Lesson {
+  id: number;
+  title: string;
+  lessonOrder: number;
+  unitId: number;
+  unitName: string;
+  hasLanguageWords: boolean;
+  unitOrder: number;
+  unitDescription?: string;
+}
+
+export interface LessonProgress {
+  id: number;
+  lessonId: number;
+  lessonTitle: string;
+  unitId: number;
+  status: LessonStatus;
+  lastUpdate: string;
+}
+
+export interface LessonProgressUpdate {
+  lessonId: number;
+  language: string;
+  status: Exclude<LessonStatus, 'not_started'>;
+}
+
+export interface PointsIncrement {
+  points: number;
+  lessonId: number;
+  streak?: boolean;
+}
+
+export interface LearnerEmailUpdate {
+  email: string;
+}
+
+/** One checked answer, uploaded in batches for content analytics. */
+export interface AnswerAttempt {
+  /** Client-generated; lets the backend drop duplicates from a retried upload. */
+  id: string;
+  questionId: number;
+  questionType: string;
+  lessonId: number | null;
+  language: string;
+  /** What the learner gave, as the question component collected it (text, word ids, option index...). */
+  answer: unknown;
+  isCorrect: boolean;
+  verdict?: 'correct' | 'typo' | 'wrong';
+  timeToAnswerMs: number;
+  /** Answered while retrying the questions missed earlier in the lesson. */
+  isRetry: boolean;
+  answeredAt: string;
+}
+
+export interface UnitResources {
+  audio: string[];
+  images: string[];
+}
+
+export interface Word {
+  id: number;
+  image: string;
+  audio: Record<string, string>;
+  translations: Record<string, string>;
+}
+
+// Types this version of the app ships with. The API may send newer ones, which
+// is why Question.type is a plain string (see app/components/questionRegistry.ts).
+export type QuestionType =
+  | 'select_image'
+  | 'tap_what_you_hear'
+  | 'match_pairs'
+  | 'type_what_you_hear'
+  | 'fill_in_blank'
+  | 'complete_translation'
+  | 'translate'
+  | 'type_missing_word'
+  | 'speak_sentence';
+
+export interface Question {
+  id: number;
+  words?: Word[];
+  options: string[];
+  correctOption: number | null;
+  questionOrder: number;
+  type: QuestionType | (string & {});
+  blankIndex: number | null;
+  sentenceWords: string[] | null;
+  // translate: other word orders of sentenceWords that are also grammatical
+  sentenceWordVariants?: string[][] | null;
+  // translate: paraphrases accepted as correct, written in the answer language
+  acceptedAnswers?: string[] | null;
+  direction: string | null;
+  matchType?: 'audio' | 'text';
+}